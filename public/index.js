@@ -186,6 +186,8 @@ function registerDomHandlers() {
           return 'Stopped'
         case 1:
           return 'Running'
+        case 2:
+          return 'Paused'
         default:
           return String(s)
       }
@@ -227,7 +229,7 @@ function registerDomHandlers() {
           `<td>${statusText(it.status)}</td>`,
           `
                 <td class="action-buttons">
-                    <button class="btn startstop-btn" data-id="${it.id}" data-totalTiles="${it.totalTiles}" title="Start">
+                    <button class="btn startstop-btn" data-id="${it.id}" data-status="${it.status}" data-totalTiles="${it.totalTiles}" title="${it.status === 1 ? 'Pause' : it.status === 2 ? 'Resume' : 'Start'}">
                         <svg class="icon-play ${it.status === 1 ? 'hidden' : ''}" viewBox="0 0 24 24" width="16" height="16" fill="white">
                             <path d="M8 5v14l11-7z"/>
                         </svg>
@@ -235,6 +237,16 @@ function registerDomHandlers() {
                             <path d="M6 19h4V5H6zm8-14v14h4V5z"/>
                         </svg>
                     </button>
+                    <button class="btn stop-btn ${it.status === 0 ? 'hidden' : ''}" data-id="${it.id}" title="Stop">
+                        <svg viewBox="0 0 24 24" width="16" height="16" fill="white">
+                            <path d="M6 6h12v12H6z"/>
+                        </svg>
+                    </button>
+                    <button class="btn retry-btn ${it.status === 0 && it.failedTiles > 0 ? '' : 'hidden'}" data-id="${it.id}" title="Retry failed tiles">
+                        <svg viewBox="0 0 24 24" width="16" height="16" fill="white">
+                            <path d="M17.65 6.35A7.95 7.95 0 0 0 12 4a8 8 0 1 0 7.75 10h-2.08A6 6 0 1 1 12 6c1.66 0 3.14.69 4.22 1.78L13 11h7V4z"/>
+                        </svg>
+                    </button>
                     <button class="btn delete-btn" data-id="${it.id}" title="Delete">
                             <svg viewBox="0 0 24 24" width="16" height="16" fill="white">
                             <path d="M3 6h18v2H3zm3 3h12v12H6zM8 2h8v2H8z"/>
@@ -251,14 +263,16 @@ function registerDomHandlers() {
 
         tr.querySelectorAll('.startstop-btn').forEach((button) => {
           button.addEventListener('click', () => {
-            const playIcon = button.querySelector('.icon-play')
-            const pauseIcon = button.querySelector('.icon-pause')
             const jobId = button.getAttribute('data-id')
+            const status = Number(button.getAttribute('data-status'))
             const totalTiles = button.getAttribute('data-totalTiles')
-            const isRunning = pauseIcon.classList.contains('hidden')
-            console.log(isRunning)
-            if (isRunning) {
-              // Switch to stop
+            if (status === 1) {
+              takeAction(jobId, 'pause')
+            } else if (status === 2) {
+              // Paused jobs continue where they left off, no confirmation
+              // needed: the user already agreed to the job size on start.
+              takeAction(jobId, 'resume')
+            } else {
               if (
                 totalTiles > 100000 &&
                 !confirm(
@@ -268,11 +282,24 @@ function registerDomHandlers() {
                 return
               }
               takeAction(jobId, 'start')
-              button.title = 'Stop'
-            } else {
-              // Switch to start
+            }
+          })
+        })
+
+        tr.querySelectorAll('.stop-btn').forEach((button) => {
+          button.addEventListener('click', () => {
+            const jobId = button.getAttribute('data-id')
+            if (jobId) {
               takeAction(jobId, 'stop')
-              button.title = 'Start'
+            }
+          })
+        })
+
+        tr.querySelectorAll('.retry-btn').forEach((button) => {
+          button.addEventListener('click', () => {
+            const jobId = button.getAttribute('data-id')
+            if (jobId) {
+              takeAction(jobId, 'retry')
             }
           })
         })
@@ -0,0 +1,300 @@
+// Packs a proxied provider's cached tiles into a single MBTiles file inside a
+// chart path, where findCharts picks it up as a local chart. The proxy cache
+// is tied to this server and its storage backend; one .mbtiles is easy to
+// hand to another boat.
+//
+// The file is written as `<name>.mbtiles.part` and renamed when complete, so
+// a chart reload during the export never sees a half-written chart.
+
+import fs from 'fs'
+import type { BBox, Feature, FeatureCollection } from 'geojson'
+import booleanIntersects from '@turf/boolean-intersects'
+import { bbox as featureBBox } from '@turf/bbox'
+import { polygon } from '@turf/helpers'
+import { ResourcesApi } from '@signalk/server-api'
+import { ChartDownloader, JobArea, Tile } from './chartDownloader'
+import { tileToBBox } from './projection'
+import { tileCacheFor } from './tileCache'
+import { ChartProvider } from './types'
+
+export enum ExportStatus {
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Cancelled = 'cancelled'
+}
+
+export interface ExportRequest {
+  area?: JobArea
+  minZoom?: number
+  maxZoom?: number
+  // Chart name stored in the MBTiles metadata.
+  name?: string
+}
+
+// The subset of @signalk/mbtiles used for writing; see MBTilesHandle in
+// types.ts for the read side.
+interface MBTilesWriter {
+  startWriting: (callback: (err: Error | null) => void) => void
+  putTile: (
+    z: number,
+    x: number,
+    y: number,
+    data: Buffer,
+    callback: (err: Error | null) => void
+  ) => void
+  putInfo: (info: object, callback: (err: Error | null) => void) => void
+  stopWriting: (callback: (err: Error | null) => void) => void
+  close: (callback: (err: Error | null) => void) => void
+  on: (event: 'error', listener: (err: Error) => void) => MBTilesWriter
+}
+
+const promisify = (
+  fn: (callback: (err: Error | null) => void) => void
+): Promise<void> =>
+  new Promise((resolve, reject) => fn((err) => (err ? reject(err) : resolve())))
+
+const openWriter = async (file: string): Promise<MBTilesWriter> => {
+  const module = await import('@signalk/mbtiles')
+  const MBTiles = module.default || module
+  return new Promise((resolve, reject) => {
+    const instance = new MBTiles(
+      `${file}?mode=rwc`,
+      (err: Error | null, mbtiles: MBTilesWriter) =>
+        err ? reject(err) : resolve(mbtiles)
+    )
+    instance.on('error', reject)
+  })
+}
+
+// Output file names are plain names inside the chart path: no directories,
+// no leading dot, and always the .mbtiles extension.
+// Input  ("Passage Plan")         -> error
+// Input  ("passage-2024")         -> "passage-2024.mbtiles"
+// Input  ("passage.mbtiles")      -> "passage.mbtiles"
+export const normalizeExportFilename = (
+  filename: string
+): { filename: string } | { error: string } => {
+  const withExt = /\.mbtiles$/i.test(filename)
+    ? filename
+    : `${filename}.mbtiles`
+  if (!/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(withExt)) {
+    return {
+      error: `Invalid filename ${filename} (use letters, digits, '.', '_' and '-')`
+    }
+  }
+  return { filename: withExt }
+}
+
+// Builds the test deciding whether a cached tile belongs to the export area.
+// Tiles only need to touch the area, matching how seeding picks tiles.
+const areaFilter = async (
+  resourcesApi: ResourcesApi,
+  area: JobArea | undefined
+): Promise<(tile: Tile, tileBBox: BBox) => boolean> => {
+  if (!area) return () => true
+  if (area.type === 'tile') {
+    const { x, y, z } = area.tile
+    return (t) => t.z >= z && t.x >> (t.z - z) === x && t.y >> (t.z - z) === y
+  }
+  if (area.type === 'bbox') {
+    const [minLon, minLat, maxLon, maxLat] = area.bbox
+    // minLon > maxLon is a box crossing the antimeridian.
+    const lonOverlaps =
+      minLon <= maxLon
+        ? (w: number, e: number) => e >= minLon && w <= maxLon
+        : (w: number, e: number) => e >= minLon || w <= maxLon
+    return (_t, [w, s, e, n]) => lonOverlaps(w, e) && n >= minLat && s <= maxLat
+  }
+  const region = (await resourcesApi.getResource(
+    'regions',
+    area.regionGUID
+  )) as Record<string, unknown>
+  const geojson: FeatureCollection =
+    ChartDownloader.convertRegionToGeoJSON(region)
+  const features = geojson.features.map((f) => ({
+    feature: f as Feature,
+    bounds: featureBBox(f)
+  }))
+  return (_t, [w, s, e, n]) =>
+    features.some(
+      ({ feature, bounds }) =>
+        e >= bounds[0] &&
+        w <= bounds[2] &&
+        n >= bounds[1] &&
+        s <= bounds[3] &&
+        booleanIntersects(
+          feature,
+          polygon([
+            [
+              [w, s],
+              [e, s],
+              [e, n],
+              [w, n],
+              [w, s]
+            ]
+          ])
+        )
+    )
+}
+
+export class ChartExportJob {
+  private status = ExportStatus.Running
+  private totalTiles = 0
+  private exportedTiles = 0
+  private error: string | undefined
+  private cancelRequested = false
+
+  constructor(
+    readonly id: number,
+    private cachePath: string,
+    private provider: ChartProvider,
+    private outputPath: string
+  ) {}
+
+  // Collects the matching tiles first so totalTiles is known while writing.
+  async run(resourcesApi: ResourcesApi, request: ExportRequest): Promise<void> {
+    const partPath = `${this.outputPath}.part`
+    let writer: MBTilesWriter | undefined
+    try {
+      const inArea = await areaFilter(resourcesApi, request.area)
+      const minZoom = request.minZoom ?? 0
+      const maxZoom = request.maxZoom ?? Infinity
+      const storage = tileCacheFor(this.cachePath, this.provider)
+      const tiles: { tile: Tile; bounds: BBox }[] = []
+      await storage.list(
+        ({ tile }) => {
+          if (tile.z < minZoom || tile.z > maxZoom) return
+          let bounds: BBox
+          try {
+            bounds = tileToBBox(tile.x, tile.y, tile.z)
+          } catch (_err) {
+            return
+          }
+          if (inArea(tile, bounds)) tiles.push({ tile, bounds })
+        },
+        () => this.cancelRequested
+      )
+      if (tiles.length === 0) {
+        throw new Error('No cached tiles match the export area and zoom range')
+      }
+      this.totalTiles = tiles.length
+
+      await fs.promises.rm(partPath, { force: true })
+      writer = await openWriter(partPath)
+      const w = writer
+      await promisify((cb) => w.startWriting(cb))
+      let extent: BBox = tiles[0]!.bounds
+      let lowest = Infinity
+      let highest = -Infinity
+      for (const { tile, bounds } of tiles) {
+        if (this.cancelRequested) break
+        const cached = await storage.get(tile)
+        // Evicted since the walk; export what is still there.
+        if (!cached) continue
+        const data = cached.data
+        await promisify((cb) => w.putTile(tile.z, tile.x, tile.y, data, cb))
+        extent = [
+          Math.min(extent[0], bounds[0]),
+          Math.min(extent[1], bounds[1]),
+          Math.max(extent[2], bounds[2]),
+          Math.max(extent[3], bounds[3])
+        ]
+        lowest = Math.min(lowest, tile.z)
+        highest = Math.max(highest, tile.z)
+        this.exportedTiles++
+      }
+      if (!this.cancelRequested) {
+        await promisify((cb) =>
+          w.putInfo(
+            {
+              name: request.name || this.provider.name,
+              description: `Exported from the ${this.provider.name} tile cache`,
+              type: 'baselayer',
+              version: '1.1',
+              format: this.provider.format,
+              bounds: extent,
+              minzoom: lowest,
+              maxzoom: highest
+            },
+            cb
+          )
+        )
+      }
+      await promisify((cb) => w.stopWriting(cb))
+      await promisify((cb) => w.close(cb))
+      writer = undefined
+      if (this.cancelRequested) {
+        await fs.promises.rm(partPath, { force: true })
+        this.status = ExportStatus.Cancelled
+        return
+      }
+      await fs.promises.rename(partPath, this.outputPath)
+      this.status = ExportStatus.Completed
+    } catch (err) {
+      if (writer) {
+        const w = writer
+        await promisify((cb) => w.close(cb)).catch(() => undefined)
+      }
+      await fs.promises.rm(partPath, { force: true }).catch(() => undefined)
+      this.error = (err as Error).message
+      this.status = ExportStatus.Failed
+    }
+  }
+
+  cancel(): void {
+    this.cancelRequested = true
+  }
+
+  info() {
+    return {
+      id: this.id,
+      provider: this.provider.identifier,
+      file: this.outputPath,
+      status: this.status,
+      totalTiles: this.totalTiles,
+      exportedTiles: this.exportedTiles,
+      progress: this.totalTiles > 0 ? this.exportedTiles / this.totalTiles : 0,
+      error: this.error
+    }
+  }
+}
+
+export class ChartExportManager {
+  public static ActiveJobs: { [key: number]: ChartExportJob } = {}
+  private static nextJobId = 1
+
+  // Starts the export in the background and returns the job right away;
+  // progress is polled through GET /cache/exports.
+  public static createJob(
+    resourcesApi: ResourcesApi,
+    cachePath: string,
+    provider: ChartProvider,
+    outputPath: string,
+    request: ExportRequest
+  ): ChartExportJob {
+    const job = new ChartExportJob(
+      this.nextJobId++,
+      cachePath,
+      provider,
+      outputPath
+    )
+    this.ActiveJobs[job.id] = job
+    job.run(resourcesApi, request)
+    return job
+  }
+
+  // True while an export is still writing to outputPath.
+  public static isWriting(outputPath: string): boolean {
+    return Object.values(this.ActiveJobs).some(
+      (job) =>
+        job.info().file === outputPath &&
+        job.info().status === ExportStatus.Running
+    )
+  }
+
+  public static cancelAll(): void {
+    for (const job of Object.values(this.ActiveJobs)) job.cancel()
+    this.ActiveJobs = {}
+  }
+}
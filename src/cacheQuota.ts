@@ -0,0 +1,248 @@
+// Size quota for the proxy tile cache. Tracks every cached tile of the proxy
+// providers in memory (size + last access) and evicts the least recently used
+// ones in the background once a provider or the cache as a whole goes over
+// its quota. Last access is written back to the cache storage (the tile
+// file's atime, or a column in the SQLite backend) so the LRU order survives
+// a restart; the fetch time is left alone because it carries the tile's
+// freshness for max-age revalidation.
+//
+// Tiles covered by a listed seeding job are never evicted: seeding is an
+// explicit request to keep an area available offline.
+
+import type { Tile } from './chartDownloader'
+import { TileCacheStorage, tileCacheFor } from './tileCache'
+
+// Eviction stops at this fraction of the quota rather than exactly at it, so
+// a cache sitting at its limit doesn't evict on every new tile.
+const LOW_WATER_MARK = 0.9
+
+interface CacheEntry {
+  tile: Tile
+  size: number
+  lastAccess: number
+}
+
+interface ProviderCache {
+  quotaBytes: number | undefined
+  // Set once a tile of the provider is scanned or written.
+  storage: TileCacheStorage | undefined
+  bytes: number
+  // Keyed by `<z>/<x>/<y>`.
+  tiles: Map<string, CacheEntry>
+}
+
+export interface CacheUsage {
+  tiles: number
+  bytes: number
+}
+
+type CacheProvider = { name: string; format?: string }
+
+export const megabytesToBytes = (mb: unknown): number | undefined =>
+  typeof mb === 'number' && mb > 0 ? Math.round(mb * 1024 * 1024) : undefined
+
+export class CacheQuota {
+  totalQuotaBytes: number | undefined
+  private providers = new Map<string, ProviderCache>()
+  private evicting: Promise<unknown> | undefined
+  private evictAgain = false
+  private closed = false
+
+  // isSeeded tells whether a tile of the named provider is protected; it is
+  // asked for every candidate of an eviction pass.
+  constructor(
+    private cachePath: string,
+    private isSeeded: (name: string, tile: Tile) => boolean,
+    private now: () => number = Date.now
+  ) {}
+
+  setProviderQuota(name: string, quotaBytes: number | undefined): void {
+    this.providerCache(name).quotaBytes = quotaBytes
+  }
+
+  // Lists the provider's cached tiles and adds them, using the stored last
+  // access. Tiles recorded while the scan runs are newer than anything in
+  // the listing and are kept as they are.
+  async scan(provider: CacheProvider): Promise<void> {
+    const found: [string, CacheEntry][] = []
+    await this.storageFor(provider).list(
+      ({ tile, size, lastAccess }) => {
+        found.push([tileKey(tile), { tile, size, lastAccess }])
+      },
+      () => this.closed
+    )
+    if (this.closed) return
+    const cache = this.providerCache(provider.name)
+    for (const [key, entry] of found) {
+      if (cache.tiles.has(key)) continue
+      cache.tiles.set(key, entry)
+      cache.bytes += entry.size
+    }
+    this.scheduleEviction()
+  }
+
+  // A cache hit. fetchedAt is written back unchanged alongside the new
+  // last access.
+  recordRead(provider: CacheProvider, tile: Tile, fetchedAt: number): void {
+    const entry = this.providers.get(provider.name)?.tiles.get(tileKey(tile))
+    const now = this.now()
+    if (entry) entry.lastAccess = now
+    this.storageFor(provider)
+      .markAccessed(tile, now, fetchedAt)
+      .catch(() => undefined)
+  }
+
+  recordWrite(provider: CacheProvider, tile: Tile, size: number): void {
+    this.storageFor(provider)
+    const cache = this.providerCache(provider.name)
+    const key = tileKey(tile)
+    cache.bytes += size - (cache.tiles.get(key)?.size ?? 0)
+    cache.tiles.set(key, { tile, size, lastAccess: this.now() })
+    if (this.overQuota()) this.scheduleEviction()
+  }
+
+  recordRemoval(name: string, tile: Tile): void {
+    const cache = this.providers.get(name)
+    const entry = cache?.tiles.get(tileKey(tile))
+    if (!cache || !entry) return
+    cache.bytes -= entry.size
+    cache.tiles.delete(tileKey(tile))
+  }
+
+  // Usage of one provider, or of the whole cache without a name.
+  usage(name?: string): CacheUsage {
+    const caches =
+      name === undefined
+        ? [...this.providers.values()]
+        : [this.providers.get(name)].filter((c) => c !== undefined)
+    return caches.reduce(
+      (sum, c) => ({
+        tiles: sum.tiles + c.tiles.size,
+        bytes: sum.bytes + c.bytes
+      }),
+      { tiles: 0, bytes: 0 }
+    )
+  }
+
+  scheduleEviction(): void {
+    if (this.closed) return
+    if (this.evicting) {
+      this.evictAgain = true
+      return
+    }
+    this.evicting = this.evict()
+      .catch((err) => console.error('Error evicting cached tiles:', err))
+      .finally(() => {
+        this.evicting = undefined
+        if (this.evictAgain && this.overQuota()) this.scheduleEviction()
+        this.evictAgain = false
+      })
+  }
+
+  // Resolves once no eviction pass is running.
+  async whenIdle(): Promise<void> {
+    while (this.evicting) await this.evicting
+  }
+
+  close(): void {
+    this.closed = true
+  }
+
+  // One pass: each provider over its own quota first, then the whole cache
+  // against the total quota. Returns the number of tiles evicted.
+  async evict(): Promise<number> {
+    if (!this.overQuota()) return 0
+    let evicted = 0
+    for (const [name, cache] of this.providers) {
+      if (cache.quotaBytes !== undefined && cache.bytes > cache.quotaBytes) {
+        evicted += await this.evictDownTo(
+          cache.quotaBytes * LOW_WATER_MARK,
+          () => cache.bytes,
+          this.candidates([name])
+        )
+      }
+    }
+    if (
+      this.totalQuotaBytes !== undefined &&
+      this.usage().bytes > this.totalQuotaBytes
+    ) {
+      evicted += await this.evictDownTo(
+        this.totalQuotaBytes * LOW_WATER_MARK,
+        () => this.usage().bytes,
+        this.candidates([...this.providers.keys()])
+      )
+    }
+    return evicted
+  }
+
+  private overQuota(): boolean {
+    for (const cache of this.providers.values()) {
+      if (cache.quotaBytes !== undefined && cache.bytes > cache.quotaBytes) {
+        return true
+      }
+    }
+    return (
+      this.totalQuotaBytes !== undefined &&
+      this.usage().bytes > this.totalQuotaBytes
+    )
+  }
+
+  // Unprotected tiles of the given providers, least recently used first.
+  private candidates(
+    names: string[]
+  ): { name: string; key: string; entry: CacheEntry }[] {
+    const result: { name: string; key: string; entry: CacheEntry }[] = []
+    for (const name of names) {
+      for (const [key, entry] of this.providers.get(name)?.tiles ?? []) {
+        if (!this.isSeeded(name, entry.tile)) result.push({ name, key, entry })
+      }
+    }
+    return result.sort((a, b) => a.entry.lastAccess - b.entry.lastAccess)
+  }
+
+  private async evictDownTo(
+    targetBytes: number,
+    currentBytes: () => number,
+    candidates: { name: string; key: string; entry: CacheEntry }[]
+  ): Promise<number> {
+    let evicted = 0
+    for (const { name, key, entry } of candidates) {
+      if (this.closed || currentBytes() <= targetBytes) break
+      const cache = this.providers.get(name)
+      // Rewritten or removed since the candidate list was built.
+      if (!cache?.storage || cache.tiles.get(key) !== entry) continue
+      try {
+        await cache.storage.delete(entry.tile)
+      } catch (err) {
+        console.error(`Error evicting tile ${name}/${key}:`, err)
+        continue
+      }
+      cache.tiles.delete(key)
+      cache.bytes -= entry.size
+      evicted++
+    }
+    return evicted
+  }
+
+  private providerCache(name: string): ProviderCache {
+    let cache = this.providers.get(name)
+    if (!cache) {
+      cache = {
+        quotaBytes: undefined,
+        storage: undefined,
+        bytes: 0,
+        tiles: new Map()
+      }
+      this.providers.set(name, cache)
+    }
+    return cache
+  }
+
+  private storageFor(provider: CacheProvider): TileCacheStorage {
+    const cache = this.providerCache(provider.name)
+    cache.storage ??= tileCacheFor(this.cachePath, provider)
+    return cache.storage
+  }
+}
+
+const tileKey = (tile: Tile): string => `${tile.z}/${tile.x}/${tile.y}`
@@ -0,0 +1,118 @@
+// Usage statistics for the tile cache of a proxied provider, or of the
+// rendered or overview tiles of a local chart, served by GET /cache/stats. Computing them means walking every cached tile, which
+// takes seconds on a large cache on a Pi, so results are kept for
+// STATS_TTL_MS and concurrent requests share one walk.
+
+import type { BBox } from 'geojson'
+import { tileToBBox } from './projection'
+import { tileCacheFor } from './tileCache'
+import { ChartProvider } from './types'
+
+const STATS_TTL_MS = 60_000
+
+export type StatsProvider = Pick<
+  ChartProvider,
+  'identifier' | 'name' | 'format'
+>
+
+export interface ZoomStats {
+  tiles: number
+  bytes: number
+  bounds: BBox
+}
+
+export interface CacheStats {
+  identifier: string
+  tiles: number
+  bytes: number
+  // Tile fetch times, i.e. when a tile was fetched or last
+  // revalidated. Null for an empty cache.
+  oldest: string | null
+  newest: string | null
+  // [minLon, minLat, maxLon, maxLat] covered by cached tiles at any zoom.
+  bounds: BBox | null
+  zooms: { [z: string]: ZoomStats }
+  computedAt: string
+}
+
+// Input  (union of [0, 0, 1, 1] and [-1, 0.5, 0.5, 2])
+// Output [-1, 0, 1, 2]
+const unionBBox = (a: BBox | null, b: BBox): BBox =>
+  a
+    ? [
+        Math.min(a[0], b[0]),
+        Math.min(a[1], b[1]),
+        Math.max(a[2], b[2]),
+        Math.max(a[3], b[3])
+      ]
+    : b
+
+export const computeCacheStats = async (
+  cachePath: string,
+  provider: StatsProvider,
+  now: number = Date.now()
+): Promise<CacheStats> => {
+  let tiles = 0
+  let bytes = 0
+  let oldest = Infinity
+  let newest = -Infinity
+  let bounds: BBox | null = null
+  const zooms: { [z: string]: ZoomStats } = {}
+  await tileCacheFor(cachePath, provider).list(({ tile, size, fetchedAt }) => {
+    let tileBBox: BBox
+    try {
+      tileBBox = tileToBBox(tile.x, tile.y, tile.z)
+    } catch (_err) {
+      // x or y outside the grid for its zoom; not a tile we wrote.
+      return
+    }
+    tiles++
+    bytes += size
+    oldest = Math.min(oldest, fetchedAt)
+    newest = Math.max(newest, fetchedAt)
+    bounds = unionBBox(bounds, tileBBox)
+    const zoom = zooms[tile.z]
+    if (zoom) {
+      zoom.tiles++
+      zoom.bytes += size
+      zoom.bounds = unionBBox(zoom.bounds, tileBBox)
+    } else {
+      zooms[tile.z] = { tiles: 1, bytes: size, bounds: tileBBox }
+    }
+  })
+  return {
+    identifier: provider.identifier,
+    tiles,
+    bytes,
+    oldest: tiles ? new Date(oldest).toISOString() : null,
+    newest: tiles ? new Date(newest).toISOString() : null,
+    bounds,
+    zooms,
+    computedAt: new Date(now).toISOString()
+  }
+}
+
+const cached = new Map<string, { at: number; stats: Promise<CacheStats> }>()
+
+// Returns the provider's stats, recomputing them once they are older than
+// STATS_TTL_MS. A failed walk is not cached.
+export const cacheStatsFor = (
+  cachePath: string,
+  provider: StatsProvider,
+  now: number = Date.now()
+): Promise<CacheStats> => {
+  const hit = cached.get(provider.identifier)
+  if (hit && now - hit.at < STATS_TTL_MS) return hit.stats
+  const stats = computeCacheStats(cachePath, provider, now)
+  cached.set(provider.identifier, { at: now, stats })
+  stats.catch(() => {
+    if (cached.get(provider.identifier)?.stats === stats) {
+      cached.delete(provider.identifier)
+    }
+  })
+  return stats
+}
+
+export const resetCacheStats = (): void => {
+  cached.clear()
+}
@@ -0,0 +1,305 @@
+// Coverage of a local chart: the outline of the tiles it actually holds at
+// one zoom level, as GeoJSON. `bounds` is only a rectangle, which says
+// little about coastal strips or rotated ENC cells; the outline lets
+// clients draw the real chart edge and pick the chart for a position.
+//
+// Tiles are read from the MBTiles `tiles` table or the directory tree, and
+// their outer edges are traced into polygons (with holes where the chart
+// has none). The result is kept per provider object, so a chart reload,
+// which creates new providers, computes it again.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { Feature, MultiPolygon, Position } from 'geojson'
+import { lonLatToTile, tileCorner } from './projection'
+import { loadSqlite } from './sqlite'
+import { ChartProvider } from './types'
+
+// Deeper zooms follow the chart edge more closely but hold many more tiles;
+// zoom 12 tiles are about 10 km across at the equator.
+export const DEFAULT_COVERAGE_ZOOM = 12
+
+// The deepest zoom up to DEFAULT_COVERAGE_ZOOM the chart claims to have;
+// coverageZoom starts looking for tiles there.
+// Input  (minzoom 13, maxzoom 17) -> 13
+// Input  (minzoom 3, maxzoom 16)  -> 12
+export const defaultCoverageZoom = (provider: ChartProvider): number => {
+  const minzoom = provider._nativeMinzoom ?? provider.minzoom ?? 0
+  const maxzoom = provider.maxzoom ?? minzoom
+  return Math.max(minzoom, Math.min(maxzoom, DEFAULT_COVERAGE_ZOOM))
+}
+
+export const validateCoverageZoom = (
+  provider: ChartProvider,
+  zoom: number
+): string | undefined => {
+  const minzoom = provider._nativeMinzoom ?? provider.minzoom ?? 0
+  const maxzoom = provider.maxzoom ?? minzoom
+  if (!Number.isInteger(zoom) || zoom < minzoom || zoom > maxzoom) {
+    return `Invalid zoom ${zoom} (the chart has tiles at [${minzoom}, ${maxzoom}])`
+  }
+  return undefined
+}
+
+// Tiles are keyed "x/y".
+const tileKey = (x: number, y: number) => `${x}/${y}`
+
+const mbtilesTiles = async (file: string, z: number): Promise<Set<string>> => {
+  const { DatabaseSync } = await loadSqlite()
+  const db = new DatabaseSync(file, { readOnly: true })
+  try {
+    const rows = db
+      .prepare('SELECT tile_column, tile_row FROM tiles WHERE zoom_level = ?')
+      .all(z) as { tile_column: number; tile_row: number }[]
+    // MBTiles rows count from the south.
+    return new Set(
+      rows.map((r) => tileKey(r.tile_column, 2 ** z - 1 - r.tile_row))
+    )
+  } finally {
+    db.close()
+  }
+}
+
+const readdirOrEmpty = async (dir: string): Promise<string[]> =>
+  fs.readdir(dir).catch(() => [])
+
+const directoryTiles = async (
+  provider: ChartProvider,
+  z: number
+): Promise<Set<string>> => {
+  const tiles = new Set<string>()
+  const zoomDir = path.join(provider._filePath, `${z}`)
+  for (const column of await readdirOrEmpty(zoomDir)) {
+    if (!/^\d+$/.test(column)) continue
+    for (const file of await readdirOrEmpty(path.join(zoomDir, column))) {
+      const row = file.match(/^(\d+)\.\w+$/)
+      if (!row) continue
+      const y = Number(row[1])
+      tiles.add(tileKey(Number(column), provider._flipY ? 2 ** z - 1 - y : y))
+    }
+  }
+  return tiles
+}
+
+// The tiles a chart holds at zoom z; composites hold their members' tiles.
+export const chartTiles = async (
+  provider: ChartProvider,
+  charts: { [identifier: string]: ChartProvider },
+  z: number
+): Promise<Set<string>> => {
+  if (provider._compositeOf) {
+    const all = new Set<string>()
+    for (const id of provider._compositeOf) {
+      const member = charts[id]
+      if (!member?._fileFormat) continue
+      for (const tile of await chartTiles(member, charts, z)) all.add(tile)
+    }
+    return all
+  }
+  switch (provider._fileFormat) {
+    case 'mbtiles':
+      return mbtilesTiles(provider._filePath, z)
+    case 'directory':
+      return directoryTiles(provider, z)
+    default:
+      return new Set()
+  }
+}
+
+// Directions in tile space, where y grows southward, in clockwise order.
+const DIRECTIONS: [number, number][] = [
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [0, -1]
+]
+
+interface Edge {
+  from: [number, number]
+  direction: number
+  used: boolean
+}
+
+// Twice the signed area of a ring in tile space; positive for rings with
+// the tiles on their right, the outer edges.
+const ringArea = (ring: [number, number][]): number =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length]!
+    return sum + x1 * y2 - x2 * y1
+  }, 0)
+
+const insideRing = ([px, py]: number[], ring: [number, number][]): boolean => {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]!
+    const [xj, yj] = ring[j]!
+    if (
+      yi > py! !== yj > py! &&
+      px! < ((xj - xi) * (py! - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Traces the outline of a set of tiles into polygons of tile-space corners.
+// Every tile side without a tile behind it is an edge, directed so the tile
+// lies on its right; the edges join into closed rings. Where two tiles
+// only touch at a corner the trace turns right, keeping them apart.
+// Collinear corners are dropped, so a full rectangle of tiles is 4 corners.
+// Input  (tiles "0/0", "1/0") -> [[[2, 0], [2, 1], [0, 1], [0, 0]]]
+export const traceTiles = (tiles: Set<string>): [number, number][][][] => {
+  const edges = new Map<string, Edge[]>()
+  const addEdge = (x: number, y: number, direction: number) => {
+    const key = tileKey(x, y)
+    edges.set(key, [
+      ...(edges.get(key) ?? []),
+      { from: [x, y], direction, used: false }
+    ])
+  }
+  for (const key of tiles) {
+    const [x, y] = key.split('/').map(Number) as [number, number]
+    if (!tiles.has(tileKey(x, y - 1))) addEdge(x, y, 0)
+    if (!tiles.has(tileKey(x + 1, y))) addEdge(x + 1, y, 1)
+    if (!tiles.has(tileKey(x, y + 1))) addEdge(x + 1, y + 1, 2)
+    if (!tiles.has(tileKey(x - 1, y))) addEdge(x, y + 1, 3)
+  }
+
+  const rings: [number, number][][] = []
+  for (const start of [...edges.values()].flat()) {
+    if (start.used) continue
+    const ring: [number, number][] = []
+    let edge: Edge | undefined = start
+    let direction = start.direction
+    while (edge && !edge.used) {
+      edge.used = true
+      const [dx, dy] = DIRECTIONS[edge.direction]!
+      const to: [number, number] = [edge.from[0] + dx, edge.from[1] + dy]
+      direction = edge.direction
+      const next: Edge[] = (edges.get(tileKey(...to)) ?? []).filter(
+        (e) => !e.used
+      )
+      // Right turn first, then straight on, then left.
+      edge = [1, 0, 3]
+        .map((turn) => next.find((e) => e.direction === (direction + turn) % 4))
+        .find((e) => e)
+      if (edge?.direction !== direction) ring.push(to)
+    }
+    // The trace ends where it started, which is no corner when the first
+    // edge carries straight on from the last.
+    if (direction === start.direction) ring.pop()
+    rings.push(ring)
+  }
+
+  // Holes run the other way round; each goes into the smallest outer ring
+  // around it (an island in a hole of another part of the chart is possible).
+  const outers = rings
+    .filter((r) => ringArea(r) > 0)
+    .sort((a, b) => ringArea(a) - ringArea(b))
+  const polygons = new Map(outers.map((r) => [r, [r]]))
+  for (const hole of rings.filter((r) => ringArea(r) < 0)) {
+    // A corner of a hole can sit on its outer ring; test the centre of the
+    // tile along the hole's first side instead.
+    const [x1, y1] = hole[hole.length - 1]!
+    const [x2, y2] = hole[0]!
+    const point = [
+      (x1 + x2) / 2 - Math.sign(y2 - y1) * 0.5,
+      (y1 + y2) / 2 + Math.sign(x2 - x1) * 0.5
+    ]
+    const outer = outers.find((r) => insideRing(point, r))
+    if (outer) polygons.get(outer)!.push(hole)
+  }
+  return [...polygons.values()]
+}
+
+// A cache of results per provider object and zoom. A failed computation
+// isn't kept: the next request tries again.
+const cachePerZoom = <T>() => {
+  const cache = new WeakMap<ChartProvider, Map<number, Promise<T>>>()
+  return (
+    provider: ChartProvider,
+    z: number,
+    compute: () => Promise<T>
+  ): Promise<T> => {
+    let byZoom = cache.get(provider)
+    if (!byZoom) {
+      byZoom = new Map()
+      cache.set(provider, byZoom)
+    }
+    let result = byZoom.get(z)
+    if (!result) {
+      result = compute()
+      result.catch(() => byZoom!.delete(z))
+      byZoom.set(z, result)
+    }
+    return result
+  }
+}
+
+const cachedTiles = cachePerZoom<Set<string>>()
+const cachedCoverage = cachePerZoom<Feature<MultiPolygon>>()
+
+const tilesAt = (
+  provider: ChartProvider,
+  charts: { [identifier: string]: ChartProvider },
+  z: number
+): Promise<Set<string>> =>
+  cachedTiles(provider, z, () => chartTiles(provider, charts, z))
+
+// The zoom coverage is computed at when the client doesn't choose one: the
+// deepest level from defaultCoverageZoom down that holds tiles. Chart
+// metadata sometimes claims a maxzoom the file has no tiles for.
+export const coverageZoom = async (
+  provider: ChartProvider,
+  charts: { [identifier: string]: ChartProvider }
+): Promise<number> => {
+  const minzoom = provider._nativeMinzoom ?? provider.minzoom ?? 0
+  for (let z = defaultCoverageZoom(provider); z > minzoom; z--) {
+    if ((await tilesAt(provider, charts, z)).size > 0) return z
+  }
+  return minzoom
+}
+
+// The chart's coverage at zoom z as a MultiPolygon feature, with rings in
+// RFC 7946 order (outer rings counterclockwise). Computed once per provider
+// and zoom.
+export const chartCoverage = (
+  provider: ChartProvider,
+  charts: { [identifier: string]: ChartProvider },
+  z: number
+): Promise<Feature<MultiPolygon>> =>
+  cachedCoverage(provider, z, async () => {
+    const tiles = await tilesAt(provider, charts, z)
+    return {
+      type: 'Feature',
+      properties: {
+        identifier: provider.identifier,
+        name: provider.name,
+        zoom: z,
+        tiles: tiles.size
+      },
+      geometry: {
+        type: 'MultiPolygon',
+        // Clockwise in tile space is counterclockwise on the map: tile
+        // rows grow southward. Rings close on their first corner.
+        coordinates: traceTiles(tiles).map((polygon) =>
+          polygon.map((ring) =>
+            [...ring, ring[0]!].map(([x, y]): Position => tileCorner(x, y, z))
+          )
+        )
+      }
+    }
+  })
+
+// Whether the chart holds the tile under a position, at its coverage zoom.
+export const chartHasTileAt = async (
+  provider: ChartProvider,
+  charts: { [identifier: string]: ChartProvider },
+  lon: number,
+  lat: number
+): Promise<boolean> => {
+  const z = await coverageZoom(provider, charts)
+  const [x, y] = lonLatToTile(lon, lat, z)
+  return (await tilesAt(provider, charts, z)).has(tileKey(x, y))
+}
@@ -18,6 +18,9 @@ import { ResourcesApi } from '@signalk/server-api'
 import { ChartProvider } from './types'
 import { lonLatToMercator, lonLatToTile, tileToBBox } from './projection'
 import { MIN_ZOOM } from './tileServer'
+import { parseRetryAfter, rateLimiterFor } from './rateLimiter'
+import type { CacheQuota } from './cacheQuota'
+import { tileCacheFor } from './tileCache'
 
 export interface Tile {
   x: number
@@ -27,11 +30,116 @@ export interface Tile {
 
 export enum Status {
   Stopped,
-  Running
+  Running,
+  Paused
+}
+
+// The area a job was created from. Kept on the job so it can be written to
+// the state file and re-initialised after a restart; the full tile list is
+// never persisted because it can be hundreds of thousands of entries.
+export type JobArea =
+  | { type: 'region'; regionGUID: string }
+  | { type: 'bbox'; bbox: BBox }
+  | { type: 'tile'; tile: Tile }
+
+// Per-job overrides for the provider's download settings, as submitted in
+// the POST /cache/:identifier body.
+export interface DownloadOptions {
+  concurrency?: number
+  timeoutMs?: number
+}
+
+export interface PersistedJob {
+  id: number
+  provider: string
+  area: JobArea
+  maxZoom: number
+  options?: DownloadOptions
+  status: Status
+  downloadedTiles: number
+  failedTiles: number
+  // Tiles that exhausted their retries, so "retry" still works after a
+  // restart. Optional for state files written before retries existed.
+  failedTileList?: Tile[]
+}
+
+interface SeedingState {
+  version: 1
+  jobs: PersistedJob[]
+}
+
+export const SEEDING_STATE_FILE = 'seeding-jobs.json'
+
+// Used when neither the job nor the provider config sets a value.
+export const DEFAULT_CONCURRENT_DOWNLOADS = 20
+export const DEFAULT_REQUEST_TIMEOUT_MS = 5000
+
+// Outcome of fetching a single tile. `retryable` separates transient failures
+// (timeouts, network errors, 5xx, 429) from permanent ones (404 and other
+// 4xx, or a provider with no remote URL) so the seeding loop knows whether
+// another attempt can help.
+// retryAfterMs is set when the tile wasn't fetched because the server asked
+// to slow down or the rate limit had no slot in time.
+export type TileFetchResult =
+  | { buffer: Buffer; validators?: TileValidators }
+  | { buffer: null; retryable: boolean; retryAfterMs?: number }
+
+// HTTP validators of a cached tile, kept by the cache storage so a stale tile
+// can be revalidated with a conditional request instead of being downloaded
+// again. Only stored when the server sends either header.
+export interface TileValidators {
+  etag?: string
+  lastModified?: string
+}
+
+// fetchRemoteTile's extra outcome when it was given validators and the
+// server answered 304.
+export interface TileNotModified {
+  buffer: null
+  notModified: true
+}
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000
+}
+
+// Exponential backoff with full jitter: the cap doubles per attempt up to
+// maxDelayMs and the actual delay is uniform in [0, cap). Jitter keeps the
+// 20 download slots from retrying in lockstep after a Wi-Fi drop.
+// Input  (attempt=1, base=1000): delay in [0, 1000)
+// Input  (attempt=3, base=1000): delay in [0, 4000)
+export const retryDelayMs = (
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number => {
+  const cap = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+  )
+  return Math.floor(random() * cap)
 }
 
 export class ChartSeedingManager {
   public static ActiveJobs: { [key: number]: ChartDownloader } = {}
+  // Applied by every job's download loop; set from the plugin config on start.
+  public static retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+
+  // Where the job registry is persisted. Unset until restoreJobs() has run for
+  // the current plugin start, and cleared again by cancelAll() so jobs that
+  // wind down after a stop can't overwrite the snapshot taken at stop time.
+  private static statePath: string | undefined
+  // Writes are chained so a slow write can't land after a newer one and
+  // resurrect stale job state.
+  private static writeChain: Promise<void> = Promise.resolve()
 
   public static async createJob(
     resourcesApi: ResourcesApi,
@@ -40,9 +148,16 @@ export class ChartSeedingManager {
     maxZoom: number,
     regionGUID: string | undefined = undefined,
     bbox: BBox | undefined = undefined,
-    tile: Tile | undefined = undefined
+    tile: Tile | undefined = undefined,
+    options: DownloadOptions = {}
   ): Promise<ChartDownloader> {
-    const downloader = new ChartDownloader(resourcesApi, chartsPath, provider)
+    const downloader = new ChartDownloader(
+      resourcesApi,
+      chartsPath,
+      provider,
+      undefined,
+      options
+    )
     // Init must complete before the job is usable; callers get back a job that
     // knows its tile set and totalTiles. Without awaiting, a follow-up "start"
     // action would race the init reads of this.tiles.
@@ -52,12 +167,129 @@ export class ChartSeedingManager {
     else if (tile) await downloader.initializeJobFromTile(tile, maxZoom)
     else throw new Error('createJob requires regionGUID, bbox, or tile')
     this.ActiveJobs[downloader.ID] = downloader
+    this.saveState()
     return downloader
   }
 
+  // Whether a listed job covers the tile of the named provider's cache; the
+  // cache quota never evicts these.
+  public static isSeeded(name: string, tile: Tile): boolean {
+    return Object.values(this.ActiveJobs).some((job) => job.covers(name, tile))
+  }
+
+  public static removeJob(id: number): void {
+    delete this.ActiveJobs[id]
+    this.saveState()
+  }
+
+  // Cancels and drops the jobs of a provider that was deleted, so they stop
+  // downloading and their tiles are no longer protected from eviction.
+  public static removeProviderJobs(identifier: string): void {
+    const jobs = Object.values(this.ActiveJobs).filter((job) =>
+      job.isFor(identifier)
+    )
+    if (jobs.length === 0) return
+    for (const job of jobs) {
+      job.cancelJob()
+      delete this.ActiveJobs[job.ID]
+    }
+    this.saveState()
+  }
+
+  // Reloads the jobs saved under cachePath by a previous plugin run. Jobs
+  // whose provider no longer exists, or whose area can't be re-initialised
+  // (e.g. a deleted region), are dropped with a log line. Jobs that were
+  // Running when the state was last written are restarted when `resume` is
+  // set; otherwise they come back Stopped with their counters intact.
+  public static async restoreJobs(
+    resourcesApi: ResourcesApi,
+    cachePath: string,
+    providers: { [identifier: string]: ChartProvider },
+    resume: boolean
+  ): Promise<void> {
+    const statePath = path.join(cachePath, SEEDING_STATE_FILE)
+    // A stop() immediately followed by start() must see the stop snapshot.
+    await this.writeChain
+    this.statePath = statePath
+    let state: SeedingState
+    try {
+      state = JSON.parse(await fs.promises.readFile(statePath, 'utf8'))
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error reading seeding state ${statePath}:`, err)
+      }
+      return
+    }
+    if (!Array.isArray(state?.jobs)) {
+      console.error(`Ignoring malformed seeding state ${statePath}`)
+      return
+    }
+    for (const saved of state.jobs) {
+      if (this.ActiveJobs[saved.id]) continue
+      const provider = providers[saved.provider]
+      if (!provider) {
+        console.warn(
+          `Dropping seeding job ${saved.id}: provider "${saved.provider}" not found`
+        )
+        continue
+      }
+      const downloader = new ChartDownloader(
+        resourcesApi,
+        cachePath,
+        provider,
+        saved.id,
+        saved.options
+      )
+      try {
+        await downloader.initializeJobFromArea(saved.area, saved.maxZoom)
+      } catch (err) {
+        console.error(`Dropping seeding job ${saved.id}:`, err)
+        continue
+      }
+      downloader.restoreCounters(saved)
+      this.ActiveJobs[downloader.ID] = downloader
+      if (resume && saved.status === Status.Running) {
+        downloader.seedCache()
+      }
+    }
+    this.saveState()
+  }
+
+  // Snapshot the registry to the state file. Fire-and-forget: callers are
+  // HTTP handlers and the seeding loop, neither of which should fail because
+  // the state file couldn't be written.
+  public static saveState(): void {
+    const statePath = this.statePath
+    if (!statePath) return
+    const state: SeedingState = {
+      version: 1,
+      jobs: Object.values(this.ActiveJobs).map((job) => job.toState())
+    }
+    this.writeChain = this.writeChain.then(async () => {
+      // Write-then-rename so a power cut mid-write leaves the previous state
+      // intact instead of a truncated JSON file.
+      const tmpPath = `${statePath}.tmp`
+      try {
+        await fs.promises.writeFile(tmpPath, JSON.stringify(state))
+        await fs.promises.rename(tmpPath, statePath)
+      } catch (err) {
+        console.error(`Error writing seeding state ${statePath}:`, err)
+      }
+    })
+  }
+
+  // Resolves once every state write queued so far has landed on disk.
+  public static whenSaved(): Promise<void> {
+    return this.writeChain
+  }
+
   // Cancel all running jobs and clear the registry. Used when the plugin stops
-  // so a disabled plugin doesn't keep pulling tiles in the background.
+  // so a disabled plugin doesn't keep pulling tiles in the background. The
+  // registry is saved first, so jobs that were running are still marked
+  // Running in the state file and can be resumed on the next start.
   public static cancelAll(): void {
+    if (Object.keys(this.ActiveJobs).length > 0) this.saveState()
+    this.statePath = undefined
     for (const job of Object.values(this.ActiveJobs)) {
       job.cancelJob()
     }
@@ -66,28 +298,59 @@ export class ChartSeedingManager {
 }
 
 export class ChartDownloader {
-  private static MINIMUM_FREE_DISK_SPACE = 1024 * 1024 * 1024 // 1 GB
+  // Seeding stops, and chart uploads are refused, short of this.
+  public static readonly MINIMUM_FREE_DISK_SPACE = 1024 * 1024 * 1024 // 1 GB
   private static nextJobId = 1
+  private static STATE_SAVE_INTERVAL_MS = 30_000
+  // Set by the plugin when a cache quota is configured; every tile read,
+  // write and delete in the cache is reported to it.
+  public static cacheQuota: CacheQuota | undefined
 
-  private id: number = ChartDownloader.nextJobId++
+  private id: number
   private status: Status = Status.Stopped
   private totalTiles = 0
   private downloadedTiles = 0
   private failedTiles = 0
   private cachedTiles = 0
 
-  private concurrentDownloadsLimit = 20
+  private concurrentDownloadsLimit: number
+  private requestTimeoutMs: number
   private areaDescription = ''
+  private area: JobArea | undefined
+  private maxZoom = 0
   private cancelRequested = false
+  private pauseRequested = false
 
   private tiles: Tile[] = []
+  private tileIndex: Set<number> | undefined
   private tilesToDownload: Tile[] = []
+  private failedTileList: Tile[] = []
+  // Index of the next entry in tilesToDownload to hand to a download slot.
+  // Everything before it has been attempted, so resume() can continue from
+  // here without re-scanning the cache.
+  private cursor = 0
 
   constructor(
     private resourcesApi: ResourcesApi,
     private chartsPath: string,
-    private provider: ChartProvider
-  ) {}
+    private provider: ChartProvider,
+    id?: number,
+    private options: DownloadOptions = {}
+  ) {
+    // Job options win over the provider config, which wins over the defaults.
+    this.concurrentDownloadsLimit =
+      options.concurrency ??
+      provider._concurrentDownloads ??
+      DEFAULT_CONCURRENT_DOWNLOADS
+    this.requestTimeoutMs =
+      options.timeoutMs ??
+      provider._requestTimeoutMs ??
+      DEFAULT_REQUEST_TIMEOUT_MS
+    // Restored jobs keep their persisted id; make sure new jobs created after
+    // a restore don't collide with it.
+    this.id = id ?? ChartDownloader.nextJobId
+    ChartDownloader.nextJobId = Math.max(ChartDownloader.nextJobId, this.id + 1)
+  }
 
   get ID(): number {
     return this.id
@@ -101,7 +364,8 @@ export class ChartDownloader {
       'regions',
       regionGUID
     )) as Record<string, unknown>
-    const geojson = this.convertRegionToGeoJSON(region)
+    const geojson = ChartDownloader.convertRegionToGeoJSON(region)
+    this.tileIndex = undefined
     this.tiles = this.getTilesForGeoJSON(
       geojson,
       this.provider.minzoom,
@@ -113,12 +377,15 @@ export class ChartDownloader {
     this.totalTiles = this.tiles.length
     this.cachedTiles = this.totalTiles - this.tilesToDownload.length
     this.areaDescription = `Region: ${region?.name ?? ''}`
+    this.area = { type: 'region', regionGUID }
+    this.maxZoom = maxZoom
   }
 
   public async initializeJobFromBBox(
     bbox: BBox,
     maxZoom: number
   ): Promise<void> {
+    this.tileIndex = undefined
     this.tiles = this.getTilesForBBox(bbox, maxZoom)
     this.tilesToDownload = await this.filterCachedTiles(this.tiles)
 
@@ -126,12 +393,15 @@ export class ChartDownloader {
     this.totalTiles = this.tiles.length
     this.cachedTiles = this.totalTiles - this.tilesToDownload.length
     this.areaDescription = `BBox: [${bbox.join(', ')}]`
+    this.area = { type: 'bbox', bbox }
+    this.maxZoom = maxZoom
   }
 
   public async initializeJobFromTile(
     tile: Tile,
     maxZoom: number
   ): Promise<void> {
+    this.tileIndex = undefined
     this.tiles = this.getSubTiles(tile, maxZoom)
     this.tilesToDownload = await this.filterCachedTiles(this.tiles)
 
@@ -139,6 +409,76 @@ export class ChartDownloader {
     this.totalTiles = this.tiles.length
     this.cachedTiles = this.totalTiles - this.tilesToDownload.length
     this.areaDescription = `Tile: [${tile.x}, ${tile.y}, ${tile.z}]`
+    this.area = { type: 'tile', tile }
+    this.maxZoom = maxZoom
+  }
+
+  public async initializeJobFromArea(
+    area: JobArea,
+    maxZoom: number
+  ): Promise<void> {
+    switch (area?.type) {
+      case 'region':
+        return this.initializeJobFromRegion(area.regionGUID, maxZoom)
+      case 'bbox':
+        return this.initializeJobFromBBox(area.bbox, maxZoom)
+      case 'tile':
+        return this.initializeJobFromTile(area.tile, maxZoom)
+      default:
+        throw new Error('Unknown job area')
+    }
+  }
+
+  // Re-applies counters from a persisted job after re-initialisation. The
+  // init pass counted every tile on disk as cached, including those this job
+  // downloaded before the restart, so those are moved back to downloaded.
+  // A paused job comes back paused; its failed tiles are still uncached and
+  // will be attempted again on resume, so they aren't counted twice.
+  public restoreCounters(saved: PersistedJob): void {
+    this.downloadedTiles = Math.min(saved.downloadedTiles, this.cachedTiles)
+    this.cachedTiles -= this.downloadedTiles
+    if (saved.status === Status.Paused) {
+      this.status = Status.Paused
+      this.failedTiles = 0
+    } else {
+      this.failedTiles = Math.min(
+        saved.failedTiles,
+        this.tilesToDownload.length
+      )
+      this.failedTileList = (saved.failedTileList ?? []).slice(
+        0,
+        this.failedTiles
+      )
+    }
+  }
+
+  public isFor(identifier: string): boolean {
+    return this.provider.identifier === identifier
+  }
+
+  // The index of the job's tiles is built on the first check and kept until
+  // the job's area is initialised again.
+  public covers(name: string, tile: Tile): boolean {
+    if (name !== this.provider.name) return false
+    this.tileIndex ??= new Set(this.tiles.map(tileNumber))
+    return this.tileIndex.has(tileNumber(tile))
+  }
+
+  public toState(): PersistedJob {
+    if (!this.area) {
+      throw new Error(`Job ${this.id} has not been initialised`)
+    }
+    return {
+      id: this.id,
+      provider: this.provider.identifier,
+      area: this.area,
+      maxZoom: this.maxZoom,
+      options: this.options,
+      status: this.status,
+      downloadedTiles: this.downloadedTiles,
+      failedTiles: this.failedTiles,
+      failedTileList: this.failedTileList
+    }
   }
 
   private static DISK_CHECK_INTERVAL_MS = 30_000
@@ -152,17 +492,72 @@ export class ChartDownloader {
     if (this.status === Status.Running) return
 
     this.cancelRequested = false
+    this.pauseRequested = false
     this.status = Status.Running
     this.tilesToDownload = await this.filterCachedTiles(this.tiles)
+    this.cursor = 0
     this.downloadedTiles = 0
     this.failedTiles = 0
+    this.failedTileList = []
     this.cachedTiles = this.totalTiles - this.tilesToDownload.length
+    await this.downloadRemaining()
+  }
+
+  /**
+   * Re-queue only the tiles that failed in the last run of a stopped job.
+   * Downloaded and cached counters carry over; the failed counter restarts.
+   */
+  public retryFailedTiles(): boolean {
+    if (this.status !== Status.Stopped || this.failedTileList.length === 0) {
+      return false
+    }
+    this.cancelRequested = false
+    this.pauseRequested = false
+    this.status = Status.Running
+    this.tilesToDownload = this.failedTileList
+    this.failedTileList = []
+    this.failedTiles = 0
+    this.cursor = 0
+    // Not awaited: the caller only needs to know the job was accepted.
+    this.downloadRemaining()
+    return true
+  }
+
+  // Stops handing out new tiles; downloads already in flight finish and are
+  // counted. The job then sits in Paused until resume() or a stop.
+  public pauseJob(): boolean {
+    if (this.status !== Status.Running) return false
+    this.pauseRequested = true
+    return true
+  }
+
+  /**
+   * Continue a paused job from its cursor. Counters carry over and the cache
+   * is not re-scanned.
+   */
+  public resumeJob(): boolean {
+    if (this.status !== Status.Paused) return false
+    this.cancelRequested = false
+    this.pauseRequested = false
+    this.status = Status.Running
+    // Not awaited: the caller only needs to know the job was accepted.
+    this.downloadRemaining()
+    return true
+  }
+
+  private async downloadRemaining(): Promise<void> {
     const limit = pLimit(this.concurrentDownloadsLimit) // concurrent download limit
     let lastDiskCheck = 0
+    let lastStateSave = Date.now()
+    ChartSeedingManager.saveState()
 
-    const tasks = this.tilesToDownload.map((tile) =>
+    // Each queued task claims the tile at the cursor when it gets a slot,
+    // rather than being bound to a tile up front. That keeps the cursor equal
+    // to the number of tiles actually attempted when a pause drains the queue.
+    const remaining = this.tilesToDownload.length - this.cursor
+    const tasks = Array.from({ length: remaining }, () =>
       limit(async () => {
-        if (this.cancelRequested) return
+        if (this.cancelRequested || this.pauseRequested) return
         // Time-based (rather than tile-count-based) disk-space probing: a
         // tight per-1000-tile cadence fired hundreds of times on a large
         // bbox, whereas real disk consumption grows with wall-clock time.
@@ -181,21 +576,31 @@ export class ChartDownloader {
             this.cancelRequested = true
             return
           }
+          if (this.cancelRequested || this.pauseRequested) return
         }
-        const buffer = await ChartDownloader.getTileFromCacheOrRemote(
-          this.chartsPath,
-          this.provider,
-          tile
-        )
+        const tile = this.tilesToDownload[this.cursor++]
+        if (!tile) return
+        const buffer = await this.downloadTile(tile)
         // Re-check after the await: the job may have been cancelled while the
         // fetch was in flight. Still-running fetches would otherwise keep
-        // mutating counters after status flips to Stopped.
+        // mutating counters after status flips to Stopped. A pause lets the
+        // in-flight tile count, since the cursor has already moved past it.
         if (this.cancelRequested) return
         if (buffer === null) {
           this.failedTiles++
+          this.failedTileList.push(tile)
         } else {
           this.downloadedTiles++
         }
+        // Periodic snapshot so a power loss mid-job keeps most of the
+        // progress counters, not just those from the last start/stop.
+        if (
+          Date.now() - lastStateSave >=
+          ChartDownloader.STATE_SAVE_INTERVAL_MS
+        ) {
+          lastStateSave = Date.now()
+          ChartSeedingManager.saveState()
+        }
       })
     )
 
@@ -208,28 +613,66 @@ export class ChartDownloader {
         console.error('Error downloading tile:', r.reason)
       }
     }
-    this.status = Status.Stopped
+    this.status =
+      this.pauseRequested &&
+      !this.cancelRequested &&
+      this.cursor < this.tilesToDownload.length
+        ? Status.Paused
+        : Status.Stopped
+    this.pauseRequested = false
+    ChartSeedingManager.saveState()
+  }
+
+  // One tile with retries. Retryable failures back off and try again until
+  // the policy's attempt budget is spent; permanent failures give up at once.
+  // The backoff sleep holds the download slot, which is what throttles the
+  // job while a remote is struggling.
+  private async downloadTile(tile: Tile): Promise<Buffer | null> {
+    const policy = ChartSeedingManager.retryPolicy
+    const limiter = rateLimiterFor(this.provider)
+    for (let attempt = 1; ; attempt++) {
+      // Sit out a 429/503 throttle window before each attempt here, where a
+      // cancel is noticed every second, rather than in a rate-limit
+      // reservation that sleeps through the whole window.
+      while (!this.cancelRequested && limiter.blockedForMs() > 0) {
+        await new Promise((r) =>
+          setTimeout(r, Math.min(limiter.blockedForMs(), 1000))
+        )
+      }
+      if (this.cancelRequested) return null
+      // Waits for its rate-limit slot however far out it is: with many
+      // downloads in flight and a low requests-per-second ceiling, slots are
+      // queued past the request timeout, and a tile that never got sent
+      // isn't a failure.
+      const result = await ChartDownloader.loadTile(
+        this.chartsPath,
+        this.provider,
+        tile,
+        this.requestTimeoutMs,
+        Infinity
+      )
+      if (result.buffer) return result.buffer
+      if (!result.retryable || attempt >= policy.maxAttempts) return null
+      await new Promise((r) => setTimeout(r, retryDelayMs(policy, attempt)))
+      if (this.cancelRequested) return null
+    }
   }
 
   async deleteCache(): Promise<void> {
     this.status = Status.Running
+    const storage = tileCacheFor(this.chartsPath, this.provider)
     for (const tile of this.tiles) {
       if (this.cancelRequested) break
-      const tilePath = path.join(
-        this.chartsPath,
-        `${this.provider.name}`,
-        `${tile.z}`,
-        `${tile.x}`,
-        `${tile.y}.${this.provider.format}`
-      )
-
       try {
-        await fs.promises.unlink(tilePath)
-        this.cachedTiles = Math.max(this.cachedTiles - 1, 0)
-      } catch (err: unknown) {
-        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
-          console.error(`Error deleting cached tile ${tilePath}:`, err)
+        if (await storage.delete(tile)) {
+          ChartDownloader.cacheQuota?.recordRemoval(this.provider.name, tile)
+          this.cachedTiles = Math.max(this.cachedTiles - 1, 0)
         }
+      } catch (err: unknown) {
+        console.error(
+          `Error deleting cached tile ${describeTile(this.provider, tile)}:`,
+          err
+        )
       }
     }
     this.status = Status.Stopped
@@ -237,33 +680,27 @@ export class ChartDownloader {
 
   public cancelJob() {
     this.cancelRequested = true
+    // A paused job has no download loop left to observe the flag.
+    if (this.status === Status.Paused) {
+      this.status = Status.Stopped
+      ChartSeedingManager.saveState()
+    }
   }
 
   private async filterCachedTiles(allTiles: Tile[]): Promise<Tile[]> {
-    // Bound the concurrent fs.access calls. 100k+ tiles in a large bbox would
-    // otherwise fire all accesses at once, risking EMFILE on default rlimit
+    // Bound the concurrent lookups. 100k+ tiles in a large bbox would
+    // otherwise fire all stats at once, risking EMFILE on default rlimit
     // and spiking the event loop.
+    const storage = tileCacheFor(this.chartsPath, this.provider)
     const limit = pLimit(64)
     const checks = allTiles.map((tile) =>
       limit(async () => {
-        const tilePath = path.join(
-          this.chartsPath,
-          this.provider.name,
-          `${tile.z}`,
-          `${tile.x}`,
-          `${tile.y}.${this.provider.format}`
-        )
-
-        try {
-          await fs.promises.access(tilePath) // file exists
-          return null // filter out cached tile
-        } catch (err: unknown) {
-          if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-            return tile // file does not exist → uncached
-          }
-          console.error('Unexpected fs error:', err)
-          return tile // treat unknown errors as uncached
-        }
+        const cached = await storage.stat(tile)
+        // Stale tiles are queued again so re-running a job picks up
+        // chart corrections.
+        return !cached || isTileStale(this.provider, cached.fetchedAt)
+          ? tile
+          : null
       })
     )
 
@@ -294,42 +731,98 @@ export class ChartDownloader {
     provider: ChartProvider,
     tile: Tile
   ): Promise<Buffer | null> {
-    const tilePath = path.join(
-      chartsPath,
-      `${provider.name}`,
-      `${tile.z}`,
-      `${tile.x}`,
-      `${tile.y}.${provider.format}`
-    )
+    return (await this.loadTile(chartsPath, provider, tile)).buffer
+  }
 
+  static async loadTile(
+    chartsPath: string,
+    provider: ChartProvider,
+    tile: Tile,
+    timeoutMs = provider._requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    maxRateWaitMs = timeoutMs
+  ): Promise<TileFetchResult> {
+    const storage = tileCacheFor(chartsPath, provider)
+    let cached: Buffer | undefined
+    let validators: TileValidators | undefined
     try {
-      const data = await fs.promises.readFile(tilePath)
-      return data
+      const hit = await storage.get(tile)
+      if (hit && !isTileStale(provider, hit.fetchedAt)) {
+        this.cacheQuota?.recordRead(provider, tile, hit.fetchedAt)
+        return { buffer: hit.data }
+      }
+      if (hit) {
+        // Stale: revalidate below, keeping the old tile as the fallback.
+        cached = hit.data
+        validators = await storage.validators(tile)
+      }
     } catch (err) {
-      //Cache miss, proceed to fetch from remote
+      console.error(
+        `Error reading cached tile ${describeTile(provider, tile)}:`,
+        err
+      )
     }
-    const buffer = await this.fetchTileFromRemote(provider, tile)
-    if (buffer) {
+    const result = await this.fetchRemoteTile(
+      provider,
+      tile,
+      timeoutMs,
+      validators,
+      maxRateWaitMs
+    )
+    if ('notModified' in result) {
+      // The cached copy is still current; restart its max-age window.
+      const now = Date.now()
       try {
-        await fs.promises.mkdir(path.dirname(tilePath), { recursive: true })
-        await fs.promises.writeFile(tilePath, buffer)
+        await storage.touch(tile, now)
       } catch (err) {
-        console.error(`Error writing tile ${tilePath}:`, err)
+        console.error(
+          `Error touching tile ${describeTile(provider, tile)}:`,
+          err
+        )
       }
+      this.cacheQuota?.recordRead(provider, tile, now)
+      return { buffer: cached! }
     }
-    return buffer
+    if (result.buffer) {
+      try {
+        await storage.put(tile, result.buffer, result.validators)
+        this.cacheQuota?.recordWrite(provider, tile, result.buffer.length)
+      } catch (err) {
+        console.error(
+          `Error writing tile ${describeTile(provider, tile)}:`,
+          err
+        )
+      }
+      return result
+    }
+    // Offline or the server is failing: a stale chart beats no chart.
+    if (cached) {
+      return { buffer: cached }
+    }
+    return result
   }
 
   static async fetchTileFromRemote(
     provider: ChartProvider,
     tile: Tile,
-    timeoutMs = 5000
+    timeoutMs = provider._requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
   ): Promise<Buffer | null> {
+    return (await this.fetchRemoteTile(provider, tile, timeoutMs)).buffer
+  }
+
+  // With validators the request is conditional and a 304 resolves to
+  // TileNotModified; without them that outcome can't occur.
+  static async fetchRemoteTile(
+    provider: ChartProvider,
+    tile: Tile,
+    timeoutMs = provider._requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    validators?: TileValidators,
+    maxRateWaitMs = timeoutMs
+  ): Promise<TileFetchResult | TileNotModified> {
     // Local (non-proxy) providers have no remoteUrl; the POST /cache endpoint
     // is open to any provider, so callers can still land here and should get
     // a well-defined null rather than a crash.
     if (!provider.remoteUrl) {
-      return null
+      return { buffer: null, retryable: false }
     }
     let url = provider.remoteUrl
       .replace('{z}', tile.z.toString())
@@ -359,25 +852,60 @@ export class ChartDownloader {
         url = url.replace('{bbox_3857}', `${mx1},${my1},${mx2},${my2}`)
       }
     }
+    // By default waiting for a rate-limit slot counts against the request
+    // timeout: if the server has told us to back off for longer than that,
+    // fail now (retryable) instead of holding the proxy caller. Seeding
+    // passes its own, unlimited, wait.
+    const limiter = rateLimiterFor(provider)
+    if (!(await limiter.acquire(maxRateWaitMs))) {
+      return { buffer: null, retryable: true, retryAfterMs: limiter.waitMs() }
+    }
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
     try {
+      const headers: { [key: string]: string } = { ...provider.headers }
+      if (validators?.etag) headers['If-None-Match'] = validators.etag
+      if (validators?.lastModified) {
+        headers['If-Modified-Since'] = validators.lastModified
+      }
       const response = await fetch(url, {
-        headers: provider.headers,
+        headers,
         signal: controller.signal
       })
       // Clear the abort timer as soon as the response head is in. A long body
       // read was otherwise racing the timeout and could be aborted mid-stream
       // while the caller waited on arrayBuffer().
       clearTimeout(timeoutId)
+      if (response.status === 429 || response.status === 503) {
+        limiter.throttled(parseRetryAfter(response.headers.get('retry-after')))
+      } else if (response.ok || response.status === 304) {
+        limiter.succeeded()
+      }
+      if (response.status === 304 && validators) {
+        return { buffer: null, notModified: true }
+      }
+      if (response.status === 429 || response.status === 503) {
+        return {
+          buffer: null,
+          retryable: true,
+          retryAfterMs: limiter.blockedForMs()
+        }
+      }
       if (!response.ok) {
-        return null
+        return { buffer: null, retryable: isRetryableStatus(response.status) }
       }
       const arrayBuffer = await response.arrayBuffer()
-      return Buffer.from(arrayBuffer)
+      return {
+        buffer: Buffer.from(arrayBuffer),
+        validators: {
+          etag: response.headers.get('etag') ?? undefined,
+          lastModified: response.headers.get('last-modified') ?? undefined
+        }
+      }
     } catch (_err) {
+      // Timeouts (AbortError) and network failures are worth another try.
       clearTimeout(timeoutId)
-      return null
+      return { buffer: null, retryable: true }
     }
   }
 
@@ -501,7 +1029,8 @@ export class ChartDownloader {
     return tiles
   }
 
-  private convertRegionToGeoJSON(
+  // Also used by the cache export to clip to a region.
+  static convertRegionToGeoJSON(
     region: Record<string, unknown>
   ): FeatureCollection {
     const feature = region.feature as
@@ -575,3 +1104,26 @@ export class ChartDownloader {
     ])
   }
 }
+
+// A cached tile is stale once it is older than the provider's max-age.
+// Without a max-age, cached tiles never expire.
+export const isTileStale = (
+  provider: ChartProvider,
+  fetchedAt: number,
+  now: number = Date.now()
+): boolean =>
+  !!provider._cacheMaxAgeMs && now - fetchedAt >= provider._cacheMaxAgeMs
+
+const describeTile = (provider: ChartProvider, tile: Tile): string =>
+  `${provider.name}/${tile.z}/${tile.x}/${tile.y}`
+
+// A tile as one number, for indexes that would otherwise hold a string per
+// tile. x and y are below 2^24 up to MAX_ZOOM, so it stays an exact integer.
+// Input  { z: 1, x: 0, y: 1 } -> 281474976710657
+const tileNumber = ({ z, x, y }: Tile): number =>
+  (z * 2 ** 24 + x) * 2 ** 24 + y
+
+// 408 / 429 and any 5xx mean "not now"; other 4xx (404 for tiles outside the
+// provider's coverage, 403 for a bad API key) won't change on a retry.
+export const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500
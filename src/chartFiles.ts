@@ -0,0 +1,103 @@
+// Deleting and moving local charts through the API. A chart is its MBTiles
+// file or tile directory, plus the `<identifier>.style.json` an MBTiles
+// chart may have next to it; a shared `style.json` is left alone.
+//
+// Chart paths listed as read-only in the config (protected mounts, charts
+// shipped with the system image) are never changed.
+
+import fs from 'fs'
+import path from 'path'
+import { ChartProvider } from './types'
+
+// Whether `file` is `dir` or somewhere below it.
+// Input  ("/charts", "/charts/noaa/harbour.mbtiles") -> true
+// Input  ("/charts", "/charts-2/harbour.mbtiles")    -> false
+export const isInsidePath = (dir: string, file: string): boolean => {
+  const relative = path.relative(dir, file)
+  return (
+    relative === '' ||
+    (!relative.startsWith('..') && !path.isAbsolute(relative))
+  )
+}
+
+export const isReadOnlyPath = (
+  readOnlyPaths: string[],
+  file: string
+): boolean => readOnlyPaths.some((dir) => isInsidePath(dir, file))
+
+// New identifiers become file or directory names inside a chart path, so
+// they follow the rules of upload and export file names.
+export const validateChartIdentifier = (
+  identifier: unknown
+): string | undefined => {
+  if (
+    typeof identifier !== 'string' ||
+    !/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(identifier) ||
+    /\.(part|mbtiles)$/i.test(identifier)
+  ) {
+    return `Invalid identifier ${identifier} (use letters, digits, '.', '_' and '-')`
+  }
+  return undefined
+}
+
+// The files and directories a local chart is made of.
+export const chartFiles = (provider: ChartProvider): string[] => {
+  const files = [provider._filePath]
+  const style = provider._stylePath
+  if (
+    provider._fileFormat === 'mbtiles' &&
+    style &&
+    path.dirname(style) === path.dirname(provider._filePath) &&
+    path.basename(style) === `${provider.identifier}.style.json`
+  ) {
+    files.push(style)
+  }
+  return files
+}
+
+// Where each of the chart's files goes when it moves to `dir` as
+// `identifier`.
+// Input  (harbour.mbtiles with harbour.style.json, "/charts-2", "bay")
+//        -> [{ from: ".../harbour.mbtiles", to: "/charts-2/bay.mbtiles" },
+//            { from: ".../harbour.style.json", to: "/charts-2/bay.style.json" }]
+export const chartFileMoves = (
+  provider: ChartProvider,
+  dir: string,
+  identifier: string
+): { from: string; to: string }[] =>
+  chartFiles(provider).map((from) => ({
+    from,
+    to:
+      from === provider._filePath
+        ? path.join(
+            dir,
+            provider._fileFormat === 'mbtiles'
+              ? `${identifier}.mbtiles`
+              : identifier
+          )
+        : path.join(dir, `${identifier}.style.json`)
+  }))
+
+export const removeChartFiles = async (
+  provider: ChartProvider
+): Promise<void> => {
+  for (const file of chartFiles(provider)) {
+    await fs.promises.rm(file, { recursive: true, force: true })
+  }
+}
+
+// Renames each file, or copies and deletes it when the target is on another
+// filesystem (chart paths on different mounts).
+export const moveChartFiles = async (
+  moves: { from: string; to: string }[]
+): Promise<void> => {
+  for (const { from, to } of moves) {
+    try {
+      await fs.promises.rename(from, to)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err
+      await fs.promises.cp(from, to, { recursive: true, errorOnExist: true })
+      await fs.promises.rm(from, { recursive: true, force: true })
+    }
+  }
+}
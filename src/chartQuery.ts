@@ -0,0 +1,269 @@
+// Which charts cover a position or area, so clients don't each fetch every
+// chart and redo the bounds math to pick one for the vessel's position.
+// Backs GET /signalk/chart-tiles/query and the `position`, `distance`,
+// `bbox` and `limit` filters of the v2 resources API.
+
+import { chartHasTileAt } from './chartCoverage'
+import { MAX_ZOOM } from './tileServer'
+import { ChartProvider } from './types'
+
+export interface ChartMatch {
+  provider: ChartProvider
+  // Whether the requested zoom is one the chart is served at; true when no
+  // zoom was asked for.
+  zoomFits: boolean
+  // "tiles" when the chart was found to hold a tile at the position,
+  // "bounds" when only its bounds could be checked.
+  coverage: 'tiles' | 'bounds'
+}
+
+export const validatePosition = (
+  lon: number,
+  lat: number
+): string | undefined => {
+  if (!Number.isFinite(lon) || lon < -180 || lon > 180) {
+    return `Invalid longitude ${lon} (must be in [-180, 180])`
+  }
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90) {
+    return `Invalid latitude ${lat} (must be in [-90, 90])`
+  }
+  return undefined
+}
+
+// Positions come as "[lon,lat]" or "lon,lat" in resource API queries.
+// Input  "[24.9,60.1]" -> [24.9, 60.1]
+// Input  "north"       -> undefined
+export const parsePosition = (value: unknown): [number, number] | undefined => {
+  const parts = Array.isArray(value)
+    ? value.map(Number)
+    : String(value ?? '')
+        .replace(/^\[|\]$/g, '')
+        .split(',')
+        .map((p) => (p.trim() === '' ? NaN : Number(p)))
+  if (parts.length !== 2) return undefined
+  const [lon, lat] = parts as [number, number]
+  return validatePosition(lon, lat) ? undefined : [lon, lat]
+}
+
+// Whether bounds [west, south, east, north] hold a position. Charts without
+// bounds are taken to cover the world; west > east crosses the
+// antimeridian, and latitudes are accepted in either order, as some MBTiles
+// writers swap them.
+export const boundsContain = (
+  bounds: number[] | undefined,
+  lon: number,
+  lat: number
+): boolean => {
+  if (!bounds) return true
+  const [west, lat1, east, lat2] = bounds as [number, number, number, number]
+  if (lat < Math.min(lat1, lat2) || lat > Math.max(lat1, lat2)) return false
+  return west <= east ? lon >= west && lon <= east : lon >= west || lon <= east
+}
+
+// The zoom range a chart is served at, overzoom included.
+const servedZooms = (provider: ChartProvider): [number, number] => [
+  provider.minzoom ?? 0,
+  (provider.maxzoom ?? MAX_ZOOM) + (provider._overzoomLevels ?? 0)
+]
+
+// Charts covering a position, best first: those served at the requested
+// zoom, then the most detailed (smallest scale number). Local and composite
+// charts must also hold a tile at the position, which drops the empty
+// corners of irregular charts that bounds alone would match.
+export const chartsAtPosition = async (
+  charts: { [identifier: string]: ChartProvider },
+  lon: number,
+  lat: number,
+  zoom?: number
+): Promise<ChartMatch[]> => {
+  const matches: ChartMatch[] = []
+  for (const provider of Object.values(charts)) {
+    if (!boundsContain(provider.bounds, lon, lat)) continue
+    // undefined when the tiles can't be listed: online charts, or a chart
+    // file that fails to open, which falls back to its bounds.
+    const hasTile =
+      provider._fileFormat || provider._compositeOf
+        ? await chartHasTileAt(provider, charts, lon, lat).catch(
+            () => undefined
+          )
+        : undefined
+    if (hasTile === false) continue
+    const [minzoom, maxzoom] = servedZooms(provider)
+    matches.push({
+      provider,
+      zoomFits: zoom === undefined || (zoom >= minzoom && zoom <= maxzoom),
+      coverage: hasTile ? 'tiles' : 'bounds'
+    })
+  }
+  return matches.sort(
+    (a, b) =>
+      Number(b.zoomFits) - Number(a.zoomFits) ||
+      a.provider.scale - b.provider.scale ||
+      a.provider.identifier.localeCompare(b.provider.identifier)
+  )
+}
+
+// Bounding boxes come as "[west,south,east,north]" or without brackets;
+// west > east crosses the antimeridian.
+// Input  "[170,-20,-170,0]" -> [170, -20, -170, 0]
+export const parseBBox = (
+  value: unknown
+): [number, number, number, number] | undefined => {
+  const parts = Array.isArray(value)
+    ? value.map(Number)
+    : String(value ?? '')
+        .replace(/^\[|\]$/g, '')
+        .split(',')
+        .map((p) => (p.trim() === '' ? NaN : Number(p)))
+  if (parts.length !== 4) return undefined
+  const [west, south, east, north] = parts as [number, number, number, number]
+  if (validatePosition(west, south) || validatePosition(east, north)) {
+    return undefined
+  }
+  return south < north ? [west, south, east, north] : undefined
+}
+
+// Longitude ranges of a west-east span, split at the antimeridian.
+const lonRanges = (west: number, east: number): [number, number][] =>
+  west <= east
+    ? [[west, east]]
+    : [
+        [west, 180],
+        [-180, east]
+      ]
+
+// Whether chart bounds overlap a bounding box; either may cross the
+// antimeridian. Charts without bounds cover the world.
+export const boundsIntersect = (
+  bounds: number[] | undefined,
+  [west, south, east, north]: number[]
+): boolean => {
+  if (!bounds) return true
+  const [bWest, lat1, bEast, lat2] = bounds as [number, number, number, number]
+  if (south! > Math.max(lat1, lat2) || north! < Math.min(lat1, lat2)) {
+    return false
+  }
+  return lonRanges(bWest, bEast).some(([w1, e1]) =>
+    lonRanges(west!, east!).some(([w2, e2]) => w1 <= e2 && w2 <= e1)
+  )
+}
+
+const EARTH_RADIUS_M = 6371000
+
+const haversineM = (lon1: number, lat1: number, lon2: number, lat2: number) => {
+  const rad = Math.PI / 180
+  const a =
+    Math.sin(((lat2 - lat1) * rad) / 2) ** 2 +
+    Math.cos(lat1 * rad) *
+      Math.cos(lat2 * rad) *
+      Math.sin(((lon2 - lon1) * rad) / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a))
+}
+
+// Distance in meters from a position to the nearest point of chart bounds,
+// 0 inside them. The nearest point is taken on the latitude/longitude
+// rectangle, close enough at chart scales.
+export const distanceToBounds = (
+  bounds: number[] | undefined,
+  lon: number,
+  lat: number
+): number => {
+  if (!bounds || boundsContain(bounds, lon, lat)) return 0
+  const [west, lat1, east, lat2] = bounds as [number, number, number, number]
+  const nearestLat = Math.min(
+    Math.max(lat, Math.min(lat1, lat2)),
+    Math.max(lat1, lat2)
+  )
+  // Degrees east from a to b, in [0, 360).
+  const eastward = (a: number, b: number) => (((b - a) % 360) + 360) % 360
+  const inside = lonRanges(west, east).some(([w, e]) => lon >= w && lon <= e)
+  const nearestLon = inside
+    ? lon
+    : eastward(lon, west) <= eastward(east, lon)
+      ? west
+      : east
+  return haversineM(lon, lat, nearestLon, nearestLat)
+}
+
+export interface ChartQuery {
+  position?: [number, number]
+  // Meters from position; without it, position selects the charts covering
+  // it.
+  distance?: number
+  bbox?: [number, number, number, number]
+  limit?: number
+  zoom?: number
+}
+
+// Reads the v2 resources API query parameters. `box` is accepted as another
+// name for `bbox`.
+// Input  ({ position: "[24.9,60.1]", distance: "5000", limit: "3" })
+//        -> { query: { position: [24.9, 60.1], distance: 5000, limit: 3 } }
+export const parseChartQuery = (params: {
+  [key: string]: unknown
+}): { query: ChartQuery } | { error: string } => {
+  const query: ChartQuery = {}
+  if (params.position !== undefined) {
+    query.position = parsePosition(params.position)
+    if (!query.position) return { error: `Invalid position ${params.position}` }
+  }
+  const box = params.bbox ?? params.box
+  if (box !== undefined) {
+    query.bbox = parseBBox(box)
+    if (!query.bbox) return { error: `Invalid bbox ${box}` }
+  }
+  if (params.distance !== undefined) {
+    query.distance = Number(params.distance)
+    if (!Number.isFinite(query.distance) || query.distance < 0) {
+      return { error: `Invalid distance ${params.distance}` }
+    }
+  }
+  if (params.limit !== undefined) {
+    query.limit = Number(params.limit)
+    if (!Number.isInteger(query.limit) || query.limit < 1) {
+      return { error: `Invalid limit ${params.limit}` }
+    }
+  }
+  if (params.zoom !== undefined) {
+    query.zoom = Number(params.zoom)
+    if (
+      !Number.isInteger(query.zoom) ||
+      query.zoom < 0 ||
+      query.zoom > MAX_ZOOM
+    ) {
+      return { error: `Invalid zoom ${params.zoom}` }
+    }
+  }
+  return { query }
+}
+
+// The charts matching a query, in order. A position alone selects the
+// charts covering it, ranked as by chartsAtPosition; with a distance, the
+// charts within it, nearest first. A bbox keeps the charts overlapping it,
+// and the limit cuts the list.
+export const queryCharts = async (
+  charts: { [identifier: string]: ChartProvider },
+  query: ChartQuery
+): Promise<ChartProvider[]> => {
+  const { position, distance, bbox, limit, zoom } = query
+  let found: ChartProvider[]
+  if (position && distance === undefined) {
+    const matches = await chartsAtPosition(charts, ...position, zoom)
+    found = matches.map((m) => m.provider)
+  } else if (position) {
+    found = Object.values(charts)
+      .map((provider) => ({
+        provider,
+        meters: distanceToBounds(provider.bounds, ...position)
+      }))
+      .filter(({ meters }) => meters <= distance!)
+      .sort(
+        (a, b) => a.meters - b.meters || a.provider.scale - b.provider.scale
+      )
+      .map(({ provider }) => provider)
+  } else {
+    found = Object.values(charts)
+  }
+  if (bbox) found = found.filter((p) => boundsIntersect(p.bounds, bbox))
+  return limit === undefined ? found : found.slice(0, limit)
+}
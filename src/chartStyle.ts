@@ -0,0 +1,177 @@
+// MapLibre styles for local vector charts. A style.json placed next to a
+// vector chart (with its sprites/ and fonts/ folders) is served from
+// GET /signalk/chart-tiles/:identifier/style.json with the source, sprite and
+// glyph URLs pointed back at this server, so offline charts render without
+// reaching the internet.
+//
+// Layout, for an MBTiles chart charts/harbour.mbtiles:
+//   charts/harbour.style.json   style for this chart only, or
+//   charts/style.json           style for every vector chart in the folder
+//   charts/sprites/sprite.json, sprite.png, sprite@2x.json, ...
+//   charts/fonts/<fontstack>/<start>-<end>.pbf
+// A directory chart keeps the same files inside its own directory.
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { ChartProvider } from './types'
+import { VECTOR_FORMATS } from './tileServer'
+
+export interface ChartStyleFiles {
+  // The style.json to serve.
+  stylePath: string
+  // Folder holding sprites/ and fonts/.
+  assetsDir: string
+}
+
+const isFile = async (p: string): Promise<boolean> => {
+  try {
+    return (await fs.stat(p)).isFile()
+  } catch (_err) {
+    return false
+  }
+}
+
+// Finds the style of a local vector chart, or undefined when there is none
+// (raster charts never get one).
+// Input  ("/charts/harbour.mbtiles", 'mbtiles', "harbour", "pbf")
+//        -> { stylePath: "/charts/harbour.style.json", assetsDir: "/charts" }
+export const findChartStyle = async (
+  filePath: string,
+  fileFormat: 'mbtiles' | 'directory',
+  identifier: string,
+  format: string | undefined
+): Promise<ChartStyleFiles | undefined> => {
+  if (!format || !VECTOR_FORMATS.has(format.toLowerCase())) return undefined
+  const assetsDir = fileFormat === 'mbtiles' ? path.dirname(filePath) : filePath
+  const candidates =
+    fileFormat === 'mbtiles'
+      ? [`${identifier}.style.json`, 'style.json']
+      : ['style.json']
+  for (const name of candidates) {
+    const stylePath = path.join(assetsDir, name)
+    if (await isFile(stylePath)) return { stylePath, assetsDir }
+  }
+  return undefined
+}
+
+// A style.json as far as the rewrite needs to know it; everything else is
+// passed through untouched.
+interface StyleDocument {
+  sources?: {
+    [id: string]: { type?: string; url?: string; tiles?: string[] }
+  }
+  sprite?: string | Array<{ id: string; url: string }>
+  glyphs?: string
+  [key: string]: unknown
+}
+
+const isRemote = (url: unknown) =>
+  typeof url === 'string' && /^https?:\/\//i.test(url)
+
+// Sprite URLs name a file set without extension ("./sprites/sprite" means
+// sprite.json, sprite.png, sprite@2x.json, ...). Only the set name is kept.
+const localSprite = (url: string, chartUrl: string) =>
+  isRemote(url)
+    ? url
+    : `${chartUrl}/sprites/${path.posix.basename(url.replace(/\/+$/, ''))}`
+
+// Points the style at this server. Vector sources that aren't already on
+// another http(s) server (mbtiles://, relative paths, or none at all) become
+// this chart's TileJSON; local sprite and glyph URLs move under the chart's
+// sprites/ and fonts/ routes. Remote URLs are left alone so a style can mix in
+// online sources.
+// Input  sources.chart.url "mbtiles://harbour", glyphs "fonts/{fontstack}/{range}.pbf"
+//        (chartUrl "http://boat:3000/signalk/chart-tiles/harbour")
+// Output sources.chart.url "http://boat:3000/signalk/chart-tiles/harbour/tilejson.json",
+//        glyphs "http://boat:3000/signalk/chart-tiles/harbour/fonts/{fontstack}/{range}.pbf"
+export const rewriteChartStyle = (
+  style: StyleDocument,
+  chartUrl: string
+): StyleDocument => {
+  const out: StyleDocument = { ...style }
+  if (style.sources && typeof style.sources === 'object') {
+    out.sources = {}
+    for (const [id, source] of Object.entries(style.sources)) {
+      const urls = [source?.url, ...(source?.tiles ?? [])]
+      if (source?.type !== 'vector' || urls.some(isRemote)) {
+        out.sources[id] = source
+        continue
+      }
+      const { tiles: _tiles, ...rest } = source
+      out.sources[id] = { ...rest, url: `${chartUrl}/tilejson.json` }
+    }
+  }
+  if (typeof style.sprite === 'string') {
+    out.sprite = localSprite(style.sprite, chartUrl)
+  } else if (Array.isArray(style.sprite)) {
+    out.sprite = style.sprite.map((s) => ({
+      ...s,
+      url: localSprite(s.url, chartUrl)
+    }))
+  }
+  if (typeof style.glyphs === 'string' && !isRemote(style.glyphs)) {
+    out.glyphs = `${chartUrl}/fonts/{fontstack}/{range}.pbf`
+  }
+  return out
+}
+
+export const readChartStyle = async (
+  provider: ChartProvider,
+  chartUrl: string
+): Promise<StyleDocument | undefined> => {
+  if (!provider._stylePath) return undefined
+  const style = JSON.parse(await fs.readFile(provider._stylePath, 'utf8'))
+  if (!style || typeof style !== 'object' || Array.isArray(style)) {
+    throw new Error(`${provider._stylePath} is not a style document`)
+  }
+  return rewriteChartStyle(style, chartUrl)
+}
+
+// Sprite sheets and their index: sprite.png, sprite@2x.json, ...
+const SPRITE_FILE = /^[\w-]+(@\dx)?\.(json|png)$/
+// Glyph ranges are 256 code points: 0-255.pbf, 256-511.pbf, ...
+const GLYPH_RANGE = /^\d+-\d+\.pbf$/
+
+// The sprite file to serve, or undefined for a name that isn't one (which
+// also keeps requests inside the sprites folder).
+export const spriteFilePath = (
+  provider: ChartProvider,
+  file: string
+): string | undefined => {
+  if (!provider._styleAssetsDir || !SPRITE_FILE.test(file)) return undefined
+  return path.join(provider._styleAssetsDir, 'sprites', file)
+}
+
+// MapLibre asks for a comma-separated font stack ("Noto Sans Regular,Arial
+// Unicode MS Regular") and takes the first font we have, like other glyph
+// servers. Returns the candidate files in that order.
+export const glyphFilePaths = (
+  provider: ChartProvider,
+  fontstack: string,
+  range: string
+): string[] => {
+  if (!provider._styleAssetsDir || !GLYPH_RANGE.test(range)) return []
+  return fontstack
+    .split(',')
+    .map((font) => font.trim())
+    .filter((font) => font && !/[/\\]/.test(font) && !font.startsWith('.'))
+    .map((font) => path.join(provider._styleAssetsDir!, 'fonts', font, range))
+}
+
+// The first of `paths` that exists, for the sprite and glyph routes. Missing
+// files are expected; other read errors are not.
+export const readFirstFile = async (
+  paths: string[]
+): Promise<Buffer | undefined> => {
+  for (const p of paths) {
+    try {
+      return await fs.readFile(p)
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code
+      if (code !== 'ENOENT' && code !== 'ENOTDIR' && code !== 'EISDIR') {
+        throw err
+      }
+    }
+  }
+  return undefined
+}
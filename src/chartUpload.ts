@@ -0,0 +1,421 @@
+// Chart uploads: POST /signalk/chart-tiles/upload streams an MBTiles file, or
+// a zipped TMS/XYZ tile directory, into a configured chart path, where the
+// folder watcher and findCharts pick it up like a copied file.
+//
+// The upload is written to a staging directory, checked, and renamed into
+// place, so a chart reload never sees a partial or invalid chart. Staging is
+// a hidden directory next to the chart path: outside it, so writing the
+// upload doesn't set off the folder watcher, and on the same filesystem, so
+// the rename doesn't copy.
+
+import fs from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import type { DatabaseSync } from 'node:sqlite'
+import { Readable, Transform, TransformCallback } from 'stream'
+import { pipeline } from 'stream/promises'
+import checkDiskSpace from 'check-disk-space'
+import { ChartDownloader } from './chartDownloader'
+import { findCharts } from './charts'
+import { loadSqlite } from './sqlite'
+import { TILE_FORMATS } from './tileServer'
+import { extractZip, readZipEntries } from './zip'
+
+export const DEFAULT_UPLOAD_LIMIT_MB = 4096
+
+export type UploadKind = 'mbtiles' | 'zip'
+
+// Uploaded files are plain names inside the chart path, like export file
+// names: no directories and no leading dot.
+// Input  ("harbour.mbtiles")  -> { filename: "harbour.mbtiles", kind: "mbtiles" }
+// Input  ("harbour.zip")      -> { filename: "harbour.zip", kind: "zip" }
+// Input  ("../harbour.zip")   -> error
+export const normalizeUploadFilename = (
+  filename: string
+): { filename: string; kind: UploadKind } | { error: string } => {
+  const kind = /\.mbtiles$/i.test(filename)
+    ? 'mbtiles'
+    : /\.zip$/i.test(filename)
+      ? 'zip'
+      : undefined
+  if (!kind) {
+    return { error: `Invalid filename ${filename} (must be .mbtiles or .zip)` }
+  }
+  if (!/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(filename)) {
+    return {
+      error: `Invalid filename ${filename} (use letters, digits, '.', '_' and '-')`
+    }
+  }
+  return { filename, kind }
+}
+
+// Bounds as findCharts reads them: west, south, east, north in degrees.
+// Latitudes may come in either order, as some writers swap them.
+export const validateChartBounds = (bounds: unknown): string | undefined => {
+  if (
+    !Array.isArray(bounds) ||
+    bounds.length !== 4 ||
+    !bounds.every((b) => typeof b === 'number' && Number.isFinite(b))
+  ) {
+    return `Invalid bounds ${bounds} (must be west,south,east,north)`
+  }
+  const [west, south, east, north] = bounds as number[]
+  if ([west!, east!].some((lon) => lon < -180 || lon > 180)) {
+    return `Invalid bounds ${bounds}: longitude out of range`
+  }
+  if ([south!, north!].some((lat) => lat < -90 || lat > 90)) {
+    return `Invalid bounds ${bounds}: latitude out of range`
+  }
+  return undefined
+}
+
+const validateTileFormat = (format: unknown): string | undefined =>
+  typeof format === 'string' && TILE_FORMATS.includes(format.toLowerCase())
+    ? undefined
+    : `Invalid format ${format} (must be one of ${TILE_FORMATS.join(', ')})`
+
+// Checks that a file is an MBTiles chart findCharts will load: a metadata
+// table with a known tile format and bounds, and at least one tile.
+export const validateMbtilesUpload = async (
+  file: string
+): Promise<string | undefined> => {
+  const sqlite = await loadSqlite()
+  let db: DatabaseSync
+  try {
+    db = new sqlite.DatabaseSync(file, { readOnly: true })
+  } catch (_err) {
+    return 'Not an MBTiles file'
+  }
+  try {
+    const rows = db.prepare('SELECT name, value FROM metadata').all() as {
+      name: string
+      value: string
+    }[]
+    const metadata = Object.fromEntries(rows.map((r) => [r.name, r.value]))
+    const formatError = validateTileFormat(metadata.format)
+    if (formatError) return formatError
+    if (metadata.bounds === undefined) return 'MBTiles metadata has no bounds'
+    const boundsError = validateChartBounds(
+      String(metadata.bounds)
+        .split(',')
+        .map((b) => parseFloat(b.trim()))
+    )
+    if (boundsError) return boundsError
+    if (!db.prepare('SELECT 1 FROM tiles LIMIT 1').get()) {
+      return 'MBTiles file has no tiles'
+    }
+    return undefined
+  } catch (err) {
+    return `Not an MBTiles file: ${(err as Error).message}`
+  } finally {
+    db.close()
+  }
+}
+
+// The room an upload needs, short of which it's refused rather than filling
+// the disk the server runs from.
+export const freeSpaceError = async (
+  dir: string,
+  bytes: number
+): Promise<string | undefined> => {
+  const { free } = await checkDiskSpace(dir)
+  return free - bytes < ChartDownloader.MINIMUM_FREE_DISK_SPACE
+    ? `Not enough free disk space in ${dir} for ${bytes} bytes`
+    : undefined
+}
+
+// Passes on the contents of the first file in a multipart/form-data body,
+// dropping part headers, other form fields and the boundaries. `filename` is
+// set once the file's headers have been read.
+export class MultipartFileExtractor extends Transform {
+  filename: string | undefined
+  private readonly delimiter: Buffer
+  // A CRLF in front lets the first boundary match like the others.
+  private buffer = Buffer.from('\r\n')
+  private state: 'boundary' | 'headers' | 'body' | 'done' = 'boundary'
+  private found = false
+
+  constructor(boundary: string) {
+    super()
+    this.delimiter = Buffer.from(`\r\n--${boundary}`)
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: string,
+    callback: TransformCallback
+  ) {
+    if (this.state === 'done') return callback()
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    try {
+      this.consume()
+      callback()
+    } catch (err) {
+      callback(err as Error)
+    }
+  }
+
+  override _flush(callback: TransformCallback) {
+    callback(this.found ? undefined : new Error('No file in multipart body'))
+  }
+
+  private consume() {
+    for (;;) {
+      if (this.state === 'boundary') {
+        const at = this.buffer.indexOf(this.delimiter)
+        if (at < 0) {
+          this.buffer = this.buffer.subarray(
+            Math.max(0, this.buffer.length - this.delimiter.length)
+          )
+          return
+        }
+        this.buffer = this.buffer.subarray(at + this.delimiter.length)
+        this.state = 'headers'
+      } else if (this.state === 'headers') {
+        // "--" right after a boundary closes the body.
+        if (this.buffer.subarray(0, 2).toString() === '--') {
+          this.state = 'done'
+          return
+        }
+        const end = this.buffer.indexOf('\r\n\r\n')
+        if (end < 0) {
+          if (this.buffer.length > 16 * 1024) {
+            throw new Error('Multipart part headers too long')
+          }
+          return
+        }
+        const headers = this.buffer.toString('utf8', 0, end)
+        this.buffer = this.buffer.subarray(end + 4)
+        const filename = headers.match(
+          /content-disposition:[^\r\n]*\bfilename="([^"]*)"/i
+        )?.[1]
+        if (filename) {
+          this.filename = path.basename(filename)
+          this.state = 'body'
+        } else {
+          this.state = 'boundary'
+        }
+      } else if (this.state === 'body') {
+        const at = this.buffer.indexOf(this.delimiter)
+        if (at < 0) {
+          // Keep what could be the start of a delimiter for the next chunk.
+          const safe = this.buffer.length - this.delimiter.length + 1
+          if (safe > 0) {
+            this.push(this.buffer.subarray(0, safe))
+            this.buffer = this.buffer.subarray(safe)
+          }
+          return
+        }
+        this.push(this.buffer.subarray(0, at))
+        this.found = true
+        this.state = 'done'
+        this.buffer = Buffer.alloc(0)
+        return
+      } else {
+        return
+      }
+    }
+  }
+}
+
+// The multipart boundary of a Content-Type, when the body is a form.
+// Input  ('multipart/form-data; boundary="abc"') -> "abc"
+// Input  ('application/octet-stream')            -> undefined
+export const multipartBoundary = (
+  contentType: string | undefined
+): string | undefined => {
+  if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) {
+    return undefined
+  }
+  const match = contentType.match(/\bboundary=(?:"([^"]+)"|([^;\s]+))/i)
+  return match?.[1] ?? match?.[2]
+}
+
+export interface UploadOptions {
+  chartDir: string
+  // Takes precedence over the file name in a multipart body.
+  filename?: string
+  contentType?: string
+  contentLength?: number
+  maxBytes: number
+}
+
+export type UploadResult =
+  | { identifier: string; path: string }
+  | { status: number; error: string }
+
+const exists = (file: string) =>
+  fs.promises.access(file).then(
+    () => true,
+    () => false
+  )
+
+const conflict = (name: string): UploadResult => ({
+  status: 409,
+  error: `${name} already exists`
+})
+
+// Unpacks a zipped tile directory into the staging directory and finds the
+// chart in it: the zip's root, or a single folder at the root.
+const unpackChartDirectory = async (
+  zipFile: string,
+  staging: string,
+  filename: string,
+  chartDir: string
+): Promise<{ dir: string } | { status: number; error: string }> => {
+  let entries
+  try {
+    entries = await readZipEntries(zipFile)
+  } catch (err) {
+    return { status: 400, error: (err as Error).message }
+  }
+  if (entries.some((e) => /\.mbtiles$/i.test(e.name))) {
+    return {
+      status: 400,
+      error: 'Upload MBTiles files as they are, not zipped'
+    }
+  }
+  const size = entries.reduce((sum, e) => sum + e.size, 0)
+  const spaceError = await freeSpaceError(chartDir, size)
+  if (spaceError) return { status: 507, error: spaceError }
+  // In a folder of its own, apart from the uploaded zip.
+  const unpacked = path.join(staging, 'unpacked')
+  const root = path.join(unpacked, filename.replace(/\.zip$/i, ''))
+  try {
+    await extractZip(zipFile, entries, root)
+  } catch (err) {
+    return { status: 400, error: (err as Error).message }
+  }
+  const charts = Object.values(await findCharts(unpacked))
+  if (charts.length !== 1) {
+    return {
+      status: 400,
+      error:
+        charts.length === 0
+          ? 'No TMS or XYZ tile directory in zip'
+          : 'Zip holds more than one chart'
+    }
+  }
+  const chart = charts[0]!
+  const invalid =
+    validateTileFormat(chart.format) ?? validateChartBounds(chart.bounds)
+  if (invalid) return { status: 400, error: invalid }
+  return { dir: chart._filePath }
+}
+
+// A new staging directory for an upload to `chartDir`. When the chart path
+// is a mount point, its parent is another filesystem; the upload is then
+// staged in a `.part` directory inside it, which findCharts skips.
+// Input  "/charts/noaa" -> "/charts/.noaa.uploads/upload-k3Jx9a"
+const createStagingDir = async (chartDir: string): Promise<string> => {
+  const parent = path.dirname(chartDir)
+  try {
+    const [dir, parentDir] = await Promise.all([
+      fs.promises.stat(chartDir),
+      fs.promises.stat(parent)
+    ])
+    if (dir.dev === parentDir.dev) {
+      const uploads = path.join(parent, `.${path.basename(chartDir)}.uploads`)
+      await fs.promises.mkdir(uploads, { recursive: true })
+      return await fs.promises.mkdtemp(path.join(uploads, 'upload-'))
+    }
+  } catch (_err) {
+    // The parent isn't writable; stage inside the chart path.
+  }
+  const staging = path.join(chartDir, `upload-${randomUUID()}.part`)
+  await fs.promises.mkdir(staging)
+  return staging
+}
+
+// Streams an upload into `chartDir` and installs it as a chart. Returns the
+// HTTP status and message for uploads that are refused; throws on I/O
+// errors.
+export const storeChartUpload = async (
+  source: Readable,
+  options: UploadOptions
+): Promise<UploadResult> => {
+  const { chartDir, contentLength, maxBytes } = options
+  const boundary = multipartBoundary(options.contentType)
+  if (options.filename === undefined && !boundary) {
+    return { status: 400, error: 'Missing filename' }
+  }
+  if (options.filename !== undefined) {
+    const named = normalizeUploadFilename(options.filename)
+    if ('error' in named) return { status: 400, ...named }
+    if (
+      named.kind === 'mbtiles' &&
+      (await exists(path.join(chartDir, named.filename)))
+    ) {
+      return conflict(named.filename)
+    }
+  }
+  if (contentLength !== undefined && contentLength > maxBytes) {
+    return { status: 413, error: `Upload exceeds ${maxBytes} bytes` }
+  }
+  // Without a Content-Length the upload may be as large as the limit.
+  const spaceError = await freeSpaceError(chartDir, contentLength ?? maxBytes)
+  if (spaceError) return { status: 507, error: spaceError }
+
+  const staging = await createStagingDir(chartDir)
+  try {
+    const uploadFile = path.join(staging, 'upload')
+    const extractor = boundary
+      ? new MultipartFileExtractor(boundary)
+      : undefined
+    let received = 0
+    let tooLarge = false
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length
+        tooLarge = received > maxBytes
+        callback(tooLarge ? new Error('Upload too large') : null, chunk)
+      }
+    })
+    const out = fs.createWriteStream(uploadFile)
+    try {
+      await (extractor
+        ? pipeline(source, extractor, limit, out)
+        : pipeline(source, limit, out))
+    } catch (err) {
+      if (tooLarge) {
+        return { status: 413, error: `Upload exceeds ${maxBytes} bytes` }
+      }
+      if (extractor) return { status: 400, error: (err as Error).message }
+      throw err
+    }
+
+    const filename = options.filename ?? extractor?.filename
+    if (!filename) {
+      return { status: 400, error: 'Missing filename' }
+    }
+    const named = normalizeUploadFilename(filename)
+    if ('error' in named) return { status: 400, ...named }
+
+    if (named.kind === 'mbtiles') {
+      const invalid = await validateMbtilesUpload(uploadFile)
+      if (invalid) return { status: 400, error: invalid }
+      const target = path.join(chartDir, named.filename)
+      if (await exists(target)) return conflict(named.filename)
+      await fs.promises.rename(uploadFile, target)
+      return {
+        identifier: named.filename.replace(/\.mbtiles$/i, ''),
+        path: target
+      }
+    }
+
+    const unpacked = await unpackChartDirectory(
+      uploadFile,
+      staging,
+      named.filename,
+      chartDir
+    )
+    if ('error' in unpacked) return unpacked
+    const identifier = path.basename(unpacked.dir)
+    const target = path.join(chartDir, identifier)
+    if (await exists(target)) return conflict(identifier)
+    await fs.promises.rename(unpacked.dir, target)
+    return { identifier, path: target }
+  } finally {
+    await fs.promises.rm(staging, { recursive: true, force: true })
+  }
+}
@@ -2,7 +2,14 @@ import path from 'path'
 import { XMLParser } from 'fast-xml-parser'
 import { Dirent, promises as fs } from 'fs'
 import pLimit from 'p-limit'
-import { ChartProvider, MBTilesHandle, MBTilesMetadata } from './types'
+import { findChartStyle } from './chartStyle'
+import {
+  ChartProvider,
+  MBTilesHandle,
+  MBTilesMetadata,
+  TileStats,
+  VectorLayer
+} from './types'
 
 // Parses tilemapresource.xml into a plain object. ignoreAttributes=false and
 // attributeNamePrefix='' drop the default '@_' prefix so XML attributes show
@@ -59,9 +66,9 @@ async function loadMBTiles() {
 // Recursively scans chartBaseDir and any non-chart subdirectories. A directory
 // is treated as a chart if it has tilemapresource.xml or metadata.json; anything
 // else is descended into so layouts like charts/<region>/<chart> work without
-// having to list every subdir in the plugin config. Symlinks are skipped and
-// the depth is bounded so a misplaced config entry can't send the scan into
-// node_modules or a symlink loop. File parsing (openMbtilesFile /
+// having to list every subdir in the plugin config. Symlinks and `.part`
+// staging entries are skipped, and the depth is bounded so a misplaced config
+// entry can't send the scan into node_modules or a symlink loop. File parsing (openMbtilesFile /
 // directoryToMapInfo) runs concurrently under a global limiter — 500 MBTiles
 // opened serially on a Pi SD card was a 5-30s startup stall.
 const MAX_SCAN_DEPTH = 8
@@ -116,6 +123,8 @@ async function scanDir(
   const tasks: Promise<void>[] = []
   for (const entry of entries) {
     if (entry.isSymbolicLink()) continue
+    // Exports and uploads still being written.
+    if (entry.name.endsWith('.part')) continue
     const entryPath = path.resolve(dir, entry.name)
     if (entry.name.match(/\.mbtiles$/i)) {
       if (mbtilesLoadError) {
@@ -196,6 +205,8 @@ function openMbtilesFile(
         _filePath: file,
         _mbtilesHandle: mbtiles,
         _flipY: false,
+        _attribution: metadata.attribution,
+        _center: metadata.center,
         identifier,
         name: metadata.name || metadata.id || identifier,
         description: metadata.description ?? '',
@@ -205,20 +216,13 @@ function openMbtilesFile(
         format: metadata.format,
         type: 'tilelayer',
         scale: parseInt(metadata.scale ?? '') || 250000,
-        v1: {
-          tilemapUrl: `~tilePath~/${identifier}/{z}/{x}/{y}`,
-          chartLayers: metadata.vector_layers
-            ? parseVectorLayers(metadata.vector_layers)
-            : []
-        },
-        v2: {
-          url: `~tilePath~/${identifier}/{z}/{x}/{y}`,
-          layers: metadata.vector_layers
-            ? parseVectorLayers(metadata.vector_layers)
-            : []
-        }
+        ...localChartResources(
+          identifier,
+          parseVectorLayers(metadata.vector_layers),
+          parseTileStats(metadata.tilestats)
+        )
       }
-      return data
+      return withChartStyle(data)
     })
     .catch((e: Error) => {
       console.error(`Error loading chart ${file}`, e.message)
@@ -243,8 +247,80 @@ function parseBoundsFromMetadata(
   return undefined
 }
 
-function parseVectorLayers(layers: Array<{ id: string }>) {
-  return layers.map((l) => l.id)
+// Keeps the documented keys of each vector_layers entry; entries without an
+// id, and keys of the wrong type, are dropped rather than failing the chart.
+export function parseVectorLayers(layers: unknown): VectorLayer[] {
+  if (!Array.isArray(layers)) return []
+  return layers
+    .filter((l) => typeof l?.id === 'string')
+    .map((l) => {
+      const layer: VectorLayer = { id: l.id }
+      if (typeof l.description === 'string') layer.description = l.description
+      if (Number.isFinite(l.minzoom)) layer.minzoom = l.minzoom
+      if (Number.isFinite(l.maxzoom)) layer.maxzoom = l.maxzoom
+      if (l.fields && typeof l.fields === 'object') {
+        layer.fields = Object.fromEntries(
+          Object.entries(l.fields).filter(([, t]) => typeof t === 'string')
+        ) as { [name: string]: string }
+      }
+      return layer
+    })
+}
+
+// tilestats arrives parsed when it sits in the "json" metadata row and as a
+// string when it has a row of its own.
+export function parseTileStats(value: unknown): TileStats | undefined {
+  let stats = value
+  if (typeof stats === 'string') {
+    try {
+      stats = JSON.parse(stats)
+    } catch (_err) {
+      return undefined
+    }
+  }
+  return stats &&
+    typeof stats === 'object' &&
+    Array.isArray((stats as TileStats).layers)
+    ? (stats as TileStats)
+    : undefined
+}
+
+// The v1/v2 resource blocks of a chart served by the plugin. Both `layers`
+// lists keep holding plain layer ids for existing clients; v2 also carries
+// the full vector_layers and tilestats when the chart has them.
+export function localChartResources(
+  identifier: string,
+  vectorLayers: VectorLayer[] = [],
+  tilestats?: TileStats
+): Pick<ChartProvider, 'v1' | 'v2'> {
+  const url = `~tilePath~/${identifier}/{z}/{x}/{y}`
+  const ids = vectorLayers.map((l) => l.id)
+  return {
+    v1: { tilemapUrl: url, chartLayers: ids },
+    v2: {
+      url,
+      layers: ids,
+      ...(vectorLayers.length ? { vectorLayers } : {}),
+      ...(tilestats ? { tilestats } : {})
+    }
+  }
+}
+
+// Advertises a style.json found next to a vector chart as the chart's
+// `style`, served by the plugin like its tiles.
+async function withChartStyle(chart: ChartProvider): Promise<ChartProvider> {
+  const files = await findChartStyle(
+    chart._filePath,
+    chart._fileFormat ?? 'mbtiles',
+    chart.identifier,
+    chart.format
+  )
+  if (files) {
+    chart._stylePath = files.stylePath
+    chart._styleAssetsDir = files.assetsDir
+    chart.style = `~tilePath~/${chart.identifier}/style.json`
+  }
+  return chart
 }
 
 function directoryToMapInfo(
@@ -300,16 +376,16 @@ function directoryToMapInfo(
         info.identifier = identifier
         info._fileFormat = 'directory'
         info._filePath = file
-        info.v1 = {
-          tilemapUrl: `~tilePath~/${identifier}/{z}/{x}/{y}`,
-          chartLayers: []
-        }
-        info.v2 = {
-          url: `~tilePath~/${identifier}/{z}/{x}/{y}`,
-          layers: []
-        }
+        Object.assign(
+          info,
+          localChartResources(
+            identifier,
+            info.v2?.vectorLayers,
+            info.v2?.tilestats
+          )
+        )
 
-        return info
+        return withChartStyle(info)
       }
       return null
     })
@@ -371,8 +447,24 @@ function parseMetadataJson(metadataJson: string) {
           return undefined
         }
       }
+      // mb-util style metadata.json nests vector_layers and tilestats in a
+      // "json" string, like the MBTiles metadata row it was exported from.
+      let nested: { vector_layers?: unknown; tilestats?: unknown } = {}
+      try {
+        nested =
+          typeof metadata.json === 'string' ? JSON.parse(metadata.json) : {}
+      } catch (_err) {
+        // Malformed extra metadata doesn't make the chart unusable.
+      }
       const res: ChartProvider = {
         _flipY: false,
+        _attribution: metadata.attribution,
+        _center:
+          typeof metadata.center === 'string'
+            ? metadata.center.split(',').map((v: string) => parseFloat(v))
+            : Array.isArray(metadata.center)
+              ? metadata.center
+              : undefined,
         name: metadata.name || metadata.id,
         description: metadata.description || '',
         bounds: parseBounds(metadata.bounds),
@@ -382,7 +474,15 @@ function parseMetadataJson(metadataJson: string) {
         type: metadata.type,
         scale: parseInt(metadata.scale) || 250000,
         identifier: '',
-        _filePath: ''
+        _filePath: '',
+        // Carried to directoryToMapInfo, which builds the real URLs.
+        v2: {
+          url: '',
+          vectorLayers: parseVectorLayers(
+            metadata.vector_layers ?? nested.vector_layers
+          ),
+          tilestats: parseTileStats(metadata.tilestats ?? nested.tilestats)
+        }
       }
       return res
     })
@@ -0,0 +1,108 @@
+// Composite charts: one tile layer stacked from several local charts, for
+// chart sets split by scale (NOAA MBTiles, for example) that clients would
+// otherwise show as many overlapping layers. A composite is declared in the
+// plugin config with an ordered list of chart identifiers, most detailed
+// first; each tile comes from the first of those charts that has it.
+
+import * as _ from 'lodash'
+import { localChartResources } from './charts'
+import { tileTouchesBounds } from './projection'
+import { ChartProvider } from './types'
+
+export interface CompositeChartConfig {
+  name: string
+  description?: string
+  charts: string[]
+}
+
+export const compositeIdentifier = (name: string): string =>
+  _.kebabCase(_.deburr(name))
+
+// Union of the members' bounds. Charts crossing the antimeridian (west >
+// east) make the union the whole world. Latitudes are taken in either
+// order: some writers swap them (NOAA's CAROLINAS chart among them).
+// Input  ([[0, 0, 10, 10], [5, -5, 20, 5]]) -> [0, -5, 20, 10]
+const unionBounds = (members: ChartProvider[]): number[] => {
+  const all = members.map((m) => m.bounds ?? [-180, -90, 180, 90])
+  if (all.some(([west, , east]) => west! > east!)) return [-180, -90, 180, 90]
+  const lats = all.flatMap((b) => [b[1]!, b[3]!])
+  return [
+    Math.min(...all.map((b) => b[0]!)),
+    Math.min(...lats),
+    Math.max(...all.map((b) => b[2]!)),
+    Math.max(...lats)
+  ]
+}
+
+// Builds the provider for a configured composite from the loaded charts.
+// Members that aren't local charts, or whose tile format differs from the
+// first member's, are left out with a debug message: a layer can only serve
+// one format. Returns undefined when no member is left.
+export const buildCompositeProvider = (
+  config: CompositeChartConfig,
+  charts: { [identifier: string]: ChartProvider },
+  debug: (msg: string) => void
+): ChartProvider | undefined => {
+  const identifier = compositeIdentifier(config.name)
+  const members: ChartProvider[] = []
+  for (const id of config.charts ?? []) {
+    const chart = charts[id]
+    if (!chart?._fileFormat) {
+      debug(`Composite chart "${identifier}": no local chart "${id}"`)
+    } else if (
+      members[0] &&
+      chart.format?.toLowerCase() !== members[0].format?.toLowerCase()
+    ) {
+      debug(
+        `Composite chart "${identifier}": "${id}" is ${chart.format}, not ${members[0].format}; left out`
+      )
+    } else {
+      members.push(chart)
+    }
+  }
+  const first = members[0]
+  if (!first) return undefined
+  const attributions = _.uniq(
+    members.map((m) => m._attribution).filter((a): a is string => !!a)
+  )
+  return {
+    _filePath: '',
+    _compositeOf: members.map((m) => m.identifier),
+    _attribution: attributions.length ? attributions.join(', ') : undefined,
+    identifier,
+    name: config.name,
+    description: config.description ?? '',
+    type: 'tilelayer',
+    format: first.format,
+    // The most detailed member's scale.
+    scale: Math.min(...members.map((m) => m.scale)),
+    bounds: unionBounds(members),
+    minzoom: _.min(members.map((m) => m.minzoom)),
+    maxzoom: _.max(members.map((m) => m.maxzoom)),
+    ...localChartResources(identifier)
+  }
+}
+
+// Whether a member chart can have the tile, so the lookup skips charts that
+// don't reach this far or this deep.
+const coversTile = (chart: ChartProvider, z: number, x: number, y: number) => {
+  if (chart.minzoom !== undefined && z < chart.minzoom) return false
+  if (chart.maxzoom !== undefined && z > chart.maxzoom) return false
+  return !chart.bounds || tileTouchesBounds(x, y, z, chart.bounds)
+}
+
+// The member charts to try for a tile, in priority order. Looked up at
+// request time so members reloaded since the composite was built are used.
+export const compositeMembersFor = (
+  provider: ChartProvider,
+  charts: { [identifier: string]: ChartProvider },
+  z: number,
+  x: number,
+  y: number
+): ChartProvider[] =>
+  (provider._compositeOf ?? [])
+    .map((id) => charts[id])
+    .filter(
+      (chart): chart is ChartProvider =>
+        !!chart?._fileFormat && coversTile(chart, z, x, y)
+    )
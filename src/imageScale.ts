@@ -0,0 +1,73 @@
+// Overzoom for JPEG and WebP tiles, which png.ts can't decode. sharp is
+// loaded on first use, like the raster renderer: its prebuilt binaries
+// cover the usual server platforms, and where they don't install the rest
+// of the plugin still works and these tiles answer 404.
+
+type SharpModule = typeof import('sharp')
+
+// Held in a variable so a missing binary fails at load, not at import.
+const SHARP_MODULE = 'sharp'
+
+let sharp: SharpModule | null = null
+let sharpLoadError: Error | null = null
+
+const loadSharp = async (): Promise<SharpModule | null> => {
+  if (sharp === null && sharpLoadError === null) {
+    try {
+      const module = await import(SHARP_MODULE)
+      sharp = (module.default || module) as SharpModule
+    } catch (err) {
+      sharpLoadError = err as Error
+      console.warn(
+        `Signal K Charts: JPEG and WebP overzoom unavailable, ${SHARP_MODULE} could not be loaded:`,
+        (err as Error).message
+      )
+    }
+  }
+  return sharp
+}
+
+const OUTPUT_FORMATS: { [format: string]: 'jpeg' | 'webp' } = {
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  webp: 'webp'
+}
+
+export const isScalableImageFormat = (format: string): boolean =>
+  format in OUTPUT_FORMATS
+
+// cropAndScale for a JPEG or WebP tile: the part covering one of its
+// descendants `levels` zooms down, scaled back up to the tile's size with
+// nearest neighbour and encoded in the tile's own format. Undefined when
+// sharp isn't available or the tile can't be decoded.
+// Input  (256 px jpg tile, levels 1, column 1, row 0)
+//        -> its top-right 128 px quarter, doubled to 256 px, as jpg
+export const cropAndScaleImage = async (
+  data: Buffer,
+  format: string,
+  levels: number,
+  column: number,
+  row: number
+): Promise<Buffer | undefined> => {
+  const module = await loadSharp()
+  const output = OUTPUT_FORMATS[format]
+  if (!module || !output) return undefined
+  try {
+    const { width, height } = await module(data).metadata()
+    if (!width || !height) return undefined
+    const scale = 2 ** levels
+    const part = {
+      left: Math.floor((column * width) / scale),
+      top: Math.floor((row * height) / scale),
+      width: Math.max(1, Math.floor(width / scale)),
+      height: Math.max(1, Math.floor(height / scale))
+    }
+    return await module(data)
+      .extract(part)
+      .resize(width, height, { kernel: 'nearest' })
+      .toFormat(output)
+      .toBuffer()
+  } catch {
+    return undefined
+  }
+}
@@ -1,21 +1,105 @@
 import path from 'path'
 import fs, { FSWatcher } from 'fs'
 import * as _ from 'lodash'
+import pLimit from 'p-limit'
 import { findCharts } from './charts'
+import { DEFAULT_UPLOAD_LIMIT_MB, storeChartUpload } from './chartUpload'
+import {
+  chartFileMoves,
+  isInsidePath,
+  isReadOnlyPath,
+  moveChartFiles,
+  removeChartFiles,
+  validateChartIdentifier
+} from './chartFiles'
 import { apiRoutePrefix } from './constants'
 import { composeStatus, ChartPathCount } from './pluginStatus'
 import { ChartProvider, MBTilesHandle, OnlineChartProvider } from './types'
-import { ChartSeedingManager, Tile } from './chartDownloader'
+import { CacheQuota, megabytesToBytes } from './cacheQuota'
+import { cacheStatsFor, resetCacheStats } from './cacheStats'
+import {
+  ChartExportManager,
+  ExportRequest,
+  normalizeExportFilename
+} from './cacheExport'
 import {
+  ChartDownloader,
+  ChartSeedingManager,
+  DEFAULT_RETRY_POLICY,
+  DownloadOptions,
+  RetryPolicy,
+  Tile
+} from './chartDownloader'
+import {
+  MAX_CONCURRENT_DOWNLOADS,
+  MAX_OVERZOOM_LEVELS,
+  MAX_REQUEST_TIMEOUT_MS,
   MAX_ZOOM,
+  MIN_CONCURRENT_DOWNLOADS,
+  MIN_REQUEST_TIMEOUT_MS,
   MIN_ZOOM,
+  enableOverzoom,
+  isOverzoomTile,
+  readCompositeTile,
+  readLocalTile,
+  setTileMaxAge,
+  serveOverzoomTile,
   serveTileFromCacheOrRemote,
+  serveTileFromComposite,
   serveTileFromFilesystem,
   serveTileFromMbtiles,
+  sendTile,
   validateBBox,
+  validateConcurrency,
   validateMaxZoom,
+  validateRequestTimeout,
   validateTileCoords
 } from './tileServer'
+import { resetRateLimiters } from './rateLimiter'
+import {
+  CompositeChartConfig,
+  buildCompositeProvider,
+  compositeMembersFor
+} from './compositeCharts'
+import {
+  chartsAtPosition,
+  parseChartQuery,
+  queryCharts,
+  validatePosition
+} from './chartQuery'
+import {
+  chartCoverage,
+  coverageZoom,
+  validateCoverageZoom
+} from './chartCoverage'
+import { buildChartMetadata, buildTileJson, tileUrlTemplate } from './tileJson'
+import {
+  glyphFilePaths,
+  readChartStyle,
+  readFirstFile,
+  spriteFilePath
+} from './chartStyle'
+import {
+  loadRasterTile,
+  rasterCacheProvider,
+  rasterRendererAvailable,
+  releaseRasterRenderers,
+  releaseStaleRasterRenderers
+} from './rasterRenderer'
+import {
+  MAX_UNDERZOOM_LEVELS,
+  OverviewJobManager,
+  enableUnderzoom,
+  isUnderzoomTile,
+  loadUnderzoomTile,
+  underzoomCacheProvider
+} from './underzoom'
+import {
+  CACHE_BACKENDS,
+  CacheBackend,
+  closeTileCaches,
+  setCacheBackend
+} from './tileCache'
 import { Request, Response, Application } from 'express'
 import {
   Plugin,
@@ -25,8 +109,19 @@ import {
 
 interface Config {
   chartPaths: string[]
+  readOnlyChartPaths?: string[]
   cachePath: string
+  cacheBackend?: CacheBackend
+  resumeSeedingJobs?: boolean
+  rasterTiles?: boolean
+  seedingRetry?: Partial<RetryPolicy>
+  cacheQuotaMB?: number
   onlineChartProviders: OnlineChartProvider[]
+  compositeCharts?: CompositeChartConfig[]
+  overzoom?: { chart: string; levels: number }[]
+  underzoom?: { chart: string; levels: number }[]
+  tileMaxAge?: { chart: string; hours: number }[]
+  uploadLimitMB?: number
 }
 
 interface ChartProviderApp
@@ -48,8 +143,38 @@ const RELOAD_DEBOUNCE_MS =
 
 type SanitizedProvider = Record<string, unknown>
 
+// Upper bound for the per-tile attempt count; beyond this a dead remote keeps
+// a seeding job busy for hours without realistic hope of success.
+const MAX_RETRY_ATTEMPTS = 10
+
+// Choices offered for an online provider, shared by the config schema and
+// the resources API validation.
+const SERVER_TYPES = [
+  'tilelayer',
+  'S-57',
+  'WMS',
+  'WMTS',
+  'mapstyleJSON',
+  'tileJSON'
+]
+const ONLINE_FORMATS = ['png', 'jpg', 'pbf']
+
+// Past tense for the POST /cache/jobs/:id confirmation message.
+const JOB_ACTION_DONE: { [action: string]: string } = {
+  start: 'started',
+  stop: 'stopped',
+  pause: 'paused',
+  resume: 'resumed',
+  retry: 'retried',
+  delete: 'deleted',
+  remove: 'removed'
+}
+
 const createPlugin = (app: ChartProviderApp): Plugin => {
   let chartProviders: { [key: string]: ChartProvider } = {}
+  // The charts found in the chart paths by the last reload, so an online
+  // provider change can be applied without scanning them again.
+  let localCharts: { [key: string]: ChartProvider } = {}
   // Pre-computed per-version views of chartProviders, rebuilt on every reload.
   // The HTTP handlers serve directly from here so tile-list requests don't pay
   // a deep clone per provider on the hot path.
@@ -78,7 +203,10 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
   const watchers: FSWatcher[] = []
   let reloadTimer: NodeJS.Timeout | undefined
   let activeChartPaths: string[] = []
-  let activeOnlineProviders: { [key: string]: object } = {}
+  let readOnlyChartPaths: string[] = []
+  let activeOnlineProviders: {
+    [key: string]: ReturnType<typeof convertOnlineProviderConfig>
+  } = {}
   // Last scan result, surfaced in the config schema description so the admin
   // UI shows per-path counts when the user reopens the plugin config. Issue #8.
   let lastChartPathCounts: ChartPathCount[] = []
@@ -126,11 +254,84 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
           description: `Path for chart files, relative to "${configBasePath}"`
         }
       },
+      readOnlyChartPaths: {
+        type: 'array',
+        title: 'Read-only chart paths',
+        description:
+          'Chart paths, or folders inside them, where charts are never uploaded, deleted or moved through the API, such as protected mounts.',
+        items: {
+          type: 'string',
+          title: 'Path',
+          description: `Relative to "${configBasePath}"`
+        }
+      },
       cachePath: {
         type: 'string',
         title: 'Cache path',
         description: `Directory for cached tiles. Defaults to "${defaultChartsPath}"`
       },
+      cacheBackend: {
+        type: 'string',
+        title: 'Cache storage',
+        description:
+          'How proxied tiles are stored in the cache path. "files" keeps one file per tile; "sqlite" keeps one MBTiles-style database per provider, which is faster on SD cards and easier to back up. Switching starts with an empty cache.',
+        enum: CACHE_BACKENDS,
+        default: 'files'
+      },
+      cacheQuotaMB: {
+        type: 'number',
+        title: 'Total cache quota (MB)',
+        description:
+          'Upper limit for the tile cache of all proxied providers together, including tiles rendered or built for underzoom from local charts. When it is exceeded the least recently used tiles are deleted; tiles of listed seeding jobs are kept. Leave empty for no limit.',
+        minimum: 0
+      },
+      uploadLimitMB: {
+        type: 'number',
+        title: 'Chart upload size limit (MB)',
+        description: `Largest chart file accepted by the upload endpoint. Defaults to ${DEFAULT_UPLOAD_LIMIT_MB}.`,
+        minimum: 1
+      },
+      resumeSeedingJobs: {
+        type: 'boolean',
+        title: 'Resume interrupted seeding jobs',
+        description:
+          'Seeding jobs are saved in the cache path and reloaded when the plugin starts. When enabled, jobs that were running when the server stopped are started again automatically.',
+        default: false
+      },
+      rasterTiles: {
+        type: 'boolean',
+        title: 'Render vector charts as raster tiles',
+        description:
+          'Serves local vector charts that have a style.json as png tiles at /signalk/chart-tiles/<chart>/raster/{z}/{x}/{y}.png, for apps that only show raster charts. Needs @maplibre/maplibre-gl-native installed in the server directory and OpenGL (a GPU, or Mesa with a virtual display such as Xvfb); see the README. Without them the tiles answer 501. Rendered tiles are kept in the cache path.',
+        default: false
+      },
+      seedingRetry: {
+        type: 'object',
+        title: 'Seeding retry policy',
+        description:
+          'How seeding jobs retry tiles that fail with a timeout, network error, HTTP 429 or 5xx. Tiles that fail with 404 or other client errors are not retried.',
+        properties: {
+          maxAttempts: {
+            type: 'number',
+            title: 'Maximum attempts per tile, including the first',
+            minimum: 1,
+            maximum: MAX_RETRY_ATTEMPTS,
+            default: DEFAULT_RETRY_POLICY.maxAttempts
+          },
+          baseDelayMs: {
+            type: 'number',
+            title: 'Initial backoff delay (ms), doubled on each retry',
+            minimum: 0,
+            default: DEFAULT_RETRY_POLICY.baseDelayMs
+          },
+          maxDelayMs: {
+            type: 'number',
+            title: 'Maximum backoff delay (ms)',
+            minimum: 0,
+            default: DEFAULT_RETRY_POLICY.maxDelayMs
+          }
+        }
+      },
       onlineChartProviders: {
         type: 'array',
         title: 'Online chart providers',
@@ -165,14 +366,7 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
               type: 'string',
               title: 'Map source / server type',
               default: 'tilelayer',
-              enum: [
-                'tilelayer',
-                'S-57',
-                'WMS',
-                'WMTS',
-                'mapstyleJSON',
-                'tileJSON'
-              ],
+              enum: SERVER_TYPES,
               description:
                 'Map data source type served by the supplied url. (Use tilelayer for xyz / tms tile sources.)'
             },
@@ -180,7 +374,7 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
               type: 'string',
               title: 'Format',
               default: 'png',
-              enum: ['png', 'jpg', 'pbf'],
+              enum: ONLINE_FORMATS,
               description:
                 'Format of map tiles: raster (png, jpg, etc.) / vector (pbf).'
             },
@@ -197,6 +391,50 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
                 'Create a proxy to serve remote tiles and cache fetched tiles from the remote server, to serve them locally on subsequent requests. Use webapp to configure seeding jobs to prefetch tiles to local cache.',
               default: false
             },
+            maxRequestsPerSecond: {
+              type: 'number',
+              title: 'Maximum requests per second',
+              description:
+                'Upper limit for requests sent to the remote server by the proxy and seeding jobs combined. Leave empty for no limit. HTTP 429 / 503 responses and Retry-After headers always slow requests down.',
+              minimum: 0
+            },
+            concurrentDownloads: {
+              type: 'number',
+              title: 'Concurrent downloads',
+              description:
+                'Number of tiles a seeding job fetches in parallel from this server. Lower it for servers that reject bursts. Leave empty for the default (20).',
+              minimum: MIN_CONCURRENT_DOWNLOADS,
+              maximum: MAX_CONCURRENT_DOWNLOADS
+            },
+            requestTimeoutMs: {
+              type: 'number',
+              title: 'Request timeout (ms)',
+              description:
+                'Time to wait for a tile from this server before giving up, for both the proxy and seeding jobs. Leave empty for the default (5000).',
+              minimum: MIN_REQUEST_TIMEOUT_MS,
+              maximum: MAX_REQUEST_TIMEOUT_MS
+            },
+            cacheMaxAgeDays: {
+              type: 'number',
+              title: 'Cached tile max age (days)',
+              description:
+                'Cached tiles older than this are revalidated with the remote server before being served, so chart corrections are picked up. A stale tile is still served when the server cannot be reached. Leave empty to keep cached tiles forever.',
+              minimum: 0
+            },
+            cacheQuotaMB: {
+              type: 'number',
+              title: 'Cache quota (MB)',
+              description:
+                'Upper limit for the cached tiles of this provider. When it is exceeded the least recently used tiles are deleted; tiles of listed seeding jobs are kept. Leave empty for no limit.',
+              minimum: 0
+            },
+            tileMaxAgeHours: {
+              type: 'number',
+              title: 'Client tile max age (hours)',
+              description:
+                'How long map clients may reuse a proxied tile before asking again; an unchanged tile is then answered with "304 Not Modified". Lower it for charts that change often. Leave empty for the default (90 days).',
+              minimum: 0
+            },
             headers: {
               type: 'array',
               title: 'Headers',
@@ -228,6 +466,114 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
             }
           }
         }
+      },
+      compositeCharts: {
+        type: 'array',
+        title: 'Composite charts',
+        description:
+          'Local charts stacked into one tile layer, such as a set of charts at different scales. Each tile comes from the first listed chart that has it.',
+        items: {
+          type: 'object',
+          title: 'Composite chart',
+          required: ['name', 'charts'],
+          properties: {
+            name: {
+              type: 'string',
+              title: 'Name'
+            },
+            description: {
+              type: 'string',
+              title: 'Description'
+            },
+            charts: {
+              type: 'array',
+              title: 'Charts',
+              description:
+                'Identifiers of local charts (the file name without .mbtiles, or the directory name), most detailed first. All must have the same tile format.',
+              items: {
+                title: 'Chart identifier',
+                type: 'string'
+              }
+            }
+          }
+        }
+      },
+      overzoom: {
+        type: 'array',
+        title: 'Overzoom',
+        description:
+          'Charts served past their maximum zoom level, so they stay visible when zooming in close. Raster tiles are cut from the tile at the maximum zoom and scaled up; vector tiles are sent as that tile.',
+        items: {
+          type: 'object',
+          title: 'Chart',
+          required: ['chart', 'levels'],
+          properties: {
+            chart: {
+              type: 'string',
+              title: 'Chart identifier',
+              description:
+                'The file name without .mbtiles, the directory name, or the identifier of a composite or proxied online chart.'
+            },
+            levels: {
+              type: 'number',
+              title: `Zoom levels past the maximum zoom, between [1, ${MAX_OVERZOOM_LEVELS}]`,
+              minimum: 1,
+              maximum: MAX_OVERZOOM_LEVELS,
+              default: 2
+            }
+          }
+        }
+      },
+      underzoom: {
+        type: 'array',
+        title: 'Underzoom',
+        description:
+          'Local or composite png charts shown below their minimum zoom level, so detailed charts are visible when zoomed out. Overview tiles are built from the chart tiles and kept in the cache path.',
+        items: {
+          type: 'object',
+          title: 'Chart',
+          required: ['chart', 'levels'],
+          properties: {
+            chart: {
+              type: 'string',
+              title: 'Chart identifier',
+              description:
+                'The file name without .mbtiles, the directory name, or the identifier of a composite chart.'
+            },
+            levels: {
+              type: 'number',
+              title: `Zoom levels below the minimum zoom, between [1, ${MAX_UNDERZOOM_LEVELS}]`,
+              minimum: 1,
+              maximum: MAX_UNDERZOOM_LEVELS,
+              default: 4
+            }
+          }
+        }
+      },
+      tileMaxAge: {
+        type: 'array',
+        title: 'Client tile max age',
+        description:
+          'How long map clients may reuse the tiles of a local or composite chart before asking again; an unchanged tile is then answered with "304 Not Modified". Charts not listed use 90 days. Online charts set this in their own config.',
+        items: {
+          type: 'object',
+          title: 'Chart',
+          required: ['chart', 'hours'],
+          properties: {
+            chart: {
+              type: 'string',
+              title: 'Chart identifier',
+              description:
+                'The file name without .mbtiles, the directory name, or the identifier of a composite chart.'
+            },
+            hours: {
+              type: 'number',
+              title: 'Max age (hours)',
+              minimum: 0,
+              default: 24
+            }
+          }
+        }
       }
     }
   })
@@ -256,6 +602,17 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
       // Cancel any running seeding jobs so a disabled plugin doesn't keep
       // pulling tiles from remote providers in the background.
       ChartSeedingManager.cancelAll()
+      ChartExportManager.cancelAll()
+      OverviewJobManager.cancelAll()
+      resetRateLimiters()
+      resetCacheStats()
+      releaseRasterRenderers()
+      ChartDownloader.cacheQuota?.close()
+      ChartDownloader.cacheQuota = undefined
+      // Flushes batched writes of the SQLite cache backend.
+      closeTileCaches().catch((err) =>
+        app.debug(`Closing tile caches failed: ${(err as Error).message}`)
+      )
       // Close open SQLite connections so the user can move or delete chart
       // files while the plugin is stopped (Windows blocks deletion on open
       // handles). Restart re-opens fresh via findCharts.
@@ -291,7 +648,17 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
     activeChartPaths = !props.chartPaths?.length
       ? [defaultChartsPath]
       : resolveUniqueChartPaths(props.chartPaths, configBasePath)
+    readOnlyChartPaths = resolveUniqueChartPaths(
+      props.readOnlyChartPaths ?? [],
+      configBasePath
+    )
     cachePath = props.cachePath || defaultChartsPath
+    await setCacheBackend(
+      CACHE_BACKENDS.includes(props.cacheBackend as CacheBackend)
+        ? (props.cacheBackend as CacheBackend)
+        : 'files'
+    )
+    ChartSeedingManager.retryPolicy = parseRetryPolicy(props.seedingRetry)
     // Both paths commonly coincide on a fresh install; ensure they exist once
     // here rather than at plugin construction time, which kept us off the
     // sync-fs path at module load.
@@ -300,18 +667,7 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
       await ensureDirectoryExists(cachePath)
     }
 
-    activeOnlineProviders = {}
-    for (const data of props.onlineChartProviders ?? []) {
-      const provider = convertOnlineProviderConfig(data)
-      if (activeOnlineProviders[provider.identifier]) {
-        app.debug(
-          `Duplicate online provider identifier "${provider.identifier}" ` +
-            `(from name "${data.name}"); the later entry wins. ` +
-            `Rename one of the providers to avoid the collision.`
-        )
-      }
-      activeOnlineProviders[provider.identifier] = provider
-    }
+    applyOnlineProviders(props.onlineChartProviders ?? [])
     app.debug(
       `Start charts plugin. Chart paths: ${activeChartPaths.join(
         ', '
@@ -332,7 +688,170 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
     app.setPluginStatus('Started')
 
     startWatchers()
-    return loadChartProviders()
+    await loadChartProviders()
+    await restoreSeedingJobs()
+    startCacheQuota()
+  }
+
+  const applyOnlineProviders = (configs: OnlineChartProvider[]) => {
+    activeOnlineProviders = {}
+    for (const data of configs) {
+      const provider = convertOnlineProviderConfig(data)
+      if (activeOnlineProviders[provider.identifier]) {
+        app.debug(
+          `Duplicate online provider identifier "${provider.identifier}" ` +
+            `(from name "${data.name}"); the later entry wins. ` +
+            `Rename one of the providers to avoid the collision.`
+        )
+      }
+      activeOnlineProviders[provider.identifier] = provider
+    }
+  }
+
+  // Changes to one online provider through the resources API, one at a
+  // time so concurrent requests can't drop each other's edit. The new list is
+  // saved to the plugin config first, then applied to the running plugin.
+  const configQueue = pLimit(1)
+  const updateOnlineProvider = (
+    id: string,
+    update: (configs: OnlineChartProvider[]) => OnlineChartProvider[]
+  ): Promise<void> =>
+    configQueue(async () => {
+      const config: Config = {
+        ...props,
+        onlineChartProviders: update(props.onlineChartProviders ?? [])
+      }
+      await new Promise<void>((resolve, reject) =>
+        app.savePluginOptions(config, (err) => (err ? reject(err) : resolve()))
+      )
+      props = config
+      // As in applyOnlineProviders, the later of duplicate entries wins.
+      applyOnlineProvider(
+        id,
+        config.onlineChartProviders
+          .filter((c) => onlineProviderIdentifier(c) === id)
+          .pop()
+      )
+    })
+
+  // Applies one added, replaced or deleted online provider to the running
+  // plugin, as a full reload would, but without scanning the chart paths or
+  // the cache again. A deleted provider's seeding jobs are cancelled, and the
+  // local chart it shadowed, if any, is served again.
+  const applyOnlineProvider = (
+    id: string,
+    data: OnlineChartProvider | undefined
+  ) => {
+    const previous = activeOnlineProviders[id]
+    const provider = data && convertOnlineProviderConfig(data)
+    if (provider) {
+      activeOnlineProviders[id] = provider
+    } else {
+      delete activeOnlineProviders[id]
+      ChartSeedingManager.removeProviderJobs(id)
+    }
+    // Composites win over online providers of the same identifier.
+    if (!chartProviders[id]?._compositeOf) {
+      const chart = (provider as ChartProvider | undefined) ?? localCharts[id]
+      if (chart) {
+        chartProviders[id] = chart
+        for (const { chart: name, levels } of props.overzoom ?? []) {
+          const overzoomError =
+            name === id ? enableOverzoom(chart, levels) : undefined
+          if (overzoomError) {
+            app.debug(`Overzoom for "${name}" skipped: ${overzoomError}`)
+          }
+        }
+        sanitizedV1[id] = sanitizeProvider(chart, 1)
+        sanitizedV2[id] = sanitizeProvider(chart, 2)
+      } else {
+        delete chartProviders[id]
+        delete sanitizedV1[id]
+        delete sanitizedV2[id]
+      }
+    }
+    updateProviderQuota(previous, provider)
+    app.setPluginStatus(
+      composeStatus(
+        lastChartPathCounts,
+        Object.keys(activeOnlineProviders).length
+      )
+    )
+  }
+
+  // Moves the quota of a replaced or deleted online provider to its new
+  // config. Tiles cached under a dropped name stay counted against the total
+  // quota until they are evicted.
+  const updateProviderQuota = (
+    previous: ReturnType<typeof convertOnlineProviderConfig> | undefined,
+    next: ReturnType<typeof convertOnlineProviderConfig> | undefined
+  ) => {
+    const quota = ChartDownloader.cacheQuota
+    if (!quota) {
+      // Not tracking yet: the change may have set the first quota.
+      if (next?._cacheQuotaBytes !== undefined) startCacheQuota()
+      return
+    }
+    if (previous?.proxy) quota.setProviderQuota(previous.name, undefined)
+    if (!next?.proxy) return
+    quota.setProviderQuota(next.name, next._cacheQuotaBytes)
+    // Tiles under a name that was already proxied are counted already.
+    if (!previous?.proxy || previous.name !== next.name) {
+      quota
+        .scan(next)
+        .catch((err) =>
+          app.debug(`Cache quota scan failed: ${(err as Error).message}`)
+        )
+    }
+  }
+
+  // Tiles rendered or built from local charts are cached next to the proxied
+  // ones and count toward the total quota and the cache stats.
+  const builtTileCaches = () =>
+    Object.values(chartProviders).flatMap((p) => [
+      ...(props.rasterTiles && p._stylePath ? [rasterCacheProvider(p)] : []),
+      ...(p._nativeMinzoom !== undefined ? [underzoomCacheProvider(p)] : [])
+    ])
+
+  // Only set up when a quota is configured: tracking needs one walk of the
+  // cache and an in-memory entry per cached tile. The walk runs in the
+  // background; eviction starts as soon as it has counted enough.
+  const startCacheQuota = (): void => {
+    ChartDownloader.cacheQuota?.close()
+    ChartDownloader.cacheQuota = undefined
+    const proxied = Object.values(activeOnlineProviders).filter((p) => p.proxy)
+    const totalQuotaBytes = megabytesToBytes(props.cacheQuotaMB)
+    if (
+      totalQuotaBytes === undefined &&
+      !proxied.some((p) => p._cacheQuotaBytes !== undefined)
+    ) {
+      return
+    }
+    const quota = new CacheQuota(cachePath, (name, tile) =>
+      ChartSeedingManager.isSeeded(name, tile)
+    )
+    quota.totalQuotaBytes = totalQuotaBytes
+    for (const p of proxied) quota.setProviderQuota(p.name, p._cacheQuotaBytes)
+    ChartDownloader.cacheQuota = quota
+    const caches = [...proxied, ...builtTileCaches()]
+    Promise.all(caches.map((p) => quota.scan(p))).catch((err) =>
+      app.debug(`Cache quota scan failed: ${(err as Error).message}`)
+    )
+  }
+
+  // Seeding jobs are restored after the providers are loaded because each
+  // persisted job references its provider by identifier.
+  const restoreSeedingJobs = async (): Promise<void> => {
+    try {
+      await ChartSeedingManager.restoreJobs(
+        app.resourcesApi,
+        cachePath,
+        chartProviders,
+        props.resumeSeedingJobs === true
+      )
+    } catch (err) {
+      app.debug(`Failed to restore seeding jobs: ${(err as Error).message}`)
+    }
   }
 
   const loadChartProviders = async (): Promise<void> => {
@@ -417,6 +936,7 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
     }
 
     reconcileMbtilesHandles(chartProviders)
+    localCharts = newCharts
     // Shallow assign is enough: newCharts and activeOnlineProviders both
     // have unique ids per entry; the values themselves are used by reference.
     chartProviders = { ...newCharts }
@@ -429,12 +949,103 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
       }
       chartProviders[id] = provider as ChartProvider
     }
+    for (const config of props.compositeCharts ?? []) {
+      const composite = buildCompositeProvider(config, chartProviders, (msg) =>
+        app.debug(msg)
+      )
+      if (!composite) {
+        app.debug(`Composite chart "${config.name}" has no charts; skipped`)
+        continue
+      }
+      if (chartProviders[composite.identifier]) {
+        app.debug(
+          `Composite chart identifier "${composite.identifier}" collides with another chart; ` +
+            `the composite wins.`
+        )
+      }
+      chartProviders[composite.identifier] = composite
+    }
+    for (const { chart, levels } of props.overzoom ?? []) {
+      const provider = chartProviders[chart]
+      const overzoomError = provider
+        ? enableOverzoom(provider, levels)
+        : 'no such chart'
+      if (overzoomError) {
+        app.debug(`Overzoom for "${chart}" skipped: ${overzoomError}`)
+      }
+    }
+    for (const { chart, levels } of props.underzoom ?? []) {
+      const provider = chartProviders[chart]
+      const underzoomError = provider
+        ? enableUnderzoom(provider, levels)
+        : 'no such chart'
+      if (underzoomError) {
+        app.debug(`Underzoom for "${chart}" skipped: ${underzoomError}`)
+      }
+    }
+    for (const { chart, hours } of props.tileMaxAge ?? []) {
+      const provider = chartProviders[chart]
+      const maxAgeError = provider
+        ? setTileMaxAge(provider, hours)
+        : 'no such chart'
+      if (maxAgeError) {
+        app.debug(`Tile max age for "${chart}" skipped: ${maxAgeError}`)
+      }
+    }
     buildSanitizedCache()
+    releaseStaleRasterRenderers(chartProviders)
     app.setPluginStatus(
       composeStatus(perPath, Object.keys(activeOnlineProviders).length)
     )
   }
 
+  // Tile bytes of a chart the plugin serves itself, whatever its kind; used
+  // where a tile is worked on rather than sent as stored (overzoom).
+  const readProviderTile = async (
+    provider: ChartProvider,
+    z: number,
+    x: number,
+    y: number
+  ): Promise<Buffer | undefined> => {
+    if (provider._compositeOf) {
+      return readCompositeTile(
+        compositeMembersFor(provider, chartProviders, z, x, y),
+        z,
+        x,
+        y
+      )
+    }
+    if (provider.proxy === true) {
+      const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+        cachePath,
+        provider,
+        { z, x, y }
+      )
+      return buffer ?? undefined
+    }
+    return readLocalTile(provider, z, x, y)
+  }
+
+  // [lon, lat] of the vessel, when the server knows it.
+  const vesselPosition = (): [number, number] | undefined => {
+    const position = app.getSelfPath('navigation.position') as
+      | { value?: { longitude?: number; latitude?: number } }
+      | undefined
+    const { longitude, latitude } = position?.value ?? {}
+    return typeof longitude === 'number' &&
+      typeof latitude === 'number' &&
+      !validatePosition(longitude, latitude)
+      ? [longitude, latitude]
+      : undefined
+  }
+
+  // Chart files an underzoom overview is built from: changing one makes
+  // the cached overviews stale.
+  const sourceFilesFor = (provider: ChartProvider): string[] =>
+    provider._compositeOf
+      ? provider._compositeOf.map((id) => chartProviders[id]?._filePath ?? '')
+      : [provider._filePath]
+
   // Rebuilds the per-version sanitized views. Called once per reload so the
   // HTTP handlers can hand out pre-built dictionaries instead of deep-cloning
   // every provider on every metadata request.
@@ -453,28 +1064,46 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
   // new content). Reusing the old handle in that case would serve stale tiles
   // from SQLite's cached pages. Close is delayed so an in-flight tile request
   // that captured a reference has time to complete before the handle goes
-  // away; 1s is well above realistic tile-serve latency.
+  // away; 1s is well above realistic tile-serve latency. Resolves once the
+  // handles are closed, for callers that go on to remove the files.
   const MBTILES_CLOSE_DELAY_MS = 1000
   const reconcileMbtilesHandles = (oldSet: {
     [key: string]: ChartProvider
-  }) => {
-    for (const old of Object.values(oldSet)) {
-      if (old?._mbtilesHandle) {
-        const handle = old._mbtilesHandle
-        setTimeout(() => closeMbtilesHandle(handle), MBTILES_CLOSE_DELAY_MS)
+  }): Promise<void> =>
+    Promise.all(
+      Object.values(oldSet).map((old) => {
+        const handle = old?._mbtilesHandle
+        if (!handle) return undefined
+        return new Promise<void>((resolve) =>
+          setTimeout(
+            () => closeMbtilesHandle(handle).then(resolve),
+            MBTILES_CLOSE_DELAY_MS
+          )
+        )
+      })
+    ).then(() => undefined)
+
+  const closeMbtilesHandle = (handle: MBTilesHandle): Promise<void> =>
+    new Promise((resolve) => {
+      if (typeof handle?.close !== 'function') return resolve()
+      try {
+        handle.close((err) => {
+          if (err) app.debug(`MBTiles close error: ${err.message}`)
+          resolve()
+        })
+      } catch (err) {
+        app.debug(`MBTiles close threw: ${(err as Error).message}`)
+        resolve()
       }
-    }
-  }
+    })
 
-  const closeMbtilesHandle = (handle: MBTilesHandle) => {
-    if (typeof handle?.close !== 'function') return
-    try {
-      handle.close((err) => {
-        if (err) app.debug(`MBTiles close error: ${err.message}`)
-      })
-    } catch (err) {
-      app.debug(`MBTiles close threw: ${(err as Error).message}`)
-    }
+  // Takes a local chart out of service before its files are changed: it
+  // stops being served at once, and its MBTiles handle is closed the same
+  // delayed way as on a reload.
+  const releaseLocalChart = async (provider: ChartProvider): Promise<void> => {
+    delete chartProviders[provider.identifier]
+    buildSanitizedCache()
+    await reconcileMbtilesHandles({ [provider.identifier]: provider })
   }
 
   // Chart folders are watched so new/renamed/deleted files become visible
@@ -545,6 +1174,218 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
   const registerRoutes = () => {
     app.debug('** Registering API paths **')
 
+    app.get(`${chartTilesPath}/query`, async (req: Request, res: Response) => {
+      const { lat, lon, zoom } = req.query
+      if (lat === undefined || lon === undefined) {
+        return res.status(400).send('lat and lon parameters are required')
+      }
+      const positionError = validatePosition(Number(lon), Number(lat))
+      if (positionError) {
+        return res.status(400).send(positionError)
+      }
+      const zoomParsed = zoom === undefined ? undefined : Number(zoom)
+      if (zoomParsed !== undefined) {
+        const zoomError = validateTileCoords(zoomParsed, 0, 0)
+        if (zoomError) {
+          return res.status(400).send(zoomError)
+        }
+      }
+      try {
+        const matches = await chartsAtPosition(
+          chartProviders,
+          Number(lon),
+          Number(lat),
+          zoomParsed
+        )
+        return res.json(
+          matches.map(({ provider, zoomFits, coverage }) => ({
+            ...sanitizedV2[provider.identifier],
+            zoomFits,
+            coverage
+          }))
+        )
+      } catch (err) {
+        console.error('Error querying charts by position:', err)
+        return res.status(500).send('Charts could not be queried')
+      }
+    })
+
+    app.get(
+      `${chartTilesPath}/:identifier/tilejson.json`,
+      (req: Request<{ identifier: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!provider) {
+          return res.sendStatus(404)
+        }
+        // Absolute URLs from the request's own host, so the document works
+        // for clients on other devices (a Host of localhost wouldn't).
+        const tileUrl = tileUrlTemplate(
+          provider,
+          `${req.protocol}://${req.get('host')}`,
+          chartTilesPath
+        )
+        if (!tileUrl) {
+          return res
+            .status(404)
+            .send(`Chart ${provider.identifier} is not an XYZ tile layer`)
+        }
+        return res.json(buildTileJson(provider, tileUrl))
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/:identifier/metadata.json`,
+      (req: Request<{ identifier: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!provider) {
+          return res.sendStatus(404)
+        }
+        return res.json(buildChartMetadata(provider))
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/:identifier/coverage.geojson`,
+      async (req: Request<{ identifier: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!provider?._fileFormat && !provider?._compositeOf) {
+          return res.sendStatus(404)
+        }
+        if (req.query.zoom !== undefined) {
+          const zoomError = validateCoverageZoom(
+            provider,
+            Number(req.query.zoom)
+          )
+          if (zoomError) {
+            return res.status(400).send(zoomError)
+          }
+        }
+        try {
+          const zoom =
+            req.query.zoom === undefined
+              ? await coverageZoom(provider, chartProviders)
+              : Number(req.query.zoom)
+          const feature = await chartCoverage(provider, chartProviders, zoom)
+          res.set('Content-Type', 'application/geo+json')
+          return res.json({ type: 'FeatureCollection', features: [feature] })
+        } catch (err) {
+          console.error(
+            `Error computing coverage of chart ${provider.identifier}:`,
+            (err as Error).message
+          )
+          return res.status(500).send('Chart coverage could not be computed')
+        }
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/:identifier/style.json`,
+      async (req: Request<{ identifier: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!provider?._stylePath) {
+          return res.sendStatus(404)
+        }
+        try {
+          const style = await readChartStyle(
+            provider,
+            `${req.protocol}://${req.get('host')}${chartTilesPath}/${provider.identifier}`
+          )
+          return res.json(style)
+        } catch (err) {
+          console.error(
+            `Error reading style for chart ${provider.identifier}:`,
+            (err as Error).message
+          )
+          return res.status(500).send('Chart style could not be read')
+        }
+      }
+    )
+
+    // Registered before the tile route: /:identifier/fonts/:fontstack/:range
+    // has as many segments as /:identifier/:z/:x/:y.
+    const sendStyleAsset = async (
+      res: Response,
+      paths: string[],
+      type: string
+    ) => {
+      try {
+        const data = await readFirstFile(paths)
+        if (!data) {
+          return res.sendStatus(404)
+        }
+        return res.type(type).send(data)
+      } catch (err) {
+        console.error(`Error reading ${paths[0]}:`, (err as Error).message)
+        return res.sendStatus(500)
+      }
+    }
+
+    app.get(
+      `${chartTilesPath}/:identifier/sprites/:file`,
+      (req: Request<{ identifier: string; file: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        const file = provider && spriteFilePath(provider, req.params.file)
+        if (!file) {
+          return res.sendStatus(404)
+        }
+        return sendStyleAsset(res, [file], path.extname(file))
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/:identifier/fonts/:fontstack/:range`,
+      (
+        req: Request<{ identifier: string; fontstack: string; range: string }>,
+        res: Response
+      ) => {
+        const provider = chartProviders[req.params.identifier]
+        const files = provider
+          ? glyphFilePaths(provider, req.params.fontstack, req.params.range)
+          : []
+        if (files.length === 0) {
+          return res.sendStatus(404)
+        }
+        return sendStyleAsset(res, files, 'application/x-protobuf')
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/:identifier/raster/:z/:x/:y.png`,
+      async (
+        req: Request<{ identifier: string; z: string; x: string; y: string }>,
+        res: Response
+      ) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!props.rasterTiles || !provider?._stylePath) {
+          return res.sendStatus(404)
+        }
+        const tile = {
+          z: parseInt(req.params.z),
+          x: parseInt(req.params.x),
+          y: parseInt(req.params.y)
+        }
+        const coordError = validateTileCoords(tile.z, tile.x, tile.y)
+        if (coordError) {
+          return res.status(400).send(coordError)
+        }
+        if (!(await rasterRendererAvailable())) {
+          return res
+            .status(501)
+            .send('Raster rendering needs @maplibre/maplibre-gl-native')
+        }
+        try {
+          const png = await loadRasterTile(cachePath, provider, tile)
+          return sendTile(req, res, provider, png)
+        } catch (err) {
+          console.error(
+            `Error rendering tile ${provider.identifier}/${tile.z}/${tile.x}/${tile.y}:`,
+            err
+          )
+          if (!res.headersSent) res.sendStatus(500)
+        }
+      }
+    )
+
     app.get(
       `${chartTilesPath}/:identifier/:z/:x/:y`,
       async (
@@ -566,8 +1407,47 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
         if (!provider) {
           return res.sendStatus(404)
         }
-        if (provider.proxy === true) {
+        if (isOverzoomTile(provider, iz)) {
+          return serveOverzoomTile(
+            req,
+            res,
+            provider,
+            (z, x, y) => readProviderTile(provider, z, x, y),
+            iz,
+            ix,
+            iy
+          )
+        } else if (isUnderzoomTile(provider, iz)) {
+          try {
+            const png = await loadUnderzoomTile(
+              cachePath,
+              provider,
+              (z, x, y) => readProviderTile(provider, z, x, y),
+              sourceFilesFor(provider),
+              { z: iz, x: ix, y: iy }
+            )
+            if (!png) return res.sendStatus(404)
+            return sendTile(req, res, provider, png)
+          } catch (err) {
+            console.error(
+              `Error building overview tile ${provider.identifier}/${iz}/${ix}/${iy}:`,
+              err
+            )
+            if (!res.headersSent) res.sendStatus(500)
+          }
+        } else if (provider._compositeOf) {
+          return serveTileFromComposite(
+            req,
+            res,
+            provider,
+            compositeMembersFor(provider, chartProviders, iz, ix, iy),
+            iz,
+            ix,
+            iy
+          )
+        } else if (provider.proxy === true) {
           return serveTileFromCacheOrRemote(
+            req,
             res,
             cachePath,
             provider,
@@ -578,9 +1458,9 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
         } else {
           switch (provider._fileFormat) {
             case 'directory':
-              return serveTileFromFilesystem(res, provider, iz, ix, iy)
+              return serveTileFromFilesystem(req, res, provider, iz, ix, iy)
             case 'mbtiles':
-              return serveTileFromMbtiles(res, provider, iz, ix, iy)
+              return serveTileFromMbtiles(req, res, provider, iz, ix, iy)
             default:
               app.debug(
                 `Unknown chart provider fileformat ${provider._fileFormat}`
@@ -598,17 +1478,20 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
         if (!identifier) {
           return res.sendStatus(404)
         }
-        const { regionGUID, tile, bbox, maxZoom } = req.body as {
-          regionGUID?: string
-          tile?: Tile // query params come in as strings
-          bbox?: {
-            minLon: number
-            minLat: number
-            maxLon: number
-            maxLat: number
+        const { regionGUID, tile, bbox, maxZoom, concurrency, timeoutMs } =
+          req.body as {
+            regionGUID?: string
+            tile?: Tile // query params come in as strings
+            bbox?: {
+              minLon: number
+              minLat: number
+              maxLon: number
+              maxLat: number
+            }
+            maxZoom?: string
+            concurrency?: string
+            timeoutMs?: string
           }
-          maxZoom?: string
-        }
         const provider = chartProviders[identifier]
         if (!provider) {
           return res.status(404).send('Provider not found')
@@ -638,6 +1521,23 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
             return res.status(400).send(tileError)
           }
         }
+        // Optional per-job overrides; absent values fall back to the
+        // provider config and then the built-in defaults.
+        const options: DownloadOptions = {}
+        if (concurrency !== undefined) {
+          options.concurrency = Number(concurrency)
+          const concurrencyError = validateConcurrency(options.concurrency)
+          if (concurrencyError) {
+            return res.status(400).send(concurrencyError)
+          }
+        }
+        if (timeoutMs !== undefined) {
+          options.timeoutMs = Number(timeoutMs)
+          const timeoutError = validateRequestTimeout(options.timeoutMs)
+          if (timeoutError) {
+            return res.status(400).send(timeoutError)
+          }
+        }
         try {
           const job = await ChartSeedingManager.createJob(
             app.resourcesApi,
@@ -648,7 +1548,8 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
             bbox
               ? [bbox.minLon, bbox.minLat, bbox.maxLon, bbox.maxLat]
               : undefined,
-            tile
+            tile,
+            options
           )
           // Job is registered and its tile set is known, but nothing has been
           // downloaded yet — the caller starts it with
@@ -669,6 +1570,53 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
       return res.status(200).json(jobs)
     })
 
+    // Stats are recomputed at most once a minute per provider; see cacheStats.
+    app.get(
+      `${chartTilesPath}/cache/stats`,
+      async (_req: Request, res: Response) => {
+        const caches = [
+          ...Object.values(chartProviders).filter((p) => p.proxy),
+          ...builtTileCaches().map((c) => ({ identifier: c.name, ...c }))
+        ]
+        try {
+          const all = await Promise.all(
+            caches.map((p) => cacheStatsFor(cachePath, p))
+          )
+          const providers: { [identifier: string]: unknown } = {}
+          for (const stats of all) providers[stats.identifier] = stats
+          return res.status(200).json({
+            tiles: all.reduce((sum, s) => sum + s.tiles, 0),
+            bytes: all.reduce((sum, s) => sum + s.bytes, 0),
+            providers
+          })
+        } catch (err) {
+          return res
+            .status(500)
+            .send(`Failed to read cache stats: ${(err as Error).message}`)
+        }
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/cache/stats/:identifier`,
+      async (req: Request<{ identifier: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!provider) {
+          return res.status(404).send('Provider not found')
+        }
+        if (!provider.proxy) {
+          return res.status(400).send('Provider is not proxied')
+        }
+        try {
+          return res.status(200).json(await cacheStatsFor(cachePath, provider))
+        } catch (err) {
+          return res
+            .status(500)
+            .send(`Failed to read cache stats: ${(err as Error).message}`)
+        }
+      }
+    )
+
     app.post(
       `${chartTilesPath}/cache/jobs/:id`,
       (req: Request<{ id: string }>, res: Response) => {
@@ -692,14 +1640,355 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
           job.seedCache()
         } else if (action === 'stop') {
           job.cancelJob()
+        } else if (action === 'pause') {
+          if (!job.pauseJob()) {
+            return res.status(409).send(`Job ${parsedId} is not running`)
+          }
+        } else if (action === 'resume') {
+          if (!job.resumeJob()) {
+            return res.status(409).send(`Job ${parsedId} is not paused`)
+          }
+        } else if (action === 'retry') {
+          if (!job.retryFailedTiles()) {
+            return res
+              .status(409)
+              .send(`Job ${parsedId} is not stopped or has no failed tiles`)
+          }
         } else if (action === 'delete') {
           job.deleteCache()
         } else if (action === 'remove') {
-          delete ChartSeedingManager.ActiveJobs[parsedId]
+          ChartSeedingManager.removeJob(parsedId)
         } else {
           return res.status(400).send(`Unknown action: ${action}`)
         }
-        return res.status(200).send(`Job ${parsedId} ${action}ed`)
+        return res
+          .status(200)
+          .send(`Job ${parsedId} ${JOB_ACTION_DONE[action] ?? action}`)
+      }
+    )
+
+    app.post(
+      `${chartTilesPath}/cache/:identifier/export`,
+      async (req: Request<{ identifier: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!provider) {
+          return res.status(404).send('Provider not found')
+        }
+        if (!provider.proxy) {
+          return res.status(400).send('Provider is not proxied')
+        }
+        const { filename, chartPath, name, regionGUID, bbox, tile } =
+          req.body as {
+            filename?: string
+            chartPath?: string
+            name?: string
+            regionGUID?: string
+            bbox?: {
+              minLon: number
+              minLat: number
+              maxLon: number
+              maxLat: number
+            }
+            tile?: Tile
+            minZoom?: string
+            maxZoom?: string
+          }
+        const normalized = normalizeExportFilename(
+          filename || `${provider.identifier}-cache`
+        )
+        if ('error' in normalized) {
+          return res.status(400).send(normalized.error)
+        }
+        // Exports go into a configured chart path so findCharts serves them;
+        // anywhere else on disk is off limits.
+        const targetDir = chartPath
+          ? activeChartPaths.find(
+              (p) => p === path.resolve(configBasePath, chartPath)
+            )
+          : activeChartPaths[0]
+        if (!targetDir) {
+          return res
+            .status(400)
+            .send(`chartPath must be one of: ${activeChartPaths.join(', ')}`)
+        }
+        const request: ExportRequest = { name }
+        for (const key of ['minZoom', 'maxZoom'] as const) {
+          const value = (req.body as { [k: string]: string | undefined })[key]
+          if (value === undefined) continue
+          request[key] = parseInt(value)
+          const zoomError = validateMaxZoom(request[key]!)
+          if (zoomError) {
+            return res.status(400).send(`${key}: ${zoomError}`)
+          }
+        }
+        if (
+          request.minZoom !== undefined &&
+          request.maxZoom !== undefined &&
+          request.minZoom > request.maxZoom
+        ) {
+          return res.status(400).send('minZoom must not exceed maxZoom')
+        }
+        if (regionGUID) {
+          request.area = { type: 'region', regionGUID }
+        } else if (bbox) {
+          const bboxError = validateBBox(bbox)
+          if (bboxError) {
+            return res.status(400).send(bboxError)
+          }
+          request.area = {
+            type: 'bbox',
+            bbox: [bbox.minLon, bbox.minLat, bbox.maxLon, bbox.maxLat]
+          }
+        } else if (tile) {
+          const tileError = validateTileCoords(tile.z, tile.x, tile.y)
+          if (tileError) {
+            return res.status(400).send(tileError)
+          }
+          request.area = { type: 'tile', tile }
+        }
+        const outputPath = path.join(targetDir, normalized.filename)
+        const exists = await fs.promises.access(outputPath).then(
+          () => true,
+          () => false
+        )
+        if (exists || ChartExportManager.isWriting(outputPath)) {
+          return res.status(409).send(`${normalized.filename} already exists`)
+        }
+        const job = ChartExportManager.createJob(
+          app.resourcesApi,
+          cachePath,
+          provider,
+          outputPath,
+          request
+        )
+        return res.status(202).json(job.info())
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/cache/exports`,
+      (_req: Request, res: Response) => {
+        return res
+          .status(200)
+          .json(
+            Object.values(ChartExportManager.ActiveJobs).map((job) =>
+              job.info()
+            )
+          )
+      }
+    )
+
+    app.post(
+      `${chartTilesPath}/cache/:identifier/overviews`,
+      (req: Request<{ identifier: string }>, res: Response) => {
+        const provider = chartProviders[req.params.identifier]
+        if (!provider) {
+          return res.status(404).send('Provider not found')
+        }
+        if (provider._nativeMinzoom === undefined) {
+          return res.status(400).send('Underzoom is not enabled for the chart')
+        }
+        if (!provider.bounds) {
+          return res.status(400).send('The chart has no bounds')
+        }
+        if (OverviewJobManager.isBuilding(provider.identifier)) {
+          return res.status(409).send('Overviews are already being built')
+        }
+        const job = OverviewJobManager.createJob(
+          cachePath,
+          provider,
+          (z, x, y) => readProviderTile(provider, z, x, y),
+          sourceFilesFor(provider)
+        )
+        return res.status(202).json(job.info())
+      }
+    )
+
+    app.get(
+      `${chartTilesPath}/cache/overviews`,
+      (_req: Request, res: Response) => {
+        return res
+          .status(200)
+          .json(
+            Object.values(OverviewJobManager.ActiveJobs).map((job) =>
+              job.info()
+            )
+          )
+      }
+    )
+
+    app.post(
+      `${chartTilesPath}/upload`,
+      async (req: Request, res: Response) => {
+        const { filename, chartPath } = req.query as {
+          filename?: string
+          chartPath?: string
+        }
+        // Uploads go into a configured chart path, like exports.
+        const targetDir = chartPath
+          ? activeChartPaths.find(
+              (p) => p === path.resolve(configBasePath, chartPath)
+            )
+          : activeChartPaths[0]
+        if (!targetDir) {
+          return res
+            .status(400)
+            .send(`chartPath must be one of: ${activeChartPaths.join(', ')}`)
+        }
+        if (isReadOnlyPath(readOnlyChartPaths, targetDir)) {
+          return res.status(403).send(`${targetDir} is read-only`)
+        }
+        const contentLength = req.headers['content-length']
+        try {
+          const result = await storeChartUpload(req, {
+            chartDir: targetDir,
+            filename,
+            contentType: req.headers['content-type'],
+            contentLength: contentLength ? Number(contentLength) : undefined,
+            maxBytes:
+              megabytesToBytes(props.uploadLimitMB) ??
+              megabytesToBytes(DEFAULT_UPLOAD_LIMIT_MB)!
+          })
+          if ('error' in result) {
+            return res.status(result.status).send(result.error)
+          }
+          app.debug(`Chart uploaded to ${result.path}`)
+          // Served right away rather than after the watcher's debounce.
+          await loadChartProviders()
+          return res
+            .status(201)
+            .json({ identifier: result.identifier, chartPath: targetDir })
+        } catch (err) {
+          console.error('Error storing chart upload:', err)
+          return res.status(500).send('Upload failed')
+        }
+      }
+    )
+
+    // The local chart behind an identifier and the chart path holding it, or
+    // the HTTP status and message for charts the API can't change.
+    const changeableChart = (
+      identifier: string
+    ):
+      | { provider: ChartProvider; chartPath: string }
+      | { status: number; error: string } => {
+      const provider = chartProviders[identifier]
+      if (!provider) {
+        return { status: 404, error: 'Chart not found' }
+      }
+      const chartPath = provider._fileFormat
+        ? activeChartPaths.find((p) => isInsidePath(p, provider._filePath))
+        : undefined
+      if (!chartPath) {
+        return { status: 400, error: `${identifier} is not a local chart` }
+      }
+      if (isReadOnlyPath(readOnlyChartPaths, provider._filePath)) {
+        return {
+          status: 403,
+          error: `${identifier} is in a read-only chart path`
+        }
+      }
+      return { provider, chartPath }
+    }
+
+    app.delete(
+      `${chartTilesPath}/charts/:identifier`,
+      async (req: Request<{ identifier: string }>, res: Response) => {
+        const chart = changeableChart(req.params.identifier)
+        if ('error' in chart) {
+          return res.status(chart.status).send(chart.error)
+        }
+        // The chart is reloaded from disk either way: after a failed delete
+        // whatever is left of it is served again.
+        let failed = false
+        try {
+          await releaseLocalChart(chart.provider)
+          await removeChartFiles(chart.provider)
+          app.debug(`Deleted chart ${chart.provider._filePath}`)
+        } catch (err) {
+          console.error(`Error deleting chart ${req.params.identifier}:`, err)
+          failed = true
+        }
+        await loadChartProviders()
+        return failed
+          ? res.status(500).send('Delete failed')
+          : res.sendStatus(204)
+      }
+    )
+
+    // Renames a local chart, moves it to another chart path, or both.
+    app.post(
+      `${chartTilesPath}/charts/:identifier/move`,
+      async (req: Request<{ identifier: string }>, res: Response) => {
+        const { identifier, chartPath } = (req.body ?? {}) as {
+          identifier?: string
+          chartPath?: string
+        }
+        if (identifier === undefined && chartPath === undefined) {
+          return res.status(400).send('Give a new identifier or chartPath')
+        }
+        const newIdentifier = identifier ?? req.params.identifier
+        const identifierError = validateChartIdentifier(newIdentifier)
+        if (identifierError) {
+          return res.status(400).send(identifierError)
+        }
+        const chart = changeableChart(req.params.identifier)
+        if ('error' in chart) {
+          return res.status(chart.status).send(chart.error)
+        }
+        const targetChartPath = chartPath
+          ? activeChartPaths.find(
+              (p) => p === path.resolve(configBasePath, chartPath)
+            )
+          : chart.chartPath
+        if (!targetChartPath) {
+          return res
+            .status(400)
+            .send(`chartPath must be one of: ${activeChartPaths.join(', ')}`)
+        }
+        // A rename keeps the chart in its folder, nested ones included.
+        const targetDir = chartPath
+          ? targetChartPath
+          : path.dirname(chart.provider._filePath)
+        if (isReadOnlyPath(readOnlyChartPaths, targetDir)) {
+          return res.status(403).send(`${targetDir} is read-only`)
+        }
+        const moves = chartFileMoves(chart.provider, targetDir, newIdentifier)
+        if (moves.every(({ from, to }) => from === to)) {
+          return res.status(400).send('Chart is already there')
+        }
+        const targetsTaken = await Promise.all(
+          moves
+            .filter(({ from, to }) => from !== to)
+            .map(({ to }) =>
+              fs.promises.access(to).then(
+                () => true,
+                () => false
+              )
+            )
+        )
+        if (
+          targetsTaken.includes(true) ||
+          (newIdentifier !== chart.provider.identifier &&
+            chartProviders[newIdentifier])
+        ) {
+          return res.status(409).send(`${newIdentifier} already exists`)
+        }
+        let failed = false
+        try {
+          await releaseLocalChart(chart.provider)
+          await moveChartFiles(moves)
+          app.debug(
+            `Moved chart ${chart.provider._filePath} to ${moves[0]!.to}`
+          )
+        } catch (err) {
+          console.error(`Error moving chart ${req.params.identifier}:`, err)
+          failed = true
+        }
+        await loadChartProviders()
+        return failed
+          ? res.status(500).send('Move failed')
+          : res.json({ identifier: newIdentifier, chartPath: targetChartPath })
       }
     )
 
@@ -733,11 +2022,31 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
       app.registerResourceProvider({
         type: 'charts',
         methods: {
-          listResources: (params: {
+          listResources: async (params: {
             [key: string]: number | string | object | null
           }) => {
-            app.debug(`** listResources() ${params}`)
-            return Promise.resolve(sanitizedV2)
+            app.debug(`** listResources() ${JSON.stringify(params)}`)
+            const parsed = parseChartQuery(params)
+            if ('error' in parsed) {
+              throw new Error(parsed.error)
+            }
+            const { query } = parsed
+            // As for other resources, a distance without a position is
+            // measured from the vessel.
+            if (query.distance !== undefined && !query.position) {
+              query.position = vesselPosition()
+              if (!query.position) {
+                throw new Error(
+                  'distance needs a position; vessel position unknown'
+                )
+              }
+            }
+            const found = await queryCharts(chartProviders, query)
+            return Object.fromEntries(
+              found
+                .filter(({ identifier }) => sanitizedV2[identifier])
+                .map(({ identifier }) => [identifier, sanitizedV2[identifier]])
+            )
           },
           getResource: (id: string) => {
             app.debug(`** getResource() ${id}`)
@@ -748,12 +2057,38 @@ const createPlugin = (app: ChartProviderApp): Plugin => {
               throw new Error('Chart not found!')
             }
           },
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          setResource: (id: string, value: any) => {
-            throw new Error(`Not implemented!\n Cannot set ${id} to ${value}`)
+          // Creates or replaces an online chart provider. Local charts come
+          // from the chart folders and can't be written here.
+          setResource: async (id: string, value: Record<string, unknown>) => {
+            app.debug(`** setResource() ${id}`)
+            const error = validateOnlineProviderConfig(value)
+            if (error) {
+              throw new Error(error)
+            }
+            if (chartProviders[id] && !activeOnlineProviders[id]) {
+              throw new Error(`Chart ${id} is not an online chart provider`)
+            }
+            const config = onlineProviderConfig(id, value)
+            await updateOnlineProvider(id, (configs) =>
+              configs.some((c) => onlineProviderIdentifier(c) === id)
+                ? configs.map((c) =>
+                    onlineProviderIdentifier(c) === id ? config : c
+                  )
+                : [...configs, config]
+            )
           },
-          deleteResource: (id: string) => {
-            throw new Error(`Not implemented!\n Cannot delete ${id}`)
+          deleteResource: async (id: string) => {
+            app.debug(`** deleteResource() ${id}`)
+            if (!activeOnlineProviders[id]) {
+              throw new Error(
+                chartProviders[id]
+                  ? `Chart ${id} is not an online chart provider`
+                  : 'Chart not found!'
+              )
+            }
+            await updateOnlineProvider(id, (configs) =>
+              configs.filter((c) => onlineProviderIdentifier(c) !== id)
+            )
           }
         }
       })
@@ -781,8 +2116,159 @@ const resolveUniqueChartPaths = (
   return [...new Set(paths)]
 }
 
+// Fills in defaults for a partially configured retry policy and clamps each
+// value to a sane range, so a stray negative or non-numeric entry from the
+// admin UI can't produce a busy loop.
+const parseRetryPolicy = (
+  config: Partial<RetryPolicy> | undefined
+): RetryPolicy => {
+  const pick = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? Math.min(Math.max(min, Math.floor(value)), max)
+      : fallback
+  return {
+    maxAttempts: pick(
+      config?.maxAttempts,
+      DEFAULT_RETRY_POLICY.maxAttempts,
+      1,
+      MAX_RETRY_ATTEMPTS
+    ),
+    baseDelayMs: pick(
+      config?.baseDelayMs,
+      DEFAULT_RETRY_POLICY.baseDelayMs,
+      0,
+      Number.MAX_SAFE_INTEGER
+    ),
+    maxDelayMs: pick(
+      config?.maxDelayMs,
+      DEFAULT_RETRY_POLICY.maxDelayMs,
+      0,
+      Number.MAX_SAFE_INTEGER
+    )
+  }
+}
+
+const onlineProviderIdentifier = (provider: OnlineChartProvider): string =>
+  provider.identifier || _.kebabCase(_.deburr(provider.name))
+
+// Checks an online provider written through the resources API against the
+// config schema, since it doesn't pass through the admin UI's form.
+// Returns an error message, or undefined when the provider is valid.
+const validateOnlineProviderConfig = (
+  value: Record<string, unknown>
+): string | undefined => {
+  if (!value || typeof value !== 'object') return 'Provider must be an object'
+  const { name, url, minzoom, maxzoom } = value
+  if (typeof name !== 'string' || !_.kebabCase(_.deburr(name))) {
+    return 'Provider needs a name'
+  }
+  if (typeof url !== 'string' || !url) return 'Provider needs a url'
+  for (const [key, zoom] of Object.entries({ minzoom, maxzoom })) {
+    if (
+      typeof zoom !== 'number' ||
+      !Number.isInteger(zoom) ||
+      zoom < MIN_ZOOM ||
+      zoom > MAX_ZOOM
+    ) {
+      return `Invalid ${key} ${zoom} (must be an integer in [${MIN_ZOOM}, ${MAX_ZOOM}])`
+    }
+  }
+  if ((minzoom as number) > (maxzoom as number)) {
+    return `minzoom ${minzoom} is above maxzoom ${maxzoom}`
+  }
+  if (!ONLINE_FORMATS.includes(value.format as string)) {
+    return `Invalid format ${value.format} (must be one of ${ONLINE_FORMATS.join(', ')})`
+  }
+  if (
+    value.serverType !== undefined &&
+    !SERVER_TYPES.includes(value.serverType as string)
+  ) {
+    return `Invalid serverType ${value.serverType} (must be one of ${SERVER_TYPES.join(', ')})`
+  }
+  for (const key of ['description', 'style']) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') {
+      return `Invalid ${key}: must be a string`
+    }
+  }
+  if (value.proxy !== undefined && typeof value.proxy !== 'boolean') {
+    return 'Invalid proxy: must be true or false'
+  }
+  for (const key of ['headers', 'layers']) {
+    const list = value[key]
+    if (
+      list !== undefined &&
+      (!Array.isArray(list) || list.some((item) => typeof item !== 'string'))
+    ) {
+      return `Invalid ${key}: must be a list of strings`
+    }
+  }
+  for (const key of [
+    'maxRequestsPerSecond',
+    'cacheMaxAgeDays',
+    'cacheQuotaMB',
+    'tileMaxAgeHours'
+  ]) {
+    const number = value[key]
+    if (
+      number !== undefined &&
+      (typeof number !== 'number' || !Number.isFinite(number) || number < 0)
+    ) {
+      return `Invalid ${key} ${number} (must be a number of 0 or more)`
+    }
+  }
+  if (value.concurrentDownloads !== undefined) {
+    const concurrencyError = validateConcurrency(
+      value.concurrentDownloads as number
+    )
+    if (concurrencyError) return concurrencyError
+  }
+  if (value.requestTimeoutMs !== undefined) {
+    const timeoutError = validateRequestTimeout(
+      value.requestTimeoutMs as number
+    )
+    if (timeoutError) return timeoutError
+  }
+  return undefined
+}
+
+const ONLINE_PROVIDER_FIELDS = [
+  'name',
+  'description',
+  'minzoom',
+  'maxzoom',
+  'serverType',
+  'format',
+  'url',
+  'proxy',
+  'maxRequestsPerSecond',
+  'concurrentDownloads',
+  'requestTimeoutMs',
+  'cacheMaxAgeDays',
+  'cacheQuotaMB',
+  'tileMaxAgeHours',
+  'headers',
+  'style',
+  'layers'
+]
+
+// The config entry saved for a validated provider: the config fields only,
+// so a resource copied from GET doesn't store its derived fields. The id is
+// kept when the name doesn't give it (POST, where the server picks the id).
+const onlineProviderConfig = (
+  id: string,
+  value: Record<string, unknown>
+): OnlineChartProvider => {
+  const config = _.pick(
+    value,
+    ONLINE_PROVIDER_FIELDS
+  ) as unknown as OnlineChartProvider
+  return onlineProviderIdentifier(config) === id
+    ? config
+    : { identifier: id, ...config }
+}
+
 const convertOnlineProviderConfig = (provider: OnlineChartProvider) => {
-  const id = _.kebabCase(_.deburr(provider.name))
+  const id = onlineProviderIdentifier(provider)
 
   const parseHeaders = (
     arr: string[] | undefined
@@ -826,7 +2312,33 @@ const convertOnlineProviderConfig = (provider: OnlineChartProvider) => {
     },
     proxy: provider.proxy ? provider.proxy : false,
     remoteUrl: provider.proxy ? provider.url : null,
-    headers: parseHeaders(provider.headers)
+    headers: parseHeaders(provider.headers),
+    _maxRequestsPerSecond:
+      typeof provider.maxRequestsPerSecond === 'number' &&
+      provider.maxRequestsPerSecond > 0
+        ? provider.maxRequestsPerSecond
+        : undefined,
+    _concurrentDownloads:
+      typeof provider.concurrentDownloads === 'number' &&
+      !validateConcurrency(provider.concurrentDownloads)
+        ? provider.concurrentDownloads
+        : undefined,
+    _requestTimeoutMs:
+      typeof provider.requestTimeoutMs === 'number' &&
+      !validateRequestTimeout(provider.requestTimeoutMs)
+        ? provider.requestTimeoutMs
+        : undefined,
+    _cacheMaxAgeMs:
+      typeof provider.cacheMaxAgeDays === 'number' &&
+      provider.cacheMaxAgeDays > 0
+        ? provider.cacheMaxAgeDays * 24 * 60 * 60 * 1000
+        : undefined,
+    _cacheQuotaBytes: megabytesToBytes(provider.cacheQuotaMB),
+    _tileMaxAgeSeconds:
+      typeof provider.tileMaxAgeHours === 'number' &&
+      provider.tileMaxAgeHours >= 0
+        ? Math.round(provider.tileMaxAgeHours * 60 * 60)
+        : undefined
   }
   return data
 }
@@ -851,6 +2363,11 @@ const sanitizeProvider = (
       out[key] = value
     }
   }
+  // Styles the plugin serves itself (local vector charts) use the same
+  // placeholder in either version.
+  if (typeof out.style === 'string') {
+    out.style = out.style.replace('~tilePath~', chartTilesPath)
+  }
   if (version === 1 && typeof out.tilemapUrl === 'string') {
     out.tilemapUrl = out.tilemapUrl.replace('~tilePath~', chartTilesPath)
   } else if (version === 2 && typeof out.url === 'string') {
@@ -0,0 +1,278 @@
+// Just enough PNG for the plugin to work on raster tiles itself: decoding,
+// encoding, and cropping a tile for overzoom. Pure JS on purpose: png is
+// the common chart format, and it keeps working where the native image
+// library imageScale.ts uses for JPEG and WebP isn't available.
+
+import zlib from 'zlib'
+
+// Straight (not premultiplied) 8-bit RGBA pixels, row by row.
+export interface RgbaImage {
+  width: number
+  height: number
+  pixels: Uint8Array
+}
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a
+])
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const head = Buffer.alloc(4)
+  head.writeUInt32BE(data.length)
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(zlib.crc32(body))
+  return Buffer.concat([head, body, crc])
+}
+
+// Writes an 8-bit RGBA PNG.
+export const encodePng = ({ width, height, pixels }: RgbaImage): Buffer => {
+  const stride = width * 4
+  // Each scanline starts with its filter type, 0 (none).
+  const raw = Buffer.alloc((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 6 // colour type: RGBA
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ])
+}
+
+// Channels per pixel of each PNG colour type: grey, RGB, palette index,
+// grey + alpha, RGBA.
+const CHANNELS: { [colourType: number]: number } = {
+  0: 1,
+  2: 3,
+  3: 1,
+  4: 2,
+  6: 4
+}
+
+// The Paeth predictor of PNG filter type 4.
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+// Reads a PNG into RGBA pixels. Handles every colour type and bit depth
+// tile writers use; returns undefined for interlaced images, which tiles
+// practically never are, and for anything that isn't a valid PNG.
+export const decodePng = (data: Buffer): RgbaImage | undefined => {
+  if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return undefined
+  }
+  let width = 0
+  let height = 0
+  let depth = 0
+  let colourType = 0
+  let interlaced = false
+  let palette: Buffer | undefined
+  let transparency: Buffer | undefined
+  const idat: Buffer[] = []
+  for (let at = 8; at + 8 <= data.length; ) {
+    const length = data.readUInt32BE(at)
+    const type = data.toString('ascii', at + 4, at + 8)
+    const body = data.subarray(at + 8, at + 8 + length)
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0)
+      height = body.readUInt32BE(4)
+      depth = body[8]!
+      colourType = body[9]!
+      interlaced = body[12] !== 0
+    } else if (type === 'PLTE') {
+      palette = body
+    } else if (type === 'tRNS') {
+      transparency = body
+    } else if (type === 'IDAT') {
+      idat.push(body)
+    } else if (type === 'IEND') {
+      break
+    }
+    at += length + 12
+  }
+  const channels = CHANNELS[colourType]
+  if (!width || !height || !channels || interlaced) return undefined
+  if (colourType === 3 && !palette) return undefined
+
+  let raw: Buffer
+  try {
+    raw = zlib.inflateSync(Buffer.concat(idat))
+  } catch (_err) {
+    return undefined
+  }
+  const bitsPerPixel = channels * depth
+  const stride = Math.ceil((width * bitsPerPixel) / 8)
+  // Filters work on bytes, looking back one whole pixel (at least a byte).
+  const bpp = Math.max(1, bitsPerPixel / 8)
+  if (raw.length < (stride + 1) * height) return undefined
+  const lines = Buffer.alloc(stride * height)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]!
+    const src = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1))
+    const line = lines.subarray(y * stride, (y + 1) * stride)
+    const prev = y > 0 ? lines.subarray((y - 1) * stride, y * stride) : null
+    for (let i = 0; i < stride; i++) {
+      const a = i >= bpp ? line[i - bpp]! : 0
+      const b = prev ? prev[i]! : 0
+      const c = prev && i >= bpp ? prev[i - bpp]! : 0
+      const predictor =
+        filter === 1
+          ? a
+          : filter === 2
+            ? b
+            : filter === 3
+              ? (a + b) >> 1
+              : filter === 4
+                ? paeth(a, b, c)
+                : 0
+      line[i] = (src[i]! + predictor) & 0xff
+    }
+  }
+
+  // Sample n of a line, scaled to 8 bits. 16-bit samples keep their high
+  // byte; 1, 2 and 4-bit ones are packed most significant first.
+  const maxSample = (1 << depth) - 1
+  const sample = (line: Buffer, n: number): number => {
+    if (depth === 8) return line[n]!
+    if (depth === 16) return line[n * 2]!
+    const bit = n * depth
+    const value = (line[bit >> 3]! >> (8 - depth - (bit & 7))) & maxSample
+    return colourType === 3 ? value : Math.round((value * 255) / maxSample)
+  }
+  // tRNS for grey and RGB images names one colour that is transparent, in
+  // the image's own sample range.
+  const transparentKey =
+    transparency && (colourType === 0 || colourType === 2)
+      ? Array.from({ length: channels }, (_, i) => {
+          const value = transparency!.readUInt16BE(i * 2)
+          return depth === 16
+            ? value >> 8
+            : Math.round((value * 255) / maxSample)
+        })
+      : undefined
+
+  const pixels = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const line = lines.subarray(y * stride, (y + 1) * stride)
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4
+      const s = (i: number) => sample(line, x * channels + i)
+      let rgba: number[]
+      switch (colourType) {
+        case 0:
+          rgba = [s(0), s(0), s(0), 255]
+          break
+        case 2:
+          rgba = [s(0), s(1), s(2), 255]
+          break
+        case 3: {
+          const index = s(0)
+          rgba = [
+            palette![index * 3] ?? 0,
+            palette![index * 3 + 1] ?? 0,
+            palette![index * 3 + 2] ?? 0,
+            transparency?.[index] ?? 255
+          ]
+          break
+        }
+        case 4:
+          rgba = [s(0), s(0), s(0), s(1)]
+          break
+        default:
+          rgba = [s(0), s(1), s(2), s(3)]
+      }
+      if (
+        transparentKey &&
+        transparentKey.every((v, i) => v === rgba[colourType === 0 ? 0 : i])
+      ) {
+        rgba[3] = 0
+      }
+      pixels.set(rgba, out)
+    }
+  }
+  return { width, height, pixels }
+}
+
+// The part of a tile covering one of its descendants `levels` zooms down,
+// scaled back up to the tile's size. Nearest neighbour keeps chart colours
+// exact, with no blended shades between depth areas.
+// Input  (256 px tile, levels 1, column 1, row 0)
+//        -> its top-right 128 px quarter, doubled to 256 px
+export const cropAndScale = (
+  image: RgbaImage,
+  levels: number,
+  column: number,
+  row: number
+): RgbaImage => {
+  const { width, height, pixels } = image
+  const scale = 2 ** levels
+  const left = (column * width) / scale
+  const top = (row * height) / scale
+  const out = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const srcY = Math.floor(top + y / scale)
+    for (let x = 0; x < width; x++) {
+      const srcX = Math.floor(left + x / scale)
+      const from = (srcY * width + srcX) * 4
+      out.set(pixels.subarray(from, from + 4), (y * width + x) * 4)
+    }
+  }
+  return { width, height, pixels: out }
+}
+
+// Four sibling tiles (top-left, top-right, bottom-left, bottom-right) halved
+// into the quadrants of their parent, for overviews below a chart's minzoom.
+// Colours are averaged weighted by alpha, so chart edges don't darken into
+// the transparent area around them. Missing children stay transparent;
+// returns undefined when all four are missing.
+export const mosaicQuadrants = (
+  children: (RgbaImage | undefined)[]
+): RgbaImage | undefined => {
+  const size = children.find((c) => c)?.width
+  if (!size) return undefined
+  const half = size / 2
+  const pixels = new Uint8Array(size * size * 4)
+  children.forEach((child, quadrant) => {
+    // Children of another size can't be placed; leave their quadrant empty.
+    if (!child || child.width !== size || child.height !== size) return
+    const left = (quadrant % 2) * half
+    const top = Math.floor(quadrant / 2) * half
+    for (let y = 0; y < half; y++) {
+      for (let x = 0; x < half; x++) {
+        let alpha = 0
+        const colour = [0, 0, 0]
+        for (const [dx, dy] of [
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1]
+        ]) {
+          const from = ((2 * y + dy!) * size + 2 * x + dx!) * 4
+          const a = child.pixels[from + 3]!
+          alpha += a
+          for (let c = 0; c < 3; c++) {
+            colour[c] = colour[c]! + child.pixels[from + c]! * a
+          }
+        }
+        const to = ((top + y) * size + left + x) * 4
+        if (alpha === 0) continue
+        for (let c = 0; c < 3; c++) {
+          pixels[to + c] = Math.round(colour[c]! / alpha)
+        }
+        pixels[to + 3] = Math.round(alpha / 4)
+      }
+    }
+  })
+  return { width: size, height: size, pixels }
+}
@@ -34,6 +34,57 @@ export function tileToBBox(x: number, y: number, z: number): BBox {
   return [lon1, lat2, lon2, lat1]
 }
 
+// Centre of a Web Mercator tile as [lon, lat]. Not the midpoint of
+// tileToBBox's latitudes: Mercator stretches towards the poles, so the
+// centre is the latitude half way down the tile in projected y.
+// Input  (x=0, y=0, z=1) -> [-90, 66.51...]
+export function tileCenter(x: number, y: number, z: number): [number, number] {
+  const n = 2 ** z
+  const lon = ((x + 0.5) / n) * 360 - 180
+  const lat =
+    (Math.atan(Math.sinh(Math.PI * (1 - (2 * (y + 0.5)) / n))) * 180) / Math.PI
+  return [lon, lat]
+}
+
+// North-west corner of a Web Mercator tile as [lon, lat]. Fractional and
+// past-the-edge x and y are allowed, so x + 1 and y + 1 give the other
+// corners.
+// Input  (x=1, y=1, z=1) -> [0, 0]
+export function tileCorner(x: number, y: number, z: number): [number, number] {
+  const n = 2 ** z
+  const lon = (x / n) * 360 - 180
+  const lat =
+    (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / n))) * 180) / Math.PI
+  return [lon, lat]
+}
+
+// Whether a tile overlaps chart bounds [west, south, east, north]. Bounds
+// crossing the antimeridian (west > east) are taken to cover every tile.
+// Latitudes are accepted in either order: some MBTiles writers swap them
+// (NOAA's CAROLINAS chart among them).
+// Input  (x=4, y=6, z=4, [-82.27, 36.6, -61.88, 31.95]) -> true
+export function tileTouchesBounds(
+  x: number,
+  y: number,
+  z: number,
+  bounds: number[]
+): boolean {
+  const [boundsWest, lat1, boundsEast, lat2] = bounds as [
+    number,
+    number,
+    number,
+    number
+  ]
+  if (boundsWest > boundsEast) return true
+  const [west, south, east, north] = tileToBBox(x, y, z) as number[]
+  return (
+    west! <= boundsEast &&
+    east! >= boundsWest &&
+    south! <= Math.max(lat1, lat2) &&
+    north! >= Math.min(lat1, lat2)
+  )
+}
+
 export function lonLatToMercator(lon: number, lat: number): [number, number] {
   const x = (lon * WEB_MERCATOR_HALF_EXTENT_M) / 180
   const yDeg =
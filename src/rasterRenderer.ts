@@ -0,0 +1,357 @@
+// Server-side raster rendering of local vector charts, for older clients
+// that only show png tile layers. GET
+// /signalk/chart-tiles/:identifier/raster/:z/:x/:y.png draws the chart with
+// its style.json (see chartStyle.ts) in MapLibre Native on the CPU and keeps
+// the result in the tile cache like a proxied tile.
+//
+// @maplibre/maplibre-gl-native is a large native module with prebuilt
+// binaries for a few platforms only, so it isn't a dependency of the plugin:
+// it is loaded on first use, and the endpoint answers 501 when it isn't
+// installed next to the server.
+
+import { promises as fs } from 'fs'
+import pLimit from 'p-limit'
+import { ChartProvider } from './types'
+import {
+  ChartDownloader,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  Tile
+} from './chartDownloader'
+import {
+  glyphFilePaths,
+  readChartStyle,
+  readFirstFile,
+  spriteFilePath
+} from './chartStyle'
+import { encodePng } from './png'
+import { tileCenter } from './projection'
+import { tileCacheFor } from './tileCache'
+import { buildTileJson } from './tileJson'
+import { decodeTile, readLocalTile } from './tileServer'
+
+// Held in a variable so TypeScript doesn't try to resolve the module.
+const RENDERER_MODULE = '@maplibre/maplibre-gl-native'
+
+// The parts of @maplibre/maplibre-gl-native the plugin calls, described
+// here because the module is optional.
+export interface RendererMap {
+  load: (style: object) => void
+  render: (
+    options: {
+      zoom: number
+      width: number
+      height: number
+      center: [number, number]
+    },
+    callback: (err: Error | undefined, pixels?: Uint8Array) => void
+  ) => void
+  release: () => void
+}
+
+export interface RendererModule {
+  Map: new (options: {
+    request: (
+      req: { url: string; kind: number },
+      callback: (err?: Error, response?: { data: Uint8Array }) => void
+    ) => void
+    ratio: number
+    mode: 'tile'
+  }) => RendererMap
+}
+
+let renderer: RendererModule | null = null
+let rendererLoadError: Error | null = null
+
+const loadRenderer = async (): Promise<RendererModule | null> => {
+  if (renderer === null && rendererLoadError === null) {
+    try {
+      const module = await import(RENDERER_MODULE)
+      renderer = (module.default || module) as RendererModule
+    } catch (err) {
+      rendererLoadError = err as Error
+      console.warn(
+        `Signal K Charts: raster rendering unavailable, ${RENDERER_MODULE} could not be loaded:`,
+        (err as Error).message
+      )
+    }
+  }
+  return renderer
+}
+
+export const rasterRendererAvailable = async (): Promise<boolean> =>
+  (await loadRenderer()) !== null
+
+// Tests swap in a fake renderer; null makes rendering unavailable.
+export const setRendererModule = (module: RendererModule | null): void => {
+  renderer = module
+  rendererLoadError = module ? null : new Error('Renderer disabled')
+}
+
+const TILE_SIZE = 256
+
+// The style is loaded with chart:// URLs, which the renderer's request
+// callback answers from the chart itself instead of going through HTTP.
+const localUrl = (provider: ChartProvider) => `chart://${provider.identifier}`
+
+// The bytes behind a URL the renderer asks for, or undefined when there are
+// none (a tile outside the chart, a font that isn't installed).
+// Input  "chart://harbour/12/2200/1343"             -> decoded vector tile
+// Input  "chart://harbour/fonts/Noto Sans/0-255.pbf" -> glyph PBF
+// Input  "https://example.com/sprite.png"           -> fetched over HTTP
+// A remote resource gets `timeoutMs` for the whole download, so an
+// unreachable host offline fails the render instead of stalling it.
+export const chartResource = async (
+  provider: ChartProvider,
+  url: string,
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<Buffer | undefined> => {
+  const prefix = `${localUrl(provider)}/`
+  if (!url.startsWith(prefix)) {
+    if (!/^https?:\/\//i.test(url)) {
+      throw new Error(`Unsupported style resource ${url}`)
+    }
+    const signal = AbortSignal.timeout(timeoutMs)
+    const res = await fetch(url, { signal })
+    if (res.status === 404) return undefined
+    if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`)
+    return Buffer.from(await res.arrayBuffer())
+  }
+  const rest = url.slice(prefix.length)
+  if (rest === 'tilejson.json') {
+    const tileJson = buildTileJson(provider, `${prefix}{z}/{x}/{y}`)
+    return Buffer.from(JSON.stringify(tileJson))
+  }
+  const tile = rest.match(/^(\d+)\/(\d+)\/(\d+)$/)
+  if (tile) {
+    const [z, x, y] = tile.slice(1).map(Number) as [number, number, number]
+    const data = await readLocalTile(provider, z, x, y)
+    // MapLibre Native expects plain protobuf tiles.
+    return data && decodeTile(data, provider.format)
+  }
+  const [kind, ...parts] = rest.split('/').map(decodeURIComponent)
+  if (kind === 'sprites' && parts.length === 1) {
+    const file = spriteFilePath(provider, parts[0]!)
+    return file ? readFirstFile([file]) : undefined
+  }
+  if (kind === 'fonts' && parts.length === 2) {
+    return readFirstFile(glyphFilePaths(provider, parts[0]!, parts[1]!))
+  }
+  return undefined
+}
+
+interface LoadedMap {
+  map: RendererMap
+  // A map renders one view at a time.
+  queue: ReturnType<typeof pLimit>
+}
+
+interface ChartRenderer {
+  provider: ChartProvider
+  // Kept while still loading, so concurrent first requests for a chart
+  // share one native map instead of each creating one.
+  loaded: Promise<LoadedMap>
+}
+
+const renderers = new Map<string, ChartRenderer>()
+
+// Releases the map after its pending renders. A map that failed to load
+// has nothing to release.
+const releaseRenderer = (entry: ChartRenderer): void => {
+  entry.loaded
+    .then(
+      ({ map, queue }) => queue(() => map.release()),
+      () => undefined
+    )
+    .catch((err) => console.error('Error releasing raster renderer:', err))
+}
+
+const loadMap = async (
+  module: RendererModule,
+  provider: ChartProvider
+): Promise<LoadedMap> => {
+  const style = await readChartStyle(provider, localUrl(provider))
+  if (!style) throw new Error(`Chart ${provider.identifier} has no style`)
+  const map = new module.Map({
+    request: (req, callback) => {
+      chartResource(provider, req.url).then(
+        (data) => callback(undefined, { data: data ?? Buffer.alloc(0) }),
+        (err) => callback(err)
+      )
+    },
+    ratio: 1,
+    mode: 'tile'
+  })
+  map.load(style)
+  return { map, queue: pLimit(1) }
+}
+
+// One loaded map per chart, replaced when a chart reload hands us a new
+// provider for the identifier.
+const rendererFor = (
+  module: RendererModule,
+  provider: ChartProvider
+): Promise<LoadedMap> => {
+  const existing = renderers.get(provider.identifier)
+  if (existing?.provider === provider) return existing.loaded
+  if (existing) releaseRenderer(existing)
+  const entry = { provider, loaded: loadMap(module, provider) }
+  renderers.set(provider.identifier, entry)
+  // A failed load isn't kept, so the next request tries again.
+  entry.loaded.catch(() => {
+    if (renderers.get(provider.identifier) === entry) {
+      renderers.delete(provider.identifier)
+    }
+  })
+  return entry.loaded
+}
+
+// Releases the maps of charts that are gone or were reloaded as new
+// providers; called after every chart reload.
+export const releaseStaleRasterRenderers = (charts: {
+  [identifier: string]: ChartProvider
+}): void => {
+  for (const [identifier, entry] of renderers) {
+    if (charts[identifier] !== entry.provider) {
+      renderers.delete(identifier)
+      releaseRenderer(entry)
+    }
+  }
+}
+
+// Releases every loaded map after its pending renders; called on plugin
+// stop.
+export const releaseRasterRenderers = (): void => {
+  releaseStaleRasterRenderers({})
+}
+
+// Averages each 2x2 block, halving a square RGBA image.
+export const downsampleRgba = (
+  pixels: Uint8Array,
+  size: number
+): Uint8Array => {
+  const half = size / 2
+  const out = new Uint8Array(half * half * 4)
+  for (let y = 0; y < half; y++) {
+    for (let x = 0; x < half; x++) {
+      for (let c = 0; c < 4; c++) {
+        const at = (dy: number, dx: number) =>
+          pixels[((2 * y + dy) * size + 2 * x + dx) * 4 + c]!
+        out[(y * half + x) * 4 + c] = Math.round(
+          (at(0, 0) + at(0, 1) + at(1, 0) + at(1, 1)) / 4
+        )
+      }
+    }
+  }
+  return out
+}
+
+// MapLibre Native returns premultiplied pixels, which PNG doesn't use.
+export const unpremultiply = (pixels: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(pixels.length)
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3]!
+    const scale = alpha === 0 || alpha === 255 ? 1 : 255 / alpha
+    for (let c = 0; c < 3; c++) {
+      out[i + c] = Math.min(255, Math.round(pixels[i + c]! * scale))
+    }
+    out[i + 3] = alpha
+  }
+  return out
+}
+
+// MapLibre zoom z shows the world 512 * 2^z pixels wide, so a 256 px tile
+// at zoom z is a 256 px view at MapLibre zoom z - 1. There is no zoom -1:
+// the world tile is drawn at 512 px and halved.
+const renderTile = async (
+  module: RendererModule,
+  provider: ChartProvider,
+  tile: Tile
+): Promise<Buffer> => {
+  const { map, queue } = await rendererFor(module, provider)
+  const size = tile.z === 0 ? TILE_SIZE * 2 : TILE_SIZE
+  const pixels = await queue(
+    () =>
+      new Promise<Uint8Array>((resolve, reject) =>
+        map.render(
+          {
+            zoom: Math.max(0, tile.z - 1),
+            width: size,
+            height: size,
+            center: tileCenter(tile.x, tile.y, tile.z)
+          },
+          (err, data) => {
+            if (err) reject(err)
+            else if (!data) reject(new Error('Renderer returned no pixels'))
+            else resolve(data)
+          }
+        )
+      )
+  )
+  return encodePng({
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+    pixels: unpremultiply(
+      size === TILE_SIZE ? pixels : downsampleRgba(pixels, size)
+    )
+  })
+}
+
+// Rendered tiles are cached under their own name next to the proxied
+// providers' caches.
+export const rasterCacheProvider = (provider: ChartProvider) => ({
+  name: `${provider.identifier}.raster`,
+  format: 'png'
+})
+
+// Newest change to what a tile is drawn from, so replacing the chart or
+// editing its style re-renders cached tiles.
+const sourcesModifiedAt = async (provider: ChartProvider): Promise<number> => {
+  const files = [provider._filePath, provider._stylePath].filter(
+    (f): f is string => !!f
+  )
+  const times = await Promise.all(
+    files.map((f) =>
+      fs.stat(f).then(
+        (s) => s.mtimeMs,
+        () => 0
+      )
+    )
+  )
+  return Math.max(0, ...times)
+}
+
+// The rendered png of a tile, from the cache while it is newer than the
+// chart and its style. Throws when the renderer isn't available.
+export const loadRasterTile = async (
+  cachePath: string,
+  provider: ChartProvider,
+  tile: Tile
+): Promise<Buffer> => {
+  const module = await loadRenderer()
+  if (!module) throw new Error(`${RENDERER_MODULE} is not installed`)
+  const cacheProvider = rasterCacheProvider(provider)
+  const storage = tileCacheFor(cachePath, cacheProvider)
+  try {
+    const hit = await storage.get(tile)
+    if (hit && hit.fetchedAt >= (await sourcesModifiedAt(provider))) {
+      ChartDownloader.cacheQuota?.recordRead(cacheProvider, tile, hit.fetchedAt)
+      return hit.data
+    }
+  } catch (err) {
+    console.error(
+      `Error reading rendered tile ${provider.identifier}/${tile.z}/${tile.x}/${tile.y}:`,
+      err
+    )
+  }
+  const png = await renderTile(module, provider, tile)
+  try {
+    await storage.put(tile, png)
+    ChartDownloader.cacheQuota?.recordWrite(cacheProvider, tile, png.length)
+  } catch (err) {
+    console.error(
+      `Error caching rendered tile ${provider.identifier}/${tile.z}/${tile.x}/${tile.y}:`,
+      err
+    )
+  }
+  return png
+}
@@ -0,0 +1,106 @@
+// Per-provider request pacing for remote tile servers. Both the proxy path and
+// seeding jobs fetch through ChartDownloader.fetchRemoteTile, so a single
+// limiter per provider sees all traffic to that server. Two mechanisms:
+//  - an optional requests-per-second ceiling from the provider config, which
+//    spaces request start times evenly;
+//  - a block window opened by 429 / 503 responses, sized by Retry-After when
+//    the server sends one, otherwise by a penalty that doubles with each
+//    consecutive throttle and resets on the next success.
+
+const INITIAL_PENALTY_MS = 1000
+const MAX_PENALTY_MS = 60_000
+
+export class RateLimiter {
+  private nextSlot = 0
+  private blockedUntil = 0
+  private penaltyMs = INITIAL_PENALTY_MS
+
+  constructor(
+    public maxRequestsPerSecond: number | undefined = undefined,
+    private now: () => number = Date.now
+  ) {}
+
+  // Milliseconds until the throttle window opened by the last 429/503 closes.
+  blockedForMs(): number {
+    return Math.max(0, this.blockedUntil - this.now())
+  }
+
+  // Milliseconds a request reserved now would wait, behind both the throttle
+  // window and the requests already queued.
+  waitMs(): number {
+    return Math.max(0, this.nextSlot - this.now(), this.blockedForMs())
+  }
+
+  // Reserves the next request slot and returns how long the caller must wait
+  // before sending. Returns undefined, without reserving, when that wait would
+  // exceed maxWaitMs: an interactive proxy request is better off failing than
+  // hanging until a long Retry-After expires.
+  reserve(maxWaitMs = Infinity): number | undefined {
+    const now = this.now()
+    const start = Math.max(now, this.nextSlot, this.blockedUntil)
+    const wait = start - now
+    if (wait > maxWaitMs) return undefined
+    const rps = this.maxRequestsPerSecond
+    this.nextSlot = rps && rps > 0 ? start + 1000 / rps : start
+    return wait
+  }
+
+  async acquire(maxWaitMs = Infinity): Promise<boolean> {
+    const wait = this.reserve(maxWaitMs)
+    if (wait === undefined) return false
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait))
+    return true
+  }
+
+  // Called for a 429 or 503. retryAfterMs comes from the response header
+  // when present and always wins over the local penalty.
+  throttled(retryAfterMs?: number): void {
+    const delay = retryAfterMs ?? this.penaltyMs
+    this.blockedUntil = Math.max(this.blockedUntil, this.now() + delay)
+    if (retryAfterMs === undefined) {
+      this.penaltyMs = Math.min(this.penaltyMs * 2, MAX_PENALTY_MS)
+    }
+  }
+
+  succeeded(): void {
+    this.penaltyMs = INITIAL_PENALTY_MS
+  }
+}
+
+// Retry-After is either delta-seconds ("120") or an HTTP-date. Returns the
+// delay in milliseconds, or undefined when the header is absent or garbage.
+// Input  ("120")                            -> 120000
+// Input  ("Wed, 21 Oct 2015 07:28:00 GMT")  -> ms from now until that instant
+export const parseRetryAfter = (
+  header: string | null | undefined,
+  now: number = Date.now()
+): number | undefined => {
+  if (!header) return undefined
+  const trimmed = header.trim()
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed) * 1000
+  const date = Date.parse(trimmed)
+  if (!Number.isFinite(date)) return undefined
+  return Math.max(0, date - now)
+}
+
+const limiters = new Map<string, RateLimiter>()
+
+// Returns the shared limiter for a provider, creating it on first use. The
+// configured ceiling is re-applied on every lookup so a config change takes
+// effect without dropping an active throttle window.
+export const rateLimiterFor = (provider: {
+  identifier: string
+  _maxRequestsPerSecond?: number
+}): RateLimiter => {
+  let limiter = limiters.get(provider.identifier)
+  if (!limiter) {
+    limiter = new RateLimiter()
+    limiters.set(provider.identifier, limiter)
+  }
+  limiter.maxRequestsPerSecond = provider._maxRequestsPerSecond
+  return limiter
+}
+
+export const resetRateLimiters = (): void => {
+  limiters.clear()
+}
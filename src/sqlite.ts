@@ -0,0 +1,11 @@
+// node:sqlite is loaded on first use instead of imported, for the same
+// reason charts.ts loads @signalk/mbtiles dynamically: on Node versions
+// without it the plugin still loads, and start() reports the unsupported
+// version instead of the server failing to load the plugin at all.
+
+export type Sqlite = typeof import('node:sqlite')
+
+let loading: Promise<Sqlite> | undefined
+
+export const loadSqlite = (): Promise<Sqlite> =>
+  (loading ??= import('node:sqlite'))
@@ -0,0 +1,540 @@
+// Storage for the proxy tile cache. Everything that touches cached tiles —
+// the proxy and seeding (ChartDownloader.loadTile), filterCachedTiles,
+// deleteCache, the quota, stats and export — goes through TileCacheStorage,
+// so the on-disk layout is a per-plugin choice:
+//  - 'files': one file per tile under `<cachePath>/<provider.name>/z/x/y.ext`
+//    (the original layout). Fetch time is the file mtime, last access the
+//    atime, and HTTP validators live in a `<tile>.meta.json` sidecar.
+//  - 'sqlite': one SQLite database per provider, `<cachePath>/<name>.cache.sqlite`.
+//    Millions of small files are slow on FAT32/exFAT SD cards and eMMC; a
+//    single file also backs up and deletes in one go. The table layout is
+//    MBTiles-compatible (TMS rows) with extra columns for the cache fields.
+
+import fs from 'fs'
+import path from 'path'
+import pLimit from 'p-limit'
+import type { DatabaseSync, StatementSync } from 'node:sqlite'
+import type { Tile, TileValidators } from './chartDownloader'
+import { Sqlite, loadSqlite } from './sqlite'
+
+export type CacheBackend = 'files' | 'sqlite'
+export const CACHE_BACKENDS: CacheBackend[] = ['files', 'sqlite']
+
+export interface CachedTile {
+  data: Buffer
+  // When the tile was fetched or last revalidated; drives max-age.
+  fetchedAt: number
+}
+
+export interface CachedTileInfo {
+  tile: Tile
+  size: number
+  fetchedAt: number
+  lastAccess: number
+}
+
+export interface TileCacheStorage {
+  get(tile: Tile): Promise<CachedTile | undefined>
+  // Existence and freshness without reading the tile data.
+  stat(tile: Tile): Promise<{ fetchedAt: number } | undefined>
+  validators(tile: Tile): Promise<TileValidators | undefined>
+  put(tile: Tile, data: Buffer, validators?: TileValidators): Promise<void>
+  // A 304 revalidation: the cached copy is current as of `at`.
+  touch(tile: Tile, at: number): Promise<void>
+  // LRU bookkeeping for the quota. fetchedAt is passed back unchanged so the
+  // file backend can keep the mtime while it sets the atime.
+  markAccessed(tile: Tile, at: number, fetchedAt: number): Promise<void>
+  // Resolves true when the tile was cached.
+  delete(tile: Tile): Promise<boolean>
+  // Visits every cached tile; shouldStop is polled between batches.
+  list(
+    visit: (info: CachedTileInfo) => void,
+    shouldStop?: () => boolean
+  ): Promise<void>
+  close(): Promise<void>
+}
+
+interface CacheProvider {
+  name: string
+  format?: string
+}
+
+// ---------------------------------------------------------------------------
+// Files
+
+export const tileMetaPath = (tilePath: string): string =>
+  `${tilePath}.meta.json`
+
+export class FileTileCache implements TileCacheStorage {
+  private root: string
+  private suffix: string
+
+  constructor(cachePath: string, provider: CacheProvider) {
+    this.root = path.join(cachePath, provider.name)
+    this.suffix = `.${provider.format}`
+  }
+
+  tilePath(tile: Tile): string {
+    return path.join(
+      this.root,
+      `${tile.z}`,
+      `${tile.x}`,
+      `${tile.y}${this.suffix}`
+    )
+  }
+
+  async get(tile: Tile): Promise<CachedTile | undefined> {
+    const tilePath = this.tilePath(tile)
+    try {
+      const [data, stat] = await Promise.all([
+        fs.promises.readFile(tilePath),
+        fs.promises.stat(tilePath)
+      ])
+      return { data, fetchedAt: stat.mtimeMs }
+    } catch (_err) {
+      return undefined
+    }
+  }
+
+  async stat(tile: Tile): Promise<{ fetchedAt: number } | undefined> {
+    try {
+      const stat = await fs.promises.stat(this.tilePath(tile))
+      return { fetchedAt: stat.mtimeMs }
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Unexpected fs error:', err)
+      }
+      return undefined
+    }
+  }
+
+  async validators(tile: Tile): Promise<TileValidators | undefined> {
+    try {
+      const raw = await fs.promises.readFile(
+        tileMetaPath(this.tilePath(tile)),
+        'utf8'
+      )
+      const parsed = JSON.parse(raw) as TileValidators
+      return presentValidators(parsed.etag, parsed.lastModified)
+    } catch (_err) {
+      return undefined
+    }
+  }
+
+  async put(
+    tile: Tile,
+    data: Buffer,
+    validators?: TileValidators
+  ): Promise<void> {
+    const tilePath = this.tilePath(tile)
+    await fs.promises.mkdir(path.dirname(tilePath), { recursive: true })
+    await fs.promises.writeFile(tilePath, data)
+    const metaPath = tileMetaPath(tilePath)
+    if (validators?.etag || validators?.lastModified) {
+      await fs.promises.writeFile(metaPath, JSON.stringify(validators))
+    } else {
+      // A refetch without validators must not leave an older ETag behind.
+      await fs.promises.rm(metaPath, { force: true })
+    }
+  }
+
+  async touch(tile: Tile, at: number): Promise<void> {
+    await fs.promises.utimes(this.tilePath(tile), new Date(at), new Date(at))
+  }
+
+  async markAccessed(tile: Tile, at: number, fetchedAt: number): Promise<void> {
+    await fs.promises.utimes(
+      this.tilePath(tile),
+      new Date(at),
+      new Date(fetchedAt)
+    )
+  }
+
+  async delete(tile: Tile): Promise<boolean> {
+    const tilePath = this.tilePath(tile)
+    try {
+      await fs.promises.unlink(tilePath)
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+      return false
+    }
+    await fs.promises.rm(tileMetaPath(tilePath), { force: true })
+    return true
+  }
+
+  // Entries that aren't tile coordinates (and the sidecars) are skipped.
+  async list(
+    visit: (info: CachedTileInfo) => void,
+    shouldStop: () => boolean = () => false
+  ): Promise<void> {
+    const suffix = this.suffix
+    const limit = pLimit(64)
+    for (const z of await readdirOrEmpty(this.root)) {
+      if (!isCoordinate(z)) continue
+      for (const x of await readdirOrEmpty(path.join(this.root, z))) {
+        if (shouldStop()) return
+        if (!isCoordinate(x)) continue
+        const dir = path.join(this.root, z, x)
+        const files = (await readdirOrEmpty(dir)).filter(
+          (f) => f.endsWith(suffix) && isCoordinate(f.slice(0, -suffix.length))
+        )
+        await Promise.all(
+          files.map((file) =>
+            limit(async () => {
+              try {
+                const stat = await fs.promises.stat(path.join(dir, file))
+                visit({
+                  tile: {
+                    z: parseInt(z),
+                    x: parseInt(x),
+                    y: parseInt(file.slice(0, -suffix.length))
+                  },
+                  size: stat.size,
+                  fetchedAt: stat.mtimeMs,
+                  lastAccess: stat.atimeMs
+                })
+              } catch (_err) {
+                // Deleted while listing.
+              }
+            })
+          )
+        )
+      }
+    }
+  }
+
+  async close(): Promise<void> {}
+}
+
+// Only the validators the server actually sent, or undefined for none.
+const presentValidators = (
+  etag: string | null | undefined,
+  lastModified: string | null | undefined
+): TileValidators | undefined => {
+  if (!etag && !lastModified) return undefined
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {})
+  }
+}
+
+const isCoordinate = (s: string): boolean => /^\d+$/.test(s)
+
+const readdirOrEmpty = async (dir: string): Promise<string[]> => {
+  try {
+    return await fs.promises.readdir(dir)
+  } catch (_err) {
+    return []
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SQLite
+
+// Writes are queued and committed in one transaction per batch: a seeding
+// job writing tiles one statement at a time spends most of its time in
+// fsync. Reads check the queue first so a queued tile is visible at once.
+const WRITE_BATCH_SIZE = 200
+const WRITE_FLUSH_MS = 250
+
+type PendingWrite =
+  | {
+      kind: 'put'
+      tile: Tile
+      data: Buffer
+      fetchedAt: number
+      lastAccess: number
+      validators?: TileValidators
+    }
+  | { kind: 'delete'; tile: Tile }
+  | { kind: 'update'; tile: Tile; fetchedAt?: number; lastAccess?: number }
+
+// MBTiles rows count from the south (TMS); XYZ tiles count from the north.
+const tmsRow = (tile: Tile): number => 2 ** tile.z - 1 - tile.y
+
+export const sqliteCachePath = (cachePath: string, name: string): string =>
+  path.join(cachePath, `${name}.cache.sqlite`)
+
+export class SqliteTileCache implements TileCacheStorage {
+  private db: DatabaseSync
+  private pending = new Map<string, PendingWrite>()
+  private flushTimer: NodeJS.Timeout | undefined
+  private statements: { [name: string]: StatementSync } = {}
+  private closed = false
+
+  // Takes the loaded node:sqlite module, see sqlite.ts.
+  constructor(
+    sqlite: Sqlite,
+    file: string,
+    provider: CacheProvider,
+    private now: () => number = Date.now
+  ) {
+    this.db = new sqlite.DatabaseSync(file)
+    // WAL lets readers (stats, export, a backup) run alongside the writer.
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA synchronous = NORMAL;
+      CREATE TABLE IF NOT EXISTS metadata (name TEXT PRIMARY KEY, value TEXT);
+      CREATE TABLE IF NOT EXISTS tiles (
+        zoom_level INTEGER NOT NULL,
+        tile_column INTEGER NOT NULL,
+        tile_row INTEGER NOT NULL,
+        tile_data BLOB NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        last_access INTEGER NOT NULL,
+        etag TEXT,
+        last_modified TEXT,
+        PRIMARY KEY (zoom_level, tile_column, tile_row)
+      );
+    `)
+    const meta = this.db.prepare(
+      'INSERT OR IGNORE INTO metadata (name, value) VALUES (?, ?)'
+    )
+    meta.run('name', provider.name)
+    meta.run('format', provider.format ?? '')
+    const where = 'WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?'
+    this.statements = {
+      get: this.db.prepare(`SELECT tile_data, fetched_at FROM tiles ${where}`),
+      stat: this.db.prepare(`SELECT fetched_at FROM tiles ${where}`),
+      validators: this.db.prepare(
+        `SELECT etag, last_modified FROM tiles ${where}`
+      ),
+      put: this.db.prepare(
+        'INSERT OR REPLACE INTO tiles VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      ),
+      delete: this.db.prepare(`DELETE FROM tiles ${where}`),
+      update: this.db.prepare(
+        'UPDATE tiles SET fetched_at = COALESCE(?, fetched_at), ' +
+          `last_access = COALESCE(?, last_access) ${where}`
+      )
+    }
+  }
+
+  async get(tile: Tile): Promise<CachedTile | undefined> {
+    const queued = this.pending.get(tileKey(tile))
+    if (queued?.kind === 'put') {
+      return { data: queued.data, fetchedAt: queued.fetchedAt }
+    }
+    if (queued?.kind === 'delete') return undefined
+    const row = this.statements.get!.get(...this.coords(tile)) as
+      | { tile_data: Uint8Array; fetched_at: number }
+      | undefined
+    if (!row) return undefined
+    return {
+      data: Buffer.from(row.tile_data),
+      fetchedAt: queued?.fetchedAt ?? row.fetched_at
+    }
+  }
+
+  async stat(tile: Tile): Promise<{ fetchedAt: number } | undefined> {
+    const queued = this.pending.get(tileKey(tile))
+    if (queued?.kind === 'put') return { fetchedAt: queued.fetchedAt }
+    if (queued?.kind === 'delete') return undefined
+    const row = this.statements.stat!.get(...this.coords(tile)) as
+      | { fetched_at: number }
+      | undefined
+    if (!row) return undefined
+    return { fetchedAt: queued?.fetchedAt ?? row.fetched_at }
+  }
+
+  async validators(tile: Tile): Promise<TileValidators | undefined> {
+    const queued = this.pending.get(tileKey(tile))
+    if (queued?.kind === 'put') {
+      return presentValidators(
+        queued.validators?.etag,
+        queued.validators?.lastModified
+      )
+    }
+    if (queued?.kind === 'delete') return undefined
+    const row = this.statements.validators!.get(...this.coords(tile)) as
+      | { etag: string | null; last_modified: string | null }
+      | undefined
+    return row ? presentValidators(row.etag, row.last_modified) : undefined
+  }
+
+  async put(
+    tile: Tile,
+    data: Buffer,
+    validators?: TileValidators
+  ): Promise<void> {
+    const now = this.now()
+    this.queue({
+      kind: 'put',
+      tile,
+      data,
+      fetchedAt: now,
+      lastAccess: now,
+      validators
+    })
+  }
+
+  async touch(tile: Tile, at: number): Promise<void> {
+    this.queue({ kind: 'update', tile, fetchedAt: at })
+  }
+
+  async markAccessed(tile: Tile, at: number): Promise<void> {
+    this.queue({ kind: 'update', tile, lastAccess: at })
+  }
+
+  async delete(tile: Tile): Promise<boolean> {
+    const existed = (await this.stat(tile)) !== undefined
+    this.queue({ kind: 'delete', tile })
+    return existed
+  }
+
+  async list(
+    visit: (info: CachedTileInfo) => void,
+    shouldStop: () => boolean = () => false
+  ): Promise<void> {
+    this.flush()
+    // A statement of its own: listings overlap (stats, the quota scan and
+    // export), and iterating a shared statement again resets the first.
+    const rows = this.db
+      .prepare(
+        'SELECT zoom_level, tile_column, tile_row, length(tile_data) AS size, ' +
+          'fetched_at, last_access FROM tiles'
+      )
+      .iterate()
+    let count = 0
+    for (const row of rows as Iterable<{
+      zoom_level: number
+      tile_column: number
+      tile_row: number
+      size: number
+      fetched_at: number
+      last_access: number
+    }>) {
+      const z = row.zoom_level
+      visit({
+        tile: { z, x: row.tile_column, y: 2 ** z - 1 - row.tile_row },
+        size: row.size,
+        fetchedAt: row.fetched_at,
+        lastAccess: row.last_access
+      })
+      // Yield now and then so a large listing doesn't stall tile serving.
+      if (++count % 1000 === 0) {
+        await new Promise((r) => setImmediate(r))
+        if (shouldStop()) return
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.flush()
+    this.closed = true
+    this.db.close()
+  }
+
+  private coords(tile: Tile): [number, number, number] {
+    return [tile.z, tile.x, tmsRow(tile)]
+  }
+
+  private queue(write: PendingWrite): void {
+    // A download still in flight when the plugin stopped.
+    if (this.closed) throw new Error('Tile cache is closed')
+    const key = tileKey(write.tile)
+    const queued = this.pending.get(key)
+    if (write.kind === 'update' && queued) {
+      // Fold timestamp updates into the queued write; an update after a
+      // queued delete has nothing left to update.
+      if (queued.kind === 'delete') return
+      if (write.fetchedAt !== undefined) queued.fetchedAt = write.fetchedAt
+      if (write.lastAccess !== undefined) queued.lastAccess = write.lastAccess
+      return
+    }
+    this.pending.set(key, write)
+    if (this.pending.size >= WRITE_BATCH_SIZE) {
+      this.flush()
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), WRITE_FLUSH_MS)
+    }
+  }
+
+  // Commits the queue in one transaction. Synchronous, like all of
+  // node:sqlite; a batch of a few hundred rows takes milliseconds.
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = undefined
+    }
+    if (this.pending.size === 0) return
+    const writes = [...this.pending.values()]
+    this.pending.clear()
+    const s = this.statements
+    this.db.exec('BEGIN')
+    try {
+      for (const w of writes) {
+        const coords = this.coords(w.tile)
+        if (w.kind === 'put') {
+          s.put!.run(
+            ...coords,
+            w.data,
+            w.fetchedAt,
+            w.lastAccess,
+            w.validators?.etag ?? null,
+            w.validators?.lastModified ?? null
+          )
+        } else if (w.kind === 'delete') {
+          s.delete!.run(...coords)
+        } else {
+          s.update!.run(w.fetchedAt ?? null, w.lastAccess ?? null, ...coords)
+        }
+      }
+      this.db.exec('COMMIT')
+    } catch (err) {
+      this.db.exec('ROLLBACK')
+      console.error('Error writing tile cache batch:', err)
+    }
+  }
+}
+
+const tileKey = (tile: Tile): string => `${tile.z}/${tile.x}/${tile.y}`
+
+// ---------------------------------------------------------------------------
+// Registry
+
+let backend: CacheBackend = 'files'
+// Loaded by setCacheBackend('sqlite'), so it's there whenever backend is.
+let sqlite: Sqlite | undefined
+const storages = new Map<string, TileCacheStorage>()
+
+// Selects the backend for storages created from now on. Called on plugin
+// start, after closeTileCaches() has dropped the previous ones.
+export const setCacheBackend = async (kind: CacheBackend): Promise<void> => {
+  if (kind === 'sqlite') sqlite = await loadSqlite()
+  backend = kind
+}
+
+// Returns the shared storage for a provider's cache, opening it on first use.
+export const tileCacheFor = (
+  cachePath: string,
+  provider: CacheProvider
+): TileCacheStorage => {
+  const key = path.join(cachePath, provider.name)
+  let storage = storages.get(key)
+  if (!storage) {
+    storage =
+      backend === 'sqlite' && sqlite
+        ? new SqliteTileCache(
+            sqlite,
+            sqliteCachePath(cachePath, provider.name),
+            provider
+          )
+        : new FileTileCache(cachePath, provider)
+    storages.set(key, storage)
+  }
+  return storage
+}
+
+export const closeTileCaches = async (): Promise<void> => {
+  const open = [...storages.values()]
+  storages.clear()
+  for (const storage of open) {
+    try {
+      await storage.close()
+    } catch (err) {
+      console.error('Error closing tile cache:', err)
+    }
+  }
+}
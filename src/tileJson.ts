@@ -0,0 +1,126 @@
+// TileJSON 3.0.0 documents for chart providers, served at
+// GET /signalk/chart-tiles/:identifier/tilejson.json so MapLibre and other
+// TileJSON-aware clients can add a chart from one URL instead of
+// reassembling it from the resource fields. Also the fuller chart metadata
+// document of GET /signalk/chart-tiles/:identifier/metadata.json.
+
+import { ChartProvider, TileStats, VectorLayer } from './types'
+import { VECTOR_FORMATS } from './tileServer'
+
+export interface TileJson {
+  tilejson: '3.0.0'
+  name: string
+  description?: string
+  attribution?: string
+  scheme: 'xyz'
+  tiles: string[]
+  format?: string
+  minzoom?: number
+  maxzoom?: number
+  bounds?: number[]
+  center?: number[]
+  vector_layers?: VectorLayer[]
+}
+
+// The tile URL template clients should request, or undefined for providers
+// that aren't XYZ tile layers (WMS, WMTS, S-57, styles). Tiles the plugin
+// serves itself (local charts and proxied providers) resolve against
+// `baseUrl`; other online providers keep their own absolute URL.
+// Input  (local chart "test", "http://boat:3000")
+//        -> "http://boat:3000/signalk/chart-tiles/test/{z}/{x}/{y}"
+export const tileUrlTemplate = (
+  provider: ChartProvider,
+  baseUrl: string,
+  chartTilesPath: string
+): string | undefined => {
+  const url = provider.v2?.url
+  if (!url) return undefined
+  if (url.startsWith('~tilePath~')) {
+    return `${baseUrl}${url.replace('~tilePath~', chartTilesPath)}`
+  }
+  if (provider.type !== 'tilelayer' || !/\{z\}/.test(url)) return undefined
+  return url
+}
+
+// Centre of the bounds at a zoom a quarter of the way into the zoom range,
+// the same default @signalk/mbtiles uses for charts without a center row.
+// Input  ([0, 0, 10, 20], minzoom 4, maxzoom 12) -> [5, 10, 6]
+export const defaultCenter = (
+  bounds: number[] | undefined,
+  minzoom = 0,
+  maxzoom = minzoom
+): number[] | undefined => {
+  if (!bounds || bounds.length !== 4) return undefined
+  const [west, south, east, north] = bounds as [number, number, number, number]
+  // west > east is a chart crossing the antimeridian.
+  let lon = west <= east ? (west + east) / 2 : (west + east + 360) / 2
+  if (lon > 180) lon -= 360
+  const zoom = minzoom + Math.floor((maxzoom - minzoom) / 4)
+  return [lon, (south + north) / 2, zoom]
+}
+
+// Fills in `fields`, which TileJSON requires on every vector layer but
+// older MBTiles writers omit.
+const normalizeVectorLayers = (layers: VectorLayer[]): VectorLayer[] =>
+  layers.map((l) => ({ ...l, fields: l.fields ?? {} }))
+
+export const buildTileJson = (
+  provider: ChartProvider,
+  tileUrl: string
+): TileJson => {
+  const format = provider.format?.toLowerCase()
+  const doc: TileJson = {
+    tilejson: '3.0.0',
+    name: provider.name,
+    description: provider.description || undefined,
+    attribution: provider._attribution,
+    scheme: 'xyz',
+    tiles: [tileUrl],
+    format: provider.format,
+    minzoom: provider.minzoom,
+    maxzoom: provider.maxzoom,
+    bounds: provider.bounds,
+    center:
+      provider._center ??
+      defaultCenter(provider.bounds, provider.minzoom, provider.maxzoom)
+  }
+  if (format && VECTOR_FORMATS.has(format)) {
+    doc.vector_layers = normalizeVectorLayers(provider.v2?.vectorLayers ?? [])
+  }
+  return doc
+}
+
+export interface ChartMetadata {
+  identifier: string
+  name: string
+  description?: string
+  type: string
+  format?: string
+  scale: number
+  attribution?: string
+  minzoom?: number
+  maxzoom?: number
+  bounds?: number[]
+  center?: number[]
+  vector_layers: VectorLayer[]
+  tilestats?: TileStats
+}
+
+// Everything known about a chart in MBTiles metadata terms, including the
+// tilestats that TileJSON has no place for. vector_layers is empty for
+// raster charts.
+export const buildChartMetadata = (provider: ChartProvider): ChartMetadata => ({
+  identifier: provider.identifier,
+  name: provider.name,
+  description: provider.description || undefined,
+  type: provider.type,
+  format: provider.format,
+  scale: provider.scale,
+  attribution: provider._attribution,
+  minzoom: provider.minzoom,
+  maxzoom: provider.maxzoom,
+  bounds: provider.bounds,
+  center: provider._center,
+  vector_layers: provider.v2?.vectorLayers ?? [],
+  tilestats: provider.v2?.tilestats
+})
@@ -1,8 +1,14 @@
+import fs from 'fs'
 import path from 'path'
-import { Response } from 'express'
+import zlib from 'zlib'
+import { createHash } from 'crypto'
+import { promisify } from 'util'
+import { Request, Response } from 'express'
 import { OutgoingHttpHeaders } from 'http'
 import { ChartProvider } from './types'
 import { ChartDownloader } from './chartDownloader'
+import { cropAndScale, decodePng, encodePng } from './png'
+import { cropAndScaleImage, isScalableImageFormat } from './imageScale'
 
 /**
  * Tile-serving HTTP helpers for the charts plugin. Each helper terminates
@@ -21,14 +27,29 @@ export const MAX_ZOOM = 24
 // provider covers that level (they just get a 404 per-tile).
 export const MIN_TILE_Z = 0
 
-export const responseHttpOptions = {
-  headers: {
-    'Cache-Control': 'public, max-age=7776000' // 90 days
-  },
-  // Charts commonly live under dot-prefixed paths (e.g. ~/.signalk/charts);
-  // express 5's send defaults to 'ignore', which 404s any path containing
-  // a dot segment.
-  dotfiles: 'allow' as const
+// How long clients may reuse a tile before revalidating it. Online
+// providers can override it (tileMaxAgeHours) for charts that change often,
+// local and composite charts through the plugin's tileMaxAge list; once it
+// runs out the ETag turns the revalidation into a 304.
+export const DEFAULT_TILE_MAX_AGE_SECONDS = 7776000 // 90 days
+
+export const tileCacheControl = (provider: ChartProvider): string =>
+  `public, max-age=${provider._tileMaxAgeSeconds ?? DEFAULT_TILE_MAX_AGE_SECONDS}`
+
+// Sets the max-age of a local or composite chart from the tileMaxAge list.
+// Online charts have their own tileMaxAgeHours. Returns why it wasn't set.
+export const setTileMaxAge = (
+  provider: ChartProvider,
+  hours: number
+): string | undefined => {
+  if (typeof hours !== 'number' || !Number.isFinite(hours) || hours < 0) {
+    return `Invalid max age ${hours} (must be a number of hours, 0 or more)`
+  }
+  if (!provider._fileFormat && !provider._compositeOf) {
+    return 'not a local or composite chart'
+  }
+  provider._tileMaxAgeSeconds = Math.round(hours * 60 * 60)
+  return undefined
 }
 
 // Tile file extensions recognised on the filesystem path. Add new entries
@@ -68,6 +89,74 @@ export const validateMaxZoom = (maxZoom: number): string | undefined => {
   return undefined
 }
 
+// Overzoom: how many zoom levels past its maxzoom a chart may be served,
+// cut from its tiles at maxzoom. Six levels turn one pixel into 64x64.
+export const MAX_OVERZOOM_LEVELS = 6
+
+export const validateOverzoomLevels = (levels: number): string | undefined => {
+  if (!Number.isInteger(levels) || levels < 1 || levels > MAX_OVERZOOM_LEVELS) {
+    return `Invalid overzoom levels ${levels} (must be an integer in [1, ${MAX_OVERZOOM_LEVELS}])`
+  }
+  return undefined
+}
+
+// Serves the chart up to `levels` past its maxzoom (see serveOverzoomTile).
+// Returns why overzoom can't be enabled.
+export const enableOverzoom = (
+  provider: ChartProvider,
+  levels: number
+): string | undefined => {
+  const levelsError = validateOverzoomLevels(levels)
+  if (levelsError) return levelsError
+  const format = provider.format?.toLowerCase() ?? ''
+  if (!TILE_FORMATS.includes(format)) {
+    return `tiles are ${provider.format}, which can't be overzoomed`
+  }
+  provider._overzoomLevels = levels
+  return undefined
+}
+
+// Whether a request past the provider's maxzoom is within its overzoom.
+export const isOverzoomTile = (provider: ChartProvider, z: number): boolean =>
+  !!provider._overzoomLevels &&
+  provider.maxzoom !== undefined &&
+  z > provider.maxzoom &&
+  z <= provider.maxzoom + provider._overzoomLevels
+
+// Download tuning accepted from provider config and seeding requests. The
+// upper concurrency bound keeps a typo from opening hundreds of sockets on a
+// Pi; the timeout range spans fast CDNs to slow national WMS endpoints.
+export const MIN_CONCURRENT_DOWNLOADS = 1
+export const MAX_CONCURRENT_DOWNLOADS = 64
+export const MIN_REQUEST_TIMEOUT_MS = 500
+export const MAX_REQUEST_TIMEOUT_MS = 120_000
+
+export const validateConcurrency = (
+  concurrency: number
+): string | undefined => {
+  if (
+    !Number.isInteger(concurrency) ||
+    concurrency < MIN_CONCURRENT_DOWNLOADS ||
+    concurrency > MAX_CONCURRENT_DOWNLOADS
+  ) {
+    return `Invalid concurrency ${concurrency} (must be an integer in [${MIN_CONCURRENT_DOWNLOADS}, ${MAX_CONCURRENT_DOWNLOADS}])`
+  }
+  return undefined
+}
+
+export const validateRequestTimeout = (
+  timeoutMs: number
+): string | undefined => {
+  if (
+    !Number.isFinite(timeoutMs) ||
+    timeoutMs < MIN_REQUEST_TIMEOUT_MS ||
+    timeoutMs > MAX_REQUEST_TIMEOUT_MS
+  ) {
+    return `Invalid timeoutMs ${timeoutMs} (must be in [${MIN_REQUEST_TIMEOUT_MS}, ${MAX_REQUEST_TIMEOUT_MS}])`
+  }
+  return undefined
+}
+
 // Validates a caller-supplied bounding box. Lat/Lon must be finite numbers in
 // the real-world range; minLat must be below maxLat so downstream tile math
 // doesn't silently iterate an empty or inverted span. minLon > maxLon is
@@ -101,47 +190,250 @@ export const validateBBox = (bbox: {
   return undefined
 }
 
+// Content negotiation for tile payloads. MBTiles and tile servers commonly
+// store vector tiles gzip-compressed (and occasionally zlib or brotli), with
+// nothing but the bytes themselves to say so. Every tile response goes
+// through sendTile, which sniffs the payload, sets the real Content-Type and
+// either forwards the compressed bytes with a Content-Encoding or, for a
+// client that didn't ask for that encoding, decompresses them.
+
+export type TileEncoding = 'gzip' | 'deflate' | 'br'
+
+const gunzip = promisify(zlib.gunzip)
+const inflate = promisify(zlib.inflate)
+const brotliDecompress = promisify(zlib.brotliDecompress)
+
+export const VECTOR_FORMATS = new Set(['pbf', 'mvt'])
+
+const CONTENT_TYPES: { [format: string]: string } = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  pbf: 'application/x-protobuf',
+  mvt: 'application/x-protobuf'
+}
+
+// Tile formats the plugin can serve from local charts.
+export const TILE_FORMATS = Object.keys(CONTENT_TYPES)
+
+const startsWith = (data: Buffer, bytes: number[], offset = 0): boolean =>
+  bytes.every((b, i) => data[offset + i] === b)
+
+// MIME type of an image payload from its magic bytes, or undefined when
+// the payload isn't a recognised image.
+export const sniffImageType = (data: Buffer): string | undefined => {
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png'
+  }
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(data, [0x47, 0x49, 0x46, 0x38])) return 'image/gif'
+  if (
+    startsWith(data, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(data, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return 'image/webp'
+  }
+  return undefined
+}
+
+// Gzip and zlib streams carry magic bytes; brotli has none, so a vector
+// payload that isn't already a plain protobuf tile (whose first field is
+// always a layer, tag 0x1a) is probed by decompressing it. The decoded bytes
+// are returned so the probe isn't repeated.
+// Input  (<1f 8b ...>)          -> { encoding: 'gzip' }
+// Input  (<1a ...>, 'pbf')      -> {}
+// Input  (<brotli data>, 'pbf') -> { encoding: 'br', decoded: <1a ...> }
+export const detectTileEncoding = async (
+  data: Buffer,
+  format: string | undefined
+): Promise<{ encoding?: TileEncoding; decoded?: Buffer }> => {
+  if (startsWith(data, [0x1f, 0x8b])) return { encoding: 'gzip' }
+  if (
+    data[0] === 0x78 &&
+    data.length > 1 &&
+    ((data[0] << 8) | data[1]!) % 31 === 0
+  ) {
+    return { encoding: 'deflate' }
+  }
+  if (
+    data.length === 0 ||
+    data[0] === 0x1a ||
+    !VECTOR_FORMATS.has(format?.toLowerCase() ?? '') ||
+    sniffImageType(data)
+  ) {
+    return {}
+  }
+  try {
+    return { encoding: 'br', decoded: await brotliDecompress(data) }
+  } catch (_err) {
+    return {}
+  }
+}
+
+// Whether an Accept-Encoding header allows `encoding`. Unlike Express's
+// req.acceptsEncodings, a missing header accepts nothing: clients that can't
+// decompress (some chart plotters, curl without --compressed) send none.
+// Input  ('gzip, deflate, br', 'br')   -> true
+// Input  ('gzip;q=0, *', 'gzip')       -> false
+// Input  (undefined, 'gzip')           -> false
+export const acceptsEncoding = (
+  header: string | undefined,
+  encoding: TileEncoding
+): boolean => {
+  if (!header) return false
+  let wildcard = false
+  for (const part of header.split(',')) {
+    const [token, ...params] = part.trim().toLowerCase().split(';')
+    const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='))
+    const accepted = q === undefined || parseFloat(q.slice(2)) > 0
+    if (token === encoding) return accepted
+    if (token === '*') wildcard = accepted
+  }
+  return wildcard
+}
+
+const decompress = (data: Buffer, encoding: TileEncoding): Promise<Buffer> =>
+  encoding === 'gzip'
+    ? gunzip(data)
+    : encoding === 'deflate'
+      ? inflate(data)
+      : brotliDecompress(data)
+
+// Content-Type of a tile: the image type when the bytes say so, otherwise
+// by the provider's declared format. Compressed payloads are vector tiles.
+export const tileContentType = (
+  data: Buffer,
+  format: string | undefined,
+  encoding?: TileEncoding
+): string => {
+  if (encoding) return CONTENT_TYPES.pbf!
+  return (
+    sniffImageType(data) ??
+    CONTENT_TYPES[format?.toLowerCase() ?? ''] ??
+    'application/octet-stream'
+  )
+}
+
+// Strong validator for a response body. Hashing the bytes actually sent
+// gives the compressed and decompressed forms of a tile different ETags, as
+// RFC 9110 requires for different representations.
+export const tileETag = (body: Buffer): string =>
+  `"${createHash('sha1').update(body).digest('base64url')}"`
+
+// If-None-Match uses the weak comparison, so a W/ prefix is ignored.
+// Input  ('"a", W/"b"', '"b"') -> true
+// Input  ('*', '"b"')          -> true
+export const matchesIfNoneMatch = (
+  header: string | undefined,
+  etag: string
+): boolean => {
+  if (!header) return false
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag)
+}
+
+// Sends a tile payload with negotiated headers, or a 304 when the client
+// already holds it. `headers` carries extras such as the MBTiles
+// Last-Modified.
+export const sendTile = async (
+  req: Request,
+  res: Response,
+  provider: ChartProvider,
+  data: Buffer,
+  headers: OutgoingHttpHeaders = {}
+): Promise<void> => {
+  const { encoding, decoded } = await detectTileEncoding(data, provider.format)
+  let body = data
+  const out: OutgoingHttpHeaders = {
+    // writeHead rejects undefined values.
+    ...Object.fromEntries(
+      Object.entries(headers).filter(([, v]) => v !== undefined)
+    ),
+    'Content-Type': tileContentType(data, provider.format, encoding),
+    'Cache-Control': tileCacheControl(provider)
+  }
+  if (encoding) {
+    out['Vary'] = 'Accept-Encoding'
+    if (acceptsEncoding(req.headers['accept-encoding'], encoding)) {
+      out['Content-Encoding'] = encoding
+    } else {
+      body = decoded ?? (await decompress(data, encoding))
+    }
+  }
+  out['ETag'] = tileETag(body)
+  if (matchesIfNoneMatch(req.headers['if-none-match'], out['ETag'])) {
+    delete out['Content-Type']
+    delete out['Content-Encoding']
+    res.writeHead(304, out)
+    res.end()
+    return
+  }
+  out['Content-Length'] = body.length
+  res.writeHead(200, out)
+  res.end(body)
+}
+
+// Ends a tile response that failed after the payload was read, e.g. a
+// corrupt compressed tile.
+const failTile = (res: Response, tileId: string, err: unknown): void => {
+  console.error(`Error sending tile ${tileId}:`, err)
+  if (!res.headersSent) res.sendStatus(500)
+}
+
+// Path of a tile in a directory chart; TMS directories count y from the
+// south.
+const directoryTilePath = (
+  provider: ChartProvider,
+  format: string,
+  z: number,
+  x: number,
+  y: number
+): string => {
+  const flippedY = Math.pow(2, z) - 1 - y
+  return path.resolve(
+    provider._filePath,
+    `${z}/${x}/${provider._flipY ? flippedY : y}.${format}`
+  )
+}
+
+const isMissingFileError = (err: NodeJS.ErrnoException): boolean =>
+  err.code === 'ENOENT' || err.code === 'EACCES' || err.code === 'EISDIR'
+
 export const serveTileFromFilesystem = (
+  req: Request,
   res: Response,
   provider: ChartProvider,
   z: number,
   x: number,
   y: number
 ) => {
-  const { format, _flipY, _filePath } = provider
+  const { format, _filePath } = provider
   const normalizedFormat = format?.toLowerCase() ?? ''
   if (!_filePath || !ALLOWED_TILE_FORMATS.has(normalizedFormat)) {
     res.sendStatus(404)
     return
   }
-  const flippedY = Math.pow(2, z) - 1 - y
-  const file = path.resolve(
-    _filePath,
-    `${z}/${x}/${_flipY ? flippedY : y}.${normalizedFormat}`
-  )
-  // sendFile already performs the stat and handles the error; the previous
-  // stat+access probe duplicated that work on every tile request. Its
-  // callback fires once per request with an err only when something went
-  // wrong (missing file, permission denied, header-already-sent aborts).
-  res.sendFile(file, responseHttpOptions, (err) => {
-    if (!err) return
-    const code = (err as NodeJS.ErrnoException).code
-    // express 5's send raises a NotFoundError (no `code`) when the file is
-    // missing, instead of the bare ENOENT it surfaced under express 4.
-    if (
-      code === 'ENOENT' ||
-      code === 'EACCES' ||
-      code === 'EISDIR' ||
-      err.name === 'NotFoundError'
-    ) {
-      if (!res.headersSent) res.sendStatus(404)
-    } else if (!res.headersSent) {
-      res.sendStatus(500)
-    }
-  })
+  const file = directoryTilePath(provider, normalizedFormat, z, x, y)
+  // Read whole rather than streamed with res.sendFile: tiles are small, and
+  // the ETag hash and compression sniffing need the bytes anyway.
+  fs.promises
+    .readFile(file)
+    .then((data) => sendTile(req, res, provider, data))
+    .catch((err: NodeJS.ErrnoException) => {
+      if (res.headersSent) return
+      if (isMissingFileError(err)) {
+        res.sendStatus(404)
+      } else {
+        failTile(res, `${provider.identifier}/${z}/${x}/${y}`, err)
+      }
+    })
 }
 
 export const serveTileFromMbtiles = (
+  req: Request,
   res: Response,
   provider: ChartProvider,
   z: number,
@@ -174,9 +466,15 @@ export const serveTileFromMbtiles = (
         )
         res.sendStatus(500)
       } else {
-        headers['Cache-Control'] = responseHttpOptions.headers['Cache-Control']
-        res.writeHead(200, headers)
-        res.end(tile)
+        // The library's own Content-Type/Content-Encoding guess assumes any
+        // compressed tile is gzip and always sets the encoding, and its ETag
+        // is the file's size and mtime, shared by every tile. Keep only
+        // Last-Modified.
+        sendTile(req, res, provider, tile, {
+          'Last-Modified': headers['Last-Modified']
+        }).catch((err) =>
+          failTile(res, `${provider.identifier}/${z}/${x}/${y}`, err)
+        )
       }
     }
   )
@@ -191,7 +489,140 @@ export const isMbtilesTileMissing = (err: Error): boolean => {
   return code === 'ENOENT'
 }
 
+// Tile bytes of a local chart as stored, or undefined when the chart has no
+// tile there. For callers that use the tile themselves instead of sending
+// it, such as the raster renderer.
+export const readLocalTile = async (
+  provider: ChartProvider,
+  z: number,
+  x: number,
+  y: number
+): Promise<Buffer | undefined> => {
+  const format = provider.format?.toLowerCase() ?? ''
+  if (provider._fileFormat === 'directory') {
+    if (!ALLOWED_TILE_FORMATS.has(format)) return undefined
+    try {
+      return await fs.promises.readFile(
+        directoryTilePath(provider, format, z, x, y)
+      )
+    } catch (err) {
+      if (isMissingFileError(err as NodeJS.ErrnoException)) return undefined
+      throw err
+    }
+  }
+  const handle = provider._mbtilesHandle
+  if (!handle) return undefined
+  return new Promise((resolve, reject) =>
+    handle.getTile(z, x, y, (err, tile) => {
+      if (err && isMbtilesTileMissing(err)) resolve(undefined)
+      else if (err) reject(err)
+      else resolve(tile)
+    })
+  )
+}
+
+// The tile of the first member chart that has one. Members come most
+// detailed first, so a tile missing from a large-scale chart falls through
+// to the next smaller scale.
+export const readCompositeTile = async (
+  members: ChartProvider[],
+  z: number,
+  x: number,
+  y: number
+): Promise<Buffer | undefined> => {
+  for (const member of members) {
+    const data = await readLocalTile(member, z, x, y)
+    if (data) return data
+  }
+  return undefined
+}
+
+export const serveTileFromComposite = async (
+  req: Request,
+  res: Response,
+  provider: ChartProvider,
+  members: ChartProvider[],
+  z: number,
+  x: number,
+  y: number
+) => {
+  try {
+    const data = await readCompositeTile(members, z, x, y)
+    if (data) {
+      await sendTile(req, res, provider, data)
+    } else {
+      res.sendStatus(404)
+    }
+  } catch (err) {
+    failTile(res, `${provider.identifier}/${z}/${x}/${y}`, err)
+  }
+}
+
+// Serves a tile past the provider's maxzoom from its ancestor at maxzoom,
+// read with `readTile`. Raster tiles are cropped to the requested tile and
+// scaled up: png here, JPEG and WebP with sharp. A vector tile is sent
+// whole: its geometry still covers the ancestor, and Content-Location names
+// that tile so clients can place it.
+export const serveOverzoomTile = async (
+  req: Request,
+  res: Response,
+  provider: ChartProvider,
+  readTile: (z: number, x: number, y: number) => Promise<Buffer | undefined>,
+  z: number,
+  x: number,
+  y: number
+) => {
+  const sourceZ = provider.maxzoom!
+  const levels = z - sourceZ
+  const sourceX = x >> levels
+  const sourceY = y >> levels
+  try {
+    const data = await readTile(sourceZ, sourceX, sourceY)
+    if (!data) {
+      res.sendStatus(404)
+      return
+    }
+    if (VECTOR_FORMATS.has(provider.format?.toLowerCase() ?? '')) {
+      await sendTile(req, res, provider, data, {
+        'Content-Location': req.path.replace(
+          /\/\d+\/\d+\/\d+$/,
+          `/${sourceZ}/${sourceX}/${sourceY}`
+        )
+      })
+      return
+    }
+    const column = x - (sourceX << levels)
+    const row = y - (sourceY << levels)
+    const format = provider.format?.toLowerCase() ?? ''
+    let scaled: Buffer | undefined
+    if (isScalableImageFormat(format)) {
+      scaled = await cropAndScaleImage(data, format, levels, column, row)
+    } else {
+      const image = decodePng(data)
+      scaled = image && encodePng(cropAndScale(image, levels, column, row))
+    }
+    if (!scaled) {
+      res.sendStatus(404)
+      return
+    }
+    await sendTile(req, res, provider, scaled)
+  } catch (err) {
+    failTile(res, `${provider.identifier}/${z}/${x}/${y}`, err)
+  }
+}
+
+// Undoes the gzip, zlib or brotli compression a vector tile is stored with.
+export const decodeTile = async (
+  data: Buffer,
+  format: string | undefined
+): Promise<Buffer> => {
+  const { encoding, decoded } = await detectTileEncoding(data, format)
+  if (!encoding) return data
+  return decoded ?? decompress(data, encoding)
+}
+
 export const serveTileFromCacheOrRemote = async (
+  req: Request,
   res: Response,
   cachePath: string,
   provider: ChartProvider,
@@ -199,15 +630,26 @@ export const serveTileFromCacheOrRemote = async (
   x: number,
   y: number
 ) => {
-  const buffer = await ChartDownloader.getTileFromCacheOrRemote(
-    cachePath,
-    provider,
-    { x, y, z }
-  )
-  if (!buffer) {
+  const result = await ChartDownloader.loadTile(cachePath, provider, {
+    x,
+    y,
+    z
+  })
+  if (!result.buffer) {
+    // Throttled: the client is told when a retry can get through instead
+    // of seeing the server as broken.
+    if (result.retryAfterMs !== undefined) {
+      res.set(
+        'Retry-After',
+        String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)))
+      )
+      res.sendStatus(503)
+      return
+    }
     res.sendStatus(502)
     return
   }
-  res.set('Content-Type', `image/${provider.format}`)
-  res.send(buffer)
+  await sendTile(req, res, provider, result.buffer).catch((err) =>
+    failTile(res, `${provider.identifier}/${z}/${x}/${y}`, err)
+  )
 }
@@ -31,6 +31,36 @@ export interface MBTilesHandle {
   on: (event: 'error', listener: (err: Error) => void) => MBTilesHandle
 }
 
+// One entry of the TileJSON / MBTiles `vector_layers` array. `fields` maps
+// attribute names to their type ("String", "Number", "Boolean").
+export interface VectorLayer {
+  id: string
+  description?: string
+  minzoom?: number
+  maxzoom?: number
+  fields?: { [name: string]: string }
+}
+
+// Mapbox tilestats: per-layer feature counts and attribute value summaries,
+// written by tippecanoe and most vector MBTiles tools.
+export interface TileStats {
+  layerCount: number
+  layers: Array<{
+    layer: string
+    count: number
+    geometry?: string
+    attributeCount?: number
+    attributes?: Array<{
+      attribute: string
+      count?: number
+      type?: string
+      values?: unknown[]
+      min?: number
+      max?: number
+    }>
+  }>
+}
+
 // MBTiles metadata rows relevant to the plugin. `bounds` is commonly a
 // comma-separated string in the spec but some writers emit an array; both
 // are tolerated at parse time.
@@ -43,7 +73,13 @@ export interface MBTilesMetadata {
   maxzoom?: number
   format?: string
   scale?: string
-  vector_layers?: Array<{ id: string }>
+  attribution?: string
+  // [lon, lat, zoom]; the library fills it in from bounds when missing.
+  center?: number[]
+  vector_layers?: VectorLayer[]
+  // An object when it came in the "json" row, a JSON string when written
+  // as a row of its own.
+  tilestats?: TileStats | string
 }
 
 export interface ChartProvider {
@@ -51,6 +87,21 @@ export interface ChartProvider {
   _filePath: string
   _mbtilesHandle?: MBTilesHandle
   _flipY?: boolean
+  // Chart metadata only used to build the TileJSON document.
+  _attribution?: string
+  _center?: number[]
+  // style.json of a local vector chart and the folder with its sprites/ and
+  // fonts/, see chartStyle.ts.
+  _stylePath?: string
+  _styleAssetsDir?: string
+  // Member chart identifiers of a composite chart, most detailed first; see
+  // compositeCharts.ts.
+  _compositeOf?: string[]
+  // Zoom levels served past maxzoom by overzoom, from the plugin config.
+  _overzoomLevels?: number
+  // The chart's own minzoom when underzoom lowered `minzoom` to include the
+  // overview levels; see underzoom.ts.
+  _nativeMinzoom?: number
   identifier: string
   name: string
   description: string
@@ -62,7 +113,11 @@ export interface ChartProvider {
   }
   v2?: {
     url: string
+    // Layer ids; WMS/WMTS layer names for online providers.
     layers?: string[]
+    // Full vector chart metadata, for clients building a style.
+    vectorLayers?: VectorLayer[]
+    tilestats?: TileStats
   }
   bounds?: number[]
   minzoom?: number
@@ -73,9 +128,18 @@ export interface ChartProvider {
   proxy?: boolean
   remoteUrl?: string
   headers?: { [key: string]: string }
+  _maxRequestsPerSecond?: number
+  _concurrentDownloads?: number
+  _requestTimeoutMs?: number
+  _cacheMaxAgeMs?: number
+  _cacheQuotaBytes?: number
+  _tileMaxAgeSeconds?: number
 }
 
 export interface OnlineChartProvider {
+  // Set when the provider was written through the resources API under an id
+  // its name doesn't give; otherwise the identifier comes from the name.
+  identifier?: string
   name: string
   description: string
   minzoom: number
@@ -87,4 +151,10 @@ export interface OnlineChartProvider {
   headers?: string[]
   style: string
   layers: string[]
+  maxRequestsPerSecond?: number
+  concurrentDownloads?: number
+  requestTimeoutMs?: number
+  cacheMaxAgeDays?: number
+  cacheQuotaMB?: number
+  tileMaxAgeHours?: number
 }
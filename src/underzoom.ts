@@ -0,0 +1,351 @@
+// Underzoom: overview tiles below a chart's minzoom. Harbour charts often
+// only hold zooms 13-17, so nothing marks where they are at passage
+// planning zooms. For a png chart with underzoom configured, each tile
+// below its minzoom is built from its four children, halved and stitched
+// together, recursively down to the chart's own tiles. Built tiles are kept
+// in the tile cache under "<identifier>.underzoom"; an overview job builds
+// all of them ahead of time so browsing never waits on the recursion, and a
+// live request only builds what a few levels of it take.
+
+import { promises as fs } from 'fs'
+import { ChartDownloader, Tile } from './chartDownloader'
+import { decodePng, encodePng, mosaicQuadrants } from './png'
+import { lonLatToTile, tileTouchesBounds } from './projection'
+import { tileCacheFor } from './tileCache'
+import { ChartProvider } from './types'
+
+// Each level down multiplies the tiles read by four; eight levels take a
+// zoom 13 harbour chart out to zoom 5.
+export const MAX_UNDERZOOM_LEVELS = 8
+
+export const validateUnderzoomLevels = (levels: number): string | undefined => {
+  if (
+    !Number.isInteger(levels) ||
+    levels < 1 ||
+    levels > MAX_UNDERZOOM_LEVELS
+  ) {
+    return `Invalid underzoom levels ${levels} (must be an integer in [1, ${MAX_UNDERZOOM_LEVELS}])`
+  }
+  return undefined
+}
+
+export type TileReader = (
+  z: number,
+  x: number,
+  y: number
+) => Promise<Buffer | undefined>
+
+// Lowers the chart's minzoom by `levels` so clients ask for the overviews,
+// keeping its own minzoom in _nativeMinzoom. Only png tiles can be decoded
+// and stitched here, and only charts on this server are worth it: online
+// sources have their own overviews. Returns why underzoom can't be enabled.
+export const enableUnderzoom = (
+  provider: ChartProvider,
+  levels: number
+): string | undefined => {
+  const levelsError = validateUnderzoomLevels(levels)
+  if (levelsError) return levelsError
+  if (!provider._fileFormat && !provider._compositeOf) {
+    return 'not a local or composite chart'
+  }
+  if (provider.format?.toLowerCase() !== 'png') {
+    return `tiles are ${provider.format}, not png`
+  }
+  const nativeMinzoom = provider._nativeMinzoom ?? provider.minzoom
+  if (!nativeMinzoom) return 'the chart starts at zoom 0'
+  provider._nativeMinzoom = nativeMinzoom
+  provider.minzoom = Math.max(0, nativeMinzoom - levels)
+  return undefined
+}
+
+// Whether a tile is an overview built by underzoom.
+export const isUnderzoomTile = (provider: ChartProvider, z: number): boolean =>
+  provider._nativeMinzoom !== undefined &&
+  z < provider._nativeMinzoom &&
+  z >= (provider.minzoom ?? 0)
+
+export const underzoomCacheProvider = (provider: ChartProvider) => ({
+  name: `${provider.identifier}.underzoom`,
+  format: 'png'
+})
+
+// Newest change to the files tiles are built from, so replacing a chart
+// rebuilds its cached overviews.
+const newestModification = async (files: string[]): Promise<number> => {
+  const times = await Promise.all(
+    files
+      .filter((f) => !!f)
+      .map((f) =>
+        fs.stat(f).then(
+          (s) => s.mtimeMs,
+          () => 0
+        )
+      )
+  )
+  return Math.max(0, ...times)
+}
+
+// Chart tiles one live request may read while building an overview: 64 is
+// three levels below the chart's minzoom. Deeper overviews are left to the
+// overview job, and come in as requests nearer the chart cache the levels
+// between.
+export const LIVE_UNDERZOOM_READS = 64
+
+export interface UnderzoomOptions {
+  // Newest change to the chart files, when the caller has it already.
+  modifiedAt?: number
+  maxReads?: number
+}
+
+// A build that ran out of reads; nothing above it is cached.
+const UNFINISHED = Symbol('unfinished')
+type BuildResult = Buffer | undefined | typeof UNFINISHED
+
+// Builds in progress per chart and tile, so concurrent requests for
+// overlapping overviews share the work.
+const building = new WeakMap<ChartProvider, Map<string, Promise<BuildResult>>>()
+
+// The overview tile, built from the chart's tiles read with `readTile`, or
+// undefined when no tile of the chart lies beneath it or building it would
+// take more than `maxReads` chart tiles. `sourceFiles` are the chart files
+// whose changes make cached overviews stale. Empty overviews are cached as
+// zero-length tiles, so they aren't searched again.
+// Input  (chart minzoom 13, tile 11/1130/684) -> mosaic of the 16 tiles
+//        at zoom 13 beneath it, via the four cached zoom 12 overviews
+export const loadUnderzoomTile = async (
+  cachePath: string,
+  provider: ChartProvider,
+  readTile: TileReader,
+  sourceFiles: string[],
+  tile: Tile,
+  {
+    modifiedAt: knownModifiedAt,
+    maxReads = LIVE_UNDERZOOM_READS
+  }: UnderzoomOptions = {}
+): Promise<Buffer | undefined> => {
+  const nativeMinzoom = provider._nativeMinzoom ?? provider.minzoom ?? 0
+  const cacheProvider = underzoomCacheProvider(provider)
+  const storage = tileCacheFor(cachePath, cacheProvider)
+  const modifiedAt = knownModifiedAt ?? (await newestModification(sourceFiles))
+  let builds = building.get(provider)
+  if (!builds) {
+    builds = new Map()
+    building.set(provider, builds)
+  }
+  const inFlight = builds
+  let reads = 0
+
+  const build = async (t: Tile): Promise<BuildResult> => {
+    if (t.z >= nativeMinzoom) {
+      if (++reads > maxReads) return UNFINISHED
+      return readTile(t.z, t.x, t.y)
+    }
+    if (provider.bounds && !tileTouchesBounds(t.x, t.y, t.z, provider.bounds)) {
+      return undefined
+    }
+    const key = `${t.z}/${t.x}/${t.y}`
+    const pending = inFlight.get(key)
+    if (pending) {
+      const shared = await pending
+      // Another request ran out of reads; try with this one's.
+      if (shared !== UNFINISHED) return shared
+    }
+    const result = buildOverview(t)
+    inFlight.set(key, result)
+    try {
+      return await result
+    } finally {
+      if (inFlight.get(key) === result) inFlight.delete(key)
+    }
+  }
+
+  const buildOverview = async (t: Tile): Promise<BuildResult> => {
+    try {
+      const hit = await storage.get(t)
+      if (hit && hit.fetchedAt >= modifiedAt) {
+        ChartDownloader.cacheQuota?.recordRead(cacheProvider, t, hit.fetchedAt)
+        return hit.data.length > 0 ? hit.data : undefined
+      }
+    } catch (err) {
+      console.error(
+        `Error reading overview tile ${provider.identifier}/${t.z}/${t.x}/${t.y}:`,
+        err
+      )
+    }
+    // One child at a time: at most four decoded images per level are held.
+    const children = []
+    for (const [dx, dy] of [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1]
+    ]) {
+      const data = await build({
+        z: t.z + 1,
+        x: t.x * 2 + dx!,
+        y: t.y * 2 + dy!
+      })
+      if (data === UNFINISHED) return UNFINISHED
+      children.push(data && decodePng(data))
+    }
+    const image = mosaicQuadrants(children)
+    const png = image ? encodePng(image) : Buffer.alloc(0)
+    try {
+      await storage.put(t, png)
+      ChartDownloader.cacheQuota?.recordWrite(cacheProvider, t, png.length)
+    } catch (err) {
+      console.error(
+        `Error caching overview tile ${provider.identifier}/${t.z}/${t.x}/${t.y}:`,
+        err
+      )
+    }
+    return image ? png : undefined
+  }
+
+  const result = await build(tile)
+  return result === UNFINISHED ? undefined : result
+}
+
+export enum OverviewStatus {
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Cancelled = 'cancelled'
+}
+
+// Tile columns and rows of a zoom level covered by the chart bounds; the
+// whole level for charts crossing the antimeridian.
+const tileRange = (bounds: number[], z: number) => {
+  const [west, lat1, east, lat2] = bounds as [number, number, number, number]
+  const last = 2 ** z - 1
+  const clamp = (n: number) => Math.min(last, Math.max(0, n))
+  const [minX, minY] = lonLatToTile(west, Math.max(lat1, lat2), z)
+  const [maxX, maxY] = lonLatToTile(east, Math.min(lat1, lat2), z)
+  return west > east
+    ? { minX: 0, maxX: last, minY: clamp(minY), maxY: clamp(maxY) }
+    : {
+        minX: clamp(minX),
+        maxX: clamp(maxX),
+        minY: clamp(minY),
+        maxY: clamp(maxY)
+      }
+}
+
+// Builds every overview of a chart into the cache, deepest level first so
+// each level is stitched from the cached one below it.
+export class OverviewJob {
+  private status = OverviewStatus.Running
+  private totalTiles = 0
+  private builtTiles = 0
+  private error: string | undefined
+  private cancelRequested = false
+
+  constructor(
+    readonly id: number,
+    private cachePath: string,
+    private provider: ChartProvider,
+    private readTile: TileReader,
+    private sourceFiles: string[]
+  ) {}
+
+  async run(): Promise<void> {
+    const { bounds, minzoom = 0, _nativeMinzoom = minzoom } = this.provider
+    // Without bounds the job would cover the whole world at every level.
+    if (!bounds) {
+      this.error = 'The chart has no bounds'
+      this.status = OverviewStatus.Failed
+      return
+    }
+    const levels = []
+    for (let z = _nativeMinzoom - 1; z >= minzoom; z--) {
+      levels.push({ z, ...tileRange(bounds, z) })
+    }
+    this.totalTiles = levels.reduce(
+      (sum, l) => sum + (l.maxX - l.minX + 1) * (l.maxY - l.minY + 1),
+      0
+    )
+    try {
+      const modifiedAt = await newestModification(this.sourceFiles)
+      for (const { z, minX, maxX, minY, maxY } of levels) {
+        for (let x = minX; x <= maxX; x++) {
+          for (let y = minY; y <= maxY; y++) {
+            if (this.cancelRequested) {
+              this.status = OverviewStatus.Cancelled
+              return
+            }
+            await loadUnderzoomTile(
+              this.cachePath,
+              this.provider,
+              this.readTile,
+              this.sourceFiles,
+              { z, x, y },
+              { modifiedAt, maxReads: Infinity }
+            )
+            this.builtTiles++
+          }
+        }
+      }
+      this.status = OverviewStatus.Completed
+    } catch (err) {
+      this.error = (err as Error).message
+      this.status = OverviewStatus.Failed
+    }
+  }
+
+  cancel(): void {
+    this.cancelRequested = true
+  }
+
+  info() {
+    return {
+      id: this.id,
+      provider: this.provider.identifier,
+      status: this.status,
+      minZoom: this.provider.minzoom,
+      maxZoom: (this.provider._nativeMinzoom ?? 0) - 1,
+      totalTiles: this.totalTiles,
+      builtTiles: this.builtTiles,
+      progress: this.totalTiles > 0 ? this.builtTiles / this.totalTiles : 0,
+      error: this.error
+    }
+  }
+}
+
+export class OverviewJobManager {
+  public static ActiveJobs: { [key: number]: OverviewJob } = {}
+  private static nextJobId = 1
+
+  // Starts the job in the background and returns it right away; progress
+  // is polled through GET /cache/overviews.
+  public static createJob(
+    cachePath: string,
+    provider: ChartProvider,
+    readTile: TileReader,
+    sourceFiles: string[]
+  ): OverviewJob {
+    const job = new OverviewJob(
+      this.nextJobId++,
+      cachePath,
+      provider,
+      readTile,
+      sourceFiles
+    )
+    this.ActiveJobs[job.id] = job
+    job.run()
+    return job
+  }
+
+  // True while a job is building overviews of the chart.
+  public static isBuilding(identifier: string): boolean {
+    return Object.values(this.ActiveJobs).some(
+      (job) =>
+        job.info().provider === identifier &&
+        job.info().status === OverviewStatus.Running
+    )
+  }
+
+  public static cancelAll(): void {
+    for (const job of Object.values(this.ActiveJobs)) job.cancel()
+    this.ActiveJobs = {}
+  }
+}
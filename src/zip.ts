@@ -0,0 +1,171 @@
+// Just enough ZIP to unpack an uploaded chart directory: stored and deflated
+// entries, read from the central directory. ZIP64 and encrypted archives are
+// refused. Pure JS like png.ts, so uploads don't need an unzip library.
+
+import fs from 'fs'
+import path from 'path'
+import zlib from 'zlib'
+import { Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+
+export interface ZipEntry {
+  name: string
+  // 0 stored, 8 deflated.
+  method: number
+  flags: number
+  compressedSize: number
+  size: number
+  localHeaderOffset: number
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+// The end record is 22 bytes plus a comment of up to 64 KiB.
+const MAX_END_RECORD = 22 + 0xffff
+
+const readAt = async (
+  handle: fs.promises.FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> => {
+  const buffer = Buffer.alloc(length)
+  const { bytesRead } = await handle.read(buffer, 0, length, position)
+  if (bytesRead < length) throw new Error('Truncated zip archive')
+  return buffer
+}
+
+// Lists the entries of an archive, directories (names ending in "/")
+// included. Throws when the file isn't a zip archive it can read.
+export const readZipEntries = async (file: string): Promise<ZipEntry[]> => {
+  const handle = await fs.promises.open(file, 'r')
+  try {
+    const { size } = await handle.stat()
+    const tailLength = Math.min(size, MAX_END_RECORD)
+    const tail = await readAt(handle, size - tailLength, tailLength)
+    let end = -1
+    for (let i = tailLength - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        end = i
+        break
+      }
+    }
+    if (end < 0) throw new Error('Not a zip archive')
+    const count = tail.readUInt16LE(end + 10)
+    const directorySize = tail.readUInt32LE(end + 12)
+    const directoryOffset = tail.readUInt32LE(end + 16)
+    if (count === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported')
+    }
+    const directory = await readAt(handle, directoryOffset, directorySize)
+    const entries: ZipEntry[] = []
+    for (let at = 0, n = 0; n < count; n++) {
+      if (directory.readUInt32LE(at) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Corrupt zip central directory')
+      }
+      const nameLength = directory.readUInt16LE(at + 28)
+      entries.push({
+        flags: directory.readUInt16LE(at + 8),
+        method: directory.readUInt16LE(at + 10),
+        compressedSize: directory.readUInt32LE(at + 20),
+        size: directory.readUInt32LE(at + 24),
+        localHeaderOffset: directory.readUInt32LE(at + 42),
+        name: directory.toString('utf8', at + 46, at + 46 + nameLength)
+      })
+      at +=
+        46 +
+        nameLength +
+        directory.readUInt16LE(at + 30) +
+        directory.readUInt16LE(at + 32)
+    }
+    return entries
+  } finally {
+    await handle.close()
+  }
+}
+
+// Where an entry lands inside `dir`, or undefined for names that would
+// escape it (absolute paths, "..").
+// Input  ("harbour/3/4/2.png")  -> "<dir>/harbour/3/4/2.png"
+// Input  ("../../etc/passwd")   -> undefined
+export const zipEntryPath = (dir: string, name: string): string | undefined => {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/'))
+  if (
+    path.posix.isAbsolute(normalized) ||
+    /^[A-Za-z]:/.test(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../')
+  ) {
+    return undefined
+  }
+  return path.join(dir, ...normalized.split('/'))
+}
+
+// Fails an entry that inflates past its recorded size: callers check free
+// disk space against the recorded sizes.
+const limitSize = (entry: ZipEntry): Transform => {
+  let written = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length
+      if (written > entry.size) {
+        callback(new Error(`Zip entry ${entry.name} is larger than recorded`))
+      } else {
+        callback(null, chunk)
+      }
+    }
+  })
+}
+
+// Unpacks `entries` of the archive `file` into `dir`, one entry at a time
+// and streamed, so large tile sets don't have to fit in memory.
+export const extractZip = async (
+  file: string,
+  entries: ZipEntry[],
+  dir: string
+): Promise<void> => {
+  const handle = await fs.promises.open(file, 'r')
+  try {
+    for (const entry of entries) {
+      const target = zipEntryPath(dir, entry.name)
+      if (!target) throw new Error(`Unsafe path in zip: ${entry.name}`)
+      if (entry.name.endsWith('/')) {
+        await fs.promises.mkdir(target, { recursive: true })
+        continue
+      }
+      if (entry.flags & 1) throw new Error(`Encrypted zip entry ${entry.name}`)
+      if (entry.method !== 0 && entry.method !== 8) {
+        throw new Error(
+          `Unsupported compression method ${entry.method} for ${entry.name}`
+        )
+      }
+      const header = await readAt(handle, entry.localHeaderOffset, 30)
+      if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt zip entry ${entry.name}`)
+      }
+      const start =
+        entry.localHeaderOffset +
+        30 +
+        header.readUInt16LE(26) +
+        header.readUInt16LE(28)
+      await fs.promises.mkdir(path.dirname(target), { recursive: true })
+      if (entry.compressedSize === 0) {
+        await fs.promises.writeFile(target, '')
+        continue
+      }
+      const data = handle.createReadStream({
+        start,
+        end: start + entry.compressedSize - 1,
+        autoClose: false
+      })
+      const out = fs.createWriteStream(target)
+      if (entry.method === 8) {
+        await pipeline(data, zlib.createInflateRaw(), limitSize(entry), out)
+      } else {
+        await pipeline(data, limitSize(entry), out)
+      }
+    }
+  } finally {
+    await handle.close()
+  }
+}
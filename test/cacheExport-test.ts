@@ -0,0 +1,154 @@
+/**
+ * Unit tests for cacheExport.ts. Exports a small tile tree from a temp cache
+ * and reads the resulting MBTiles back with @signalk/mbtiles. The HTTP
+ * endpoint is covered in plugin-test.ts.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { expect } from 'chai'
+import {
+  ChartExportJob,
+  ExportStatus,
+  normalizeExportFilename
+} from '../src/cacheExport'
+import { ChartProvider, MBTilesHandle, MBTilesMetadata } from '../src/types'
+
+// Same-drive temp dir; see the TMP_BASE note in plugin-test.ts.
+const TMP_BASE = path.resolve(__dirname, '.tmp')
+
+const provider = {
+  identifier: 'export',
+  name: 'Export',
+  format: 'png'
+} as ChartProvider
+
+const resourcesApi = {} as Parameters<ChartExportJob['run']>[0]
+
+const openMbtiles = async (file: string) => {
+  const module = await import('@signalk/mbtiles')
+  const MBTiles = module.default || module
+  return new Promise<MBTilesHandle>((resolve, reject) => {
+    new MBTiles(`${file}?mode=ro`, (err: Error | null, m: MBTilesHandle) =>
+      err ? reject(err) : resolve(m)
+    )
+  })
+}
+
+const readTile = (m: MBTilesHandle, z: number, x: number, y: number) =>
+  new Promise<Buffer | null>((resolve) =>
+    m.getTile(z, x, y, (err, tile) => resolve(err ? null : tile))
+  )
+
+const readInfo = (m: MBTilesHandle) =>
+  new Promise<MBTilesMetadata>((resolve, reject) =>
+    m.getInfo((err, info) => (err ? reject(err) : resolve(info)))
+  )
+
+describe('cacheExport: ChartExportJob', () => {
+  let dir: string
+  let cacheDir: string
+  let output: string
+
+  const writeTile = (z: number, x: number, y: number) => {
+    const p = path.join(cacheDir, 'Export', `${z}`, `${x}`, `${y}.png`)
+    fs.mkdirSync(path.dirname(p), { recursive: true })
+    fs.writeFileSync(p, `tile ${z}/${x}/${y}`)
+  }
+
+  beforeEach(() => {
+    fs.mkdirSync(TMP_BASE, { recursive: true })
+    dir = fs.mkdtempSync(path.join(TMP_BASE, 'export-'))
+    cacheDir = path.join(dir, 'cache')
+    output = path.join(dir, 'passage.mbtiles')
+    // z=1 covers the whole northern-western quadrant; z=3 tiles sit in it.
+    writeTile(1, 0, 0)
+    writeTile(3, 1, 1)
+    writeTile(3, 3, 3)
+    // Far east, outside the bbox used below.
+    writeTile(3, 7, 1)
+  })
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('writes every cached tile with metadata', async () => {
+    const job = new ChartExportJob(1, cacheDir, provider, output)
+    await job.run(resourcesApi, { name: 'Passage' })
+    expect(job.info()).to.include({
+      status: ExportStatus.Completed,
+      totalTiles: 4,
+      exportedTiles: 4,
+      progress: 1
+    })
+    expect(fs.existsSync(`${output}.part`)).to.equal(false)
+
+    const m = await openMbtiles(output)
+    try {
+      expect((await readTile(m, 3, 1, 1))?.toString()).to.equal('tile 3/1/1')
+      expect((await readTile(m, 1, 0, 0))?.toString()).to.equal('tile 1/0/0')
+      const info = await readInfo(m)
+      expect(info).to.include({
+        name: 'Passage',
+        format: 'png',
+        minzoom: 1,
+        maxzoom: 3
+      })
+      expect(info.bounds).to.have.length(4)
+    } finally {
+      await new Promise((r) => m.close(r))
+    }
+  })
+
+  it('clips to a bbox and zoom range', async () => {
+    const job = new ChartExportJob(1, cacheDir, provider, output)
+    await job.run(resourcesApi, {
+      area: { type: 'bbox', bbox: [-170, 10, -10, 80] },
+      minZoom: 2
+    })
+    expect(job.info()).to.include({ totalTiles: 2, exportedTiles: 2 })
+    const m = await openMbtiles(output)
+    try {
+      expect(await readTile(m, 1, 0, 0)).to.equal(null)
+      expect(await readTile(m, 3, 7, 1)).to.equal(null)
+      expect(await readTile(m, 3, 3, 3)).to.not.equal(null)
+    } finally {
+      await new Promise((r) => m.close(r))
+    }
+  })
+
+  it('clips to the descendants of a tile', async () => {
+    const job = new ChartExportJob(1, cacheDir, provider, output)
+    await job.run(resourcesApi, {
+      area: { type: 'tile', tile: { z: 2, x: 0, y: 0 } }
+    })
+    // Only 3/1/1 lies under 2/0/0; the parent 1/0/0 is above it.
+    expect(job.info()).to.include({ totalTiles: 1 })
+  })
+
+  it('fails without writing a file when nothing matches', async () => {
+    const job = new ChartExportJob(1, cacheDir, provider, output)
+    await job.run(resourcesApi, { minZoom: 10 })
+    expect(job.info().status).to.equal(ExportStatus.Failed)
+    expect(job.info().error).to.match(/No cached tiles/)
+    expect(fs.existsSync(output)).to.equal(false)
+    expect(fs.existsSync(`${output}.part`)).to.equal(false)
+  })
+})
+
+describe('cacheExport: normalizeExportFilename', () => {
+  it('adds the .mbtiles extension', () => {
+    expect(normalizeExportFilename('passage-2024')).to.deep.equal({
+      filename: 'passage-2024.mbtiles'
+    })
+    expect(normalizeExportFilename('passage.MBTILES')).to.deep.equal({
+      filename: 'passage.MBTILES'
+    })
+  })
+
+  it('rejects paths, hidden files and odd characters', () => {
+    for (const bad of ['../up', 'a/b', '.hidden', 'with space', '']) {
+      expect(normalizeExportFilename(bad)).to.have.property('error')
+    }
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for cacheQuota.ts. Tiles are real files in a temp dir so the
+ * scan and eviction paths run against the filesystem; time comes from a fake
+ * clock so LRU order is deterministic.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import { CacheQuota, megabytesToBytes } from '../src/cacheQuota'
+import { closeTileCaches, tileMetaPath } from '../src/tileCache'
+
+describe('cacheQuota: CacheQuota', () => {
+  let cacheDir: string
+  let clock: number
+  let seeded: Set<string>
+  let quota: CacheQuota
+
+  const provider = (name: string) => ({ name, format: 'png' })
+
+  const tilePath = (name: string, z: number, x: number, y: number) =>
+    path.join(cacheDir, name, `${z}`, `${x}`, `${y}.png`)
+
+  // Writes a tile of `size` bytes and reports it, as loadTile does.
+  const writeTile = (
+    name: string,
+    z: number,
+    x: number,
+    y: number,
+    size = 100
+  ) => {
+    const p = tilePath(name, z, x, y)
+    fs.mkdirSync(path.dirname(p), { recursive: true })
+    fs.writeFileSync(p, Buffer.alloc(size))
+    quota.recordWrite(provider(name), { z, x, y }, size)
+    clock += 1000
+  }
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-'))
+    clock = 1_000_000
+    seeded = new Set()
+    quota = new CacheQuota(
+      cacheDir,
+      (name, { z, x, y }) => seeded.has(`${name}/${z}/${x}/${y}`),
+      () => clock
+    )
+  })
+  afterEach(async () => {
+    quota.close()
+    await quota.whenIdle()
+    await closeTileCaches()
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('counts written tiles per provider and in total', () => {
+    writeTile('a', 1, 0, 0, 100)
+    writeTile('a', 1, 0, 1, 50)
+    writeTile('b', 1, 0, 0, 10)
+    // Rewriting a tile replaces its size instead of adding to it.
+    writeTile('a', 1, 0, 1, 70)
+    expect(quota.usage('a')).to.deep.equal({ tiles: 2, bytes: 170 })
+    expect(quota.usage()).to.deep.equal({ tiles: 3, bytes: 180 })
+    expect(quota.usage('missing')).to.deep.equal({ tiles: 0, bytes: 0 })
+  })
+
+  it('evicts the least recently used tiles down to the low-water mark', async () => {
+    quota.setProviderQuota('a', 1000)
+    for (let y = 0; y < 10; y++) writeTile('a', 1, 0, y)
+    // Reading the oldest tile makes it the most recently used.
+    quota.recordRead(provider('a'), { z: 1, x: 0, y: 0 }, clock)
+    clock += 1000
+    writeTile('a', 1, 0, 10)
+    await quota.whenIdle()
+
+    // 1100 bytes against a 1000 quota: evict to 900, i.e. two tiles.
+    expect(quota.usage('a')).to.deep.equal({ tiles: 9, bytes: 900 })
+    expect(fs.existsSync(tilePath('a', 1, 0, 0))).to.equal(true)
+    expect(fs.existsSync(tilePath('a', 1, 0, 1))).to.equal(false)
+    expect(fs.existsSync(tilePath('a', 1, 0, 2))).to.equal(false)
+    expect(fs.existsSync(tilePath('a', 1, 0, 3))).to.equal(true)
+  })
+
+  it('removes the validator sidecar with the tile', async () => {
+    quota.setProviderQuota('a', 150)
+    writeTile('a', 1, 0, 0)
+    fs.writeFileSync(tileMetaPath(tilePath('a', 1, 0, 0)), '{"etag":"x"}')
+    writeTile('a', 1, 0, 1)
+    await quota.whenIdle()
+    expect(fs.existsSync(tileMetaPath(tilePath('a', 1, 0, 0)))).to.equal(false)
+  })
+
+  it('never evicts tiles of a listed seeding job', async () => {
+    quota.setProviderQuota('a', 250)
+    seeded.add('a/1/0/0')
+    seeded.add('a/1/0/1')
+    writeTile('a', 1, 0, 0)
+    writeTile('a', 1, 0, 1)
+    writeTile('a', 1, 0, 2)
+    writeTile('a', 1, 0, 3)
+    await quota.whenIdle()
+    expect(fs.existsSync(tilePath('a', 1, 0, 0))).to.equal(true)
+    expect(fs.existsSync(tilePath('a', 1, 0, 1))).to.equal(true)
+    expect(quota.usage('a').tiles).to.equal(2)
+  })
+
+  it('evicts across providers for the total quota', async () => {
+    quota.totalQuotaBytes = 300
+    writeTile('a', 1, 0, 0)
+    writeTile('b', 1, 0, 0)
+    writeTile('a', 1, 0, 1)
+    writeTile('b', 1, 0, 1)
+    await quota.whenIdle()
+    // 400 against 300: evict to 270, i.e. the two oldest tiles.
+    expect(quota.usage()).to.deep.equal({ tiles: 2, bytes: 200 })
+    expect(fs.existsSync(tilePath('a', 1, 0, 0))).to.equal(false)
+    expect(fs.existsSync(tilePath('b', 1, 0, 0))).to.equal(false)
+  })
+
+  it('recordRead keeps the tile mtime so max-age is unaffected', async () => {
+    writeTile('a', 1, 0, 0)
+    const p = tilePath('a', 1, 0, 0)
+    const mtime = new Date('2020-01-01T00:00:00Z')
+    fs.utimesSync(p, mtime, mtime)
+    quota.recordRead(provider('a'), { z: 1, x: 0, y: 0 }, mtime.getTime())
+    // markAccessed runs detached; give it a turn of the event loop.
+    await new Promise((r) => setTimeout(r, 20))
+    const stat = fs.statSync(p)
+    expect(stat.mtimeMs).to.equal(mtime.getTime())
+    expect(stat.atimeMs).to.equal(clock)
+  })
+
+  it('scan picks up cached tiles in atime order and evicts the oldest', async () => {
+    for (let y = 0; y < 4; y++) {
+      const p = tilePath('a', 2, 1, y)
+      fs.mkdirSync(path.dirname(p), { recursive: true })
+      fs.writeFileSync(p, Buffer.alloc(100))
+      // y=0 is the most recently used.
+      const atime = new Date(2_000_000_000_000 - y * 1000)
+      fs.utimesSync(p, atime, atime)
+    }
+    fs.writeFileSync(tileMetaPath(tilePath('a', 2, 1, 0)), '{}')
+    quota.setProviderQuota('a', 350)
+    await quota.scan(provider('a'))
+    await quota.whenIdle()
+    expect(quota.usage('a')).to.deep.equal({ tiles: 3, bytes: 300 })
+    expect(fs.existsSync(tilePath('a', 2, 1, 3))).to.equal(false)
+  })
+
+  it('recordRemoval forgets a deleted tile', () => {
+    writeTile('a', 1, 0, 0)
+    quota.recordRemoval('a', { z: 1, x: 0, y: 0 })
+    expect(quota.usage('a')).to.deep.equal({ tiles: 0, bytes: 0 })
+  })
+})
+
+describe('cacheQuota: megabytesToBytes', () => {
+  it('converts positive numbers', () => {
+    expect(megabytesToBytes(2)).to.equal(2 * 1024 * 1024)
+  })
+
+  it('treats zero, negatives and non-numbers as no quota', () => {
+    expect(megabytesToBytes(0)).to.equal(undefined)
+    expect(megabytesToBytes(-1)).to.equal(undefined)
+    expect(megabytesToBytes('5')).to.equal(undefined)
+    expect(megabytesToBytes(undefined)).to.equal(undefined)
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for cacheStats.ts, against a small tile tree in a temp dir. The
+ * HTTP endpoints are covered in plugin-test.ts.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import {
+  cacheStatsFor,
+  computeCacheStats,
+  resetCacheStats
+} from '../src/cacheStats'
+import { tileToBBox } from '../src/projection'
+import { closeTileCaches, tileMetaPath } from '../src/tileCache'
+import { ChartProvider } from '../src/types'
+
+const provider = {
+  identifier: 'stats',
+  name: 'Stats',
+  format: 'png'
+} as ChartProvider
+
+describe('cacheStats: computeCacheStats', () => {
+  let cacheDir: string
+
+  const writeTile = (
+    z: number,
+    x: number,
+    y: number,
+    size: number,
+    at: string
+  ) => {
+    const p = path.join(cacheDir, 'Stats', `${z}`, `${x}`, `${y}.png`)
+    fs.mkdirSync(path.dirname(p), { recursive: true })
+    fs.writeFileSync(p, Buffer.alloc(size))
+    fs.utimesSync(p, new Date(at), new Date(at))
+    return p
+  }
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stats-'))
+  })
+  afterEach(async () => {
+    resetCacheStats()
+    await closeTileCaches()
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('reports an empty cache', async () => {
+    const stats = await computeCacheStats(cacheDir, provider)
+    expect(stats).to.include({
+      identifier: 'stats',
+      tiles: 0,
+      bytes: 0,
+      oldest: null,
+      newest: null,
+      bounds: null
+    })
+    expect(stats.zooms).to.deep.equal({})
+  })
+
+  it('totals tiles and bytes per zoom with timestamps and extent', async () => {
+    const p = writeTile(2, 1, 1, 100, '2024-01-01T00:00:00Z')
+    writeTile(3, 2, 2, 50, '2024-03-01T00:00:00Z')
+    writeTile(3, 3, 3, 25, '2024-02-01T00:00:00Z')
+    // Sidecars and stray files are not tiles.
+    fs.writeFileSync(tileMetaPath(p), '{"etag":"x"}')
+    fs.writeFileSync(path.join(cacheDir, 'Stats', '3', 'notes.txt'), 'x')
+
+    const stats = await computeCacheStats(cacheDir, provider)
+    expect(stats).to.include({
+      tiles: 3,
+      bytes: 175,
+      oldest: '2024-01-01T00:00:00.000Z',
+      newest: '2024-03-01T00:00:00.000Z'
+    })
+    expect(stats.zooms['2']).to.deep.equal({
+      tiles: 1,
+      bytes: 100,
+      bounds: tileToBBox(1, 1, 2)
+    })
+    const [minLon, , , maxLat] = tileToBBox(2, 2, 3)
+    const [, minLat, maxLon] = tileToBBox(3, 3, 3)
+    expect(stats.zooms['3']).to.deep.equal({
+      tiles: 2,
+      bytes: 75,
+      bounds: [minLon, minLat, maxLon, maxLat]
+    })
+    // z=2 tile (1,1) covers both z=3 tiles, so it is the overall extent.
+    expect(stats.bounds).to.deep.equal(tileToBBox(1, 1, 2))
+  })
+
+  it('reuses results within the TTL', async () => {
+    writeTile(2, 1, 1, 100, '2024-01-01T00:00:00Z')
+    const first = await cacheStatsFor(cacheDir, provider, 1_000_000)
+    writeTile(2, 1, 2, 100, '2024-01-01T00:00:00Z')
+    const second = await cacheStatsFor(cacheDir, provider, 1_030_000)
+    expect(second).to.equal(first)
+    const third = await cacheStatsFor(cacheDir, provider, 1_060_000)
+    expect(third.tiles).to.equal(2)
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for chartCoverage.ts: tracing tile sets into polygons, and
+ * listing the tiles of the fixture charts. The HTTP route is covered in
+ * plugin-test.ts.
+ */
+
+import path from 'path'
+import { expect } from 'chai'
+import {
+  chartCoverage,
+  chartTiles,
+  coverageZoom,
+  defaultCoverageZoom,
+  traceTiles,
+  validateCoverageZoom
+} from '../src/chartCoverage'
+import { ChartProvider } from '../src/types'
+
+const tiles = (...keys: string[]) => new Set(keys)
+
+describe('chartCoverage: traceTiles', () => {
+  it('outlines a block of tiles with its four corners', () => {
+    expect(traceTiles(tiles('0/0', '1/0', '0/1', '1/1'))).to.deep.equal([
+      [
+        [
+          [2, 0],
+          [2, 2],
+          [0, 2],
+          [0, 0]
+        ]
+      ]
+    ])
+  })
+
+  it('follows an L shape', () => {
+    const [polygon] = traceTiles(tiles('0/0', '0/1', '1/1'))
+    expect(polygon).to.have.length(1)
+    expect(polygon![0]).to.have.length(6)
+  })
+
+  it('keeps tiles touching at a corner apart', () => {
+    const polygons = traceTiles(tiles('0/0', '1/1'))
+    expect(polygons).to.have.length(2)
+    for (const polygon of polygons) expect(polygon[0]).to.have.length(4)
+  })
+
+  it('cuts a hole where the chart has no tiles', () => {
+    const ring = tiles('0/0', '1/0', '2/0', '0/1', '2/1', '0/2', '1/2', '2/2')
+    const [polygon, ...rest] = traceTiles(ring)
+    expect(rest).to.deep.equal([])
+    expect(polygon).to.have.length(2)
+    expect(polygon![1]).to.have.deep.members([
+      [1, 1],
+      [2, 1],
+      [2, 2],
+      [1, 2]
+    ])
+  })
+
+  it('puts an island inside a hole into its own polygon', () => {
+    const frame = []
+    for (let i = 0; i < 5; i++) {
+      frame.push(`${i}/0`, `${i}/4`, `0/${i}`, `4/${i}`)
+    }
+    const polygons = traceTiles(tiles(...frame, '2/2'))
+    expect(polygons).to.have.length(2)
+    expect(polygons.map((p) => p.length).sort()).to.deep.equal([1, 2])
+  })
+})
+
+describe('chartCoverage: zoom', () => {
+  it('defaults to the deepest zoom up to 12', () => {
+    const chart = (minzoom: number, maxzoom: number) =>
+      ({ minzoom, maxzoom }) as ChartProvider
+    expect(defaultCoverageZoom(chart(13, 17))).to.equal(13)
+    expect(defaultCoverageZoom(chart(3, 16))).to.equal(12)
+    expect(defaultCoverageZoom(chart(3, 4))).to.equal(4)
+  })
+
+  it('accepts only zooms the chart has tiles at', () => {
+    const chart = {
+      minzoom: 9,
+      maxzoom: 14,
+      _nativeMinzoom: 13
+    } as ChartProvider
+    expect(validateCoverageZoom(chart, 13)).to.equal(undefined)
+    expect(validateCoverageZoom(chart, 12)).to.be.a('string')
+    expect(validateCoverageZoom(chart, 15)).to.be.a('string')
+    expect(validateCoverageZoom(chart, NaN)).to.be.a('string')
+  })
+})
+
+describe('chartCoverage: chartTiles', () => {
+  const fixture = (file: string, extra: Partial<ChartProvider> = {}) =>
+    ({
+      identifier: file,
+      _filePath: path.resolve(__dirname, 'charts', file),
+      ...extra
+    }) as ChartProvider
+
+  it('reads the tiles table of an MBTiles file', async () => {
+    const chart = fixture('test.mbtiles', { _fileFormat: 'mbtiles' })
+    expect([...(await chartTiles(chart, {}, 4))]).to.have.members([
+      '4/6',
+      '5/6'
+    ])
+  })
+
+  it('walks a TMS directory with rows flipped', async () => {
+    const chart = fixture('tms-tiles', {
+      _fileFormat: 'directory',
+      _flipY: true
+    })
+    const found = await chartTiles(chart, {}, 5)
+    expect(found.size).to.equal(9)
+    expect(found.has('16/8')).to.equal(true)
+    expect(found.has('18/10')).to.equal(true)
+  })
+
+  it('joins the tiles of composite members', async () => {
+    const charts = {
+      test: fixture('test.mbtiles', { _fileFormat: 'mbtiles' }),
+      tms: fixture('tms-tiles', { _fileFormat: 'directory', _flipY: true })
+    }
+    const composite = { _compositeOf: ['test', 'tms', 'gone'] } as ChartProvider
+    expect((await chartTiles(composite, charts, 4)).size).to.equal(6)
+  })
+
+  it('computes coverage at the deepest zoom that holds tiles', async () => {
+    // The metadata claims zoom 5, the file stops at 4.
+    const chart = fixture('test.mbtiles', {
+      _fileFormat: 'mbtiles',
+      minzoom: 3,
+      maxzoom: 5
+    })
+    expect(await coverageZoom(chart, {})).to.equal(4)
+  })
+
+  it('keeps the coverage of a provider once computed', async () => {
+    const chart = fixture('test.mbtiles', { _fileFormat: 'mbtiles' })
+    const first = chartCoverage(chart, {}, 4)
+    expect(chartCoverage(chart, {}, 4)).to.equal(first)
+    const { geometry, properties } = await first
+    expect(properties).to.include({ zoom: 4, tiles: 2 })
+    // Closed ring, counterclockwise on the map.
+    const ring = geometry.coordinates[0]![0]!
+    expect(ring).to.have.length(5)
+    expect(ring[0]).to.deep.equal(ring[4])
+  })
+})
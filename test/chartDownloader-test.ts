@@ -5,9 +5,32 @@
  * plugin-test.ts.
  */
 
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
 import { expect } from 'chai'
 import type { FeatureCollection } from 'geojson'
-import { ChartDownloader, Tile } from '../src/chartDownloader'
+import {
+  ChartDownloader,
+  ChartSeedingManager,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_RETRY_POLICY,
+  PersistedJob,
+  SEEDING_STATE_FILE,
+  Status,
+  Tile,
+  TileFetchResult,
+  isRetryableStatus,
+  retryDelayMs
+} from '../src/chartDownloader'
+import { rateLimiterFor, resetRateLimiters } from '../src/rateLimiter'
+import {
+  closeTileCaches,
+  setCacheBackend,
+  tileCacheFor,
+  tileMetaPath
+} from '../src/tileCache'
 import { ChartProvider } from '../src/types'
 
 // Minimal provider scaffold; only the fields the tile-math methods read must
@@ -41,6 +64,14 @@ const makeDownloader = (provider: ChartProvider) => {
   )
 }
 
+// Polls until a job reaches the given status. Jobs started with resume() or
+// retryFailedTiles() run detached, so tests can't simply await them.
+const waitForStatus = async (job: ChartDownloader, status: Status) => {
+  for (let i = 0; i < 400 && job.info().status !== status; i++) {
+    await new Promise((r) => setTimeout(r, 5))
+  }
+}
+
 describe('chartDownloader: getTilesForBBox', () => {
   it('returns a single tile for a small bbox at the provider minzoom', () => {
     // A point well inside a single tile at z=3 should yield exactly one tile,
@@ -169,3 +200,672 @@ describe('chartDownloader: fetchTileFromRemote', () => {
     expect(result).to.equal(null)
   })
 })
+
+describe('chartDownloader: fetchRemoteTile throttling', () => {
+  let server: http.Server
+  let hits: number
+  let respond: (res: http.ServerResponse) => void
+  let provider: ChartProvider
+
+  beforeEach((done) => {
+    hits = 0
+    server = http.createServer((_req, res) => {
+      hits++
+      respond(res)
+    })
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number }
+      provider = makeProvider({
+        identifier: 'throttled',
+        remoteUrl: `http://localhost:${port}/{z}/{x}/{y}.png`
+      })
+      done()
+    })
+  })
+  afterEach((done) => {
+    resetRateLimiters()
+    server.close(() => done())
+  })
+
+  it('treats a 429 as retryable and honours Retry-After', async () => {
+    respond = (res) => {
+      res.writeHead(429, { 'Retry-After': '30' })
+      res.end()
+    }
+    const tile = { x: 0, y: 0, z: 1 }
+    const first = await ChartDownloader.fetchRemoteTile(provider, tile)
+    expect(first).to.include({ buffer: null, retryable: true })
+    expect(rateLimiterFor(provider).blockedForMs()).to.be.above(25_000)
+    expect(first).to.have.property('retryAfterMs').above(25_000)
+
+    // Blocked for longer than the request timeout: fail fast without
+    // sending anything to the server.
+    const second = await ChartDownloader.fetchRemoteTile(provider, tile)
+    expect(second).to.include({ buffer: null, retryable: true })
+    expect(second).to.have.property('retryAfterMs').above(25_000)
+    expect(hits).to.equal(1)
+  })
+
+  it('waits for a rate-limit slot past the timeout only when asked to', async () => {
+    respond = (res) => {
+      res.writeHead(200)
+      res.end('tile')
+    }
+    const limited = { ...provider, _maxRequestsPerSecond: 10 }
+    const limiter = rateLimiterFor(limited)
+    // Queue the next free slot 300 ms out.
+    for (let i = 0; i < 3; i++) limiter.reserve()
+    const tile = { x: 0, y: 0, z: 1 }
+    const refused = await ChartDownloader.fetchRemoteTile(limited, tile, 100)
+    expect(refused).to.include({ buffer: null, retryable: true })
+    // The wait is for the queued slots, not a throttle window.
+    expect(refused).to.have.property('retryAfterMs').within(200, 300)
+    expect(hits).to.equal(0)
+
+    const result = await ChartDownloader.fetchRemoteTile(
+      limited,
+      tile,
+      100,
+      undefined,
+      Infinity
+    )
+    expect(result.buffer?.toString()).to.equal('tile')
+    expect(hits).to.equal(1)
+  })
+
+  it('treats a 404 as permanent', async () => {
+    respond = (res) => {
+      res.writeHead(404)
+      res.end()
+    }
+    const result = await ChartDownloader.fetchRemoteTile(provider, {
+      x: 0,
+      y: 0,
+      z: 1
+    })
+    expect(result).to.deep.equal({ buffer: null, retryable: false })
+  })
+})
+
+describe('chartDownloader: ChartSeedingManager.restoreJobs', () => {
+  let cacheDir: string
+  // No remoteUrl, so a resumed job fails every tile immediately instead of
+  // reaching out to the network.
+  const provider = makeProvider({ identifier: 'unit', minzoom: 3 })
+  const resourcesApi = {} as Parameters<
+    typeof ChartSeedingManager.restoreJobs
+  >[0]
+
+  const writeState = (jobs: PersistedJob[]) =>
+    fs.writeFileSync(
+      path.join(cacheDir, SEEDING_STATE_FILE),
+      JSON.stringify({ version: 1, jobs })
+    )
+
+  const savedJob: PersistedJob = {
+    id: 7,
+    provider: 'unit',
+    area: { type: 'bbox', bbox: [5, 5, 6, 6] },
+    maxZoom: 4,
+    status: Status.Running,
+    downloadedTiles: 0,
+    failedTiles: 1
+  }
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'seeding-'))
+  })
+  afterEach(async () => {
+    ChartSeedingManager.cancelAll()
+    await ChartSeedingManager.whenSaved()
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('restores a job under its persisted id with its counters', async () => {
+    writeState([savedJob])
+    await ChartSeedingManager.restoreJobs(
+      resourcesApi,
+      cacheDir,
+      { unit: provider },
+      false
+    )
+    const job = ChartSeedingManager.ActiveJobs[7]
+    expect(job, 'restored job').to.exist
+    expect(job!.info()).to.include({
+      totalTiles: 2,
+      failedTiles: 1,
+      status: Status.Stopped
+    })
+  })
+
+  it('resumes jobs that were running when resume is enabled', async () => {
+    writeState([savedJob])
+    await ChartSeedingManager.restoreJobs(
+      resourcesApi,
+      cacheDir,
+      { unit: provider },
+      true
+    )
+    expect(ChartSeedingManager.ActiveJobs[7]!.info().status).to.equal(
+      Status.Running
+    )
+  })
+
+  it('drops jobs whose provider no longer exists', async () => {
+    writeState([{ ...savedJob, provider: 'gone' }])
+    await ChartSeedingManager.restoreJobs(resourcesApi, cacheDir, {}, true)
+    expect(ChartSeedingManager.ActiveJobs).to.deep.equal({})
+  })
+
+  it('numbers new jobs after the highest restored id', async () => {
+    writeState([savedJob])
+    await ChartSeedingManager.restoreJobs(
+      resourcesApi,
+      cacheDir,
+      { unit: provider },
+      false
+    )
+    const job = await ChartSeedingManager.createJob(
+      resourcesApi,
+      cacheDir,
+      provider,
+      4,
+      undefined,
+      [5, 5, 6, 6]
+    )
+    expect(job.ID).to.be.greaterThan(7)
+  })
+
+  it('tells which tiles listed jobs cover until they are removed', async () => {
+    await ChartSeedingManager.createJob(
+      resourcesApi,
+      cacheDir,
+      provider,
+      4,
+      undefined,
+      undefined,
+      { z: 3, x: 4, y: 2 }
+    )
+    const { name } = provider
+    expect(ChartSeedingManager.isSeeded(name, { z: 3, x: 4, y: 2 })).to.equal(
+      true
+    )
+    expect(ChartSeedingManager.isSeeded(name, { z: 4, x: 9, y: 5 })).to.equal(
+      true
+    )
+    expect(ChartSeedingManager.isSeeded(name, { z: 4, x: 2, y: 5 })).to.equal(
+      false
+    )
+    expect(
+      ChartSeedingManager.isSeeded('other', { z: 3, x: 4, y: 2 })
+    ).to.equal(false)
+    ChartSeedingManager.removeProviderJobs('unit')
+    expect(ChartSeedingManager.ActiveJobs).to.deep.equal({})
+    expect(ChartSeedingManager.isSeeded(name, { z: 3, x: 4, y: 2 })).to.equal(
+      false
+    )
+  })
+})
+
+describe('chartDownloader: pause and resume', () => {
+  const original = ChartDownloader.loadTile
+  let fetched: string[]
+  const resourcesApi = {} as Parameters<typeof ChartSeedingManager.createJob>[0]
+
+  beforeEach(() => {
+    fetched = []
+    // Stub the network/cache layer: each tile resolves on the next macrotask
+    // so a pause issued mid-run has queued tiles left to hold back.
+    ChartDownloader.loadTile = async (_path, _provider, t) => {
+      fetched.push(`${t.z}/${t.x}/${t.y}`)
+      await new Promise((r) => setImmediate(r))
+      return { buffer: Buffer.from('tile') }
+    }
+  })
+  afterEach(() => {
+    ChartDownloader.loadTile = original
+    ChartSeedingManager.cancelAll()
+    return ChartSeedingManager.whenSaved()
+  })
+
+  it('pauses after in-flight tiles and resumes from the cursor', async () => {
+    const job = await ChartSeedingManager.createJob(
+      resourcesApi,
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pause-')),
+      makeProvider({ minzoom: 3 }),
+      7,
+      undefined,
+      [0, 0, 10, 10]
+    )
+    const total = job.info().totalTiles
+    const seeding = job.seedCache()
+    await waitForStatus(job, Status.Running)
+    while (fetched.length === 0) await new Promise((r) => setImmediate(r))
+    expect(job.pauseJob()).to.equal(true)
+    await seeding
+
+    const paused = job.info()
+    expect(paused.status).to.equal(Status.Paused)
+    expect(paused.downloadedTiles).to.equal(fetched.length)
+    expect(fetched.length).to.be.lessThan(total)
+
+    expect(job.resumeJob()).to.equal(true)
+    await waitForStatus(job, Status.Stopped)
+    const done = job.info()
+    expect(done.downloadedTiles).to.equal(total)
+    expect(new Set(fetched).size).to.equal(total)
+  })
+
+  it('refuses to pause a job that is not running', async () => {
+    const job = await ChartSeedingManager.createJob(
+      resourcesApi,
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pause-')),
+      makeProvider({ minzoom: 3 }),
+      4,
+      undefined,
+      [5, 5, 6, 6]
+    )
+    expect(job.pauseJob()).to.equal(false)
+    expect(job.resumeJob()).to.equal(false)
+  })
+})
+
+describe('chartDownloader: retryDelayMs', () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 }
+
+  it('doubles the backoff cap on each attempt', () => {
+    // random() just under 1 yields the cap itself (minus rounding).
+    const nearCap = () => 0.9999
+    expect(retryDelayMs(policy, 1, nearCap)).to.equal(999)
+    expect(retryDelayMs(policy, 2, nearCap)).to.equal(1999)
+    expect(retryDelayMs(policy, 3, nearCap)).to.equal(3999)
+  })
+
+  it('never exceeds maxDelayMs', () => {
+    expect(retryDelayMs(policy, 10, () => 0.9999)).to.be.below(5000)
+  })
+
+  it('applies jitter across the whole window', () => {
+    expect(retryDelayMs(policy, 3, () => 0)).to.equal(0)
+  })
+})
+
+describe('chartDownloader: isRetryableStatus', () => {
+  it('retries throttling and server errors', () => {
+    expect(isRetryableStatus(429)).to.equal(true)
+    expect(isRetryableStatus(408)).to.equal(true)
+    expect(isRetryableStatus(500)).to.equal(true)
+    expect(isRetryableStatus(503)).to.equal(true)
+  })
+
+  it('does not retry client errors such as 404', () => {
+    expect(isRetryableStatus(404)).to.equal(false)
+    expect(isRetryableStatus(403)).to.equal(false)
+  })
+})
+
+describe('chartDownloader: per-tile retries', () => {
+  const original = ChartDownloader.loadTile
+  const resourcesApi = {} as Parameters<typeof ChartSeedingManager.createJob>[0]
+  let attempts: { [tile: string]: number }
+  // Maps a tile key to the results it returns on successive attempts; the
+  // last entry repeats once the list runs out.
+  let script: { [tile: string]: TileFetchResult[] }
+
+  beforeEach(() => {
+    attempts = {}
+    script = {}
+    ChartSeedingManager.retryPolicy = {
+      maxAttempts: 3,
+      baseDelayMs: 0,
+      maxDelayMs: 0
+    }
+    ChartDownloader.loadTile = async (_path, _provider, t) => {
+      const key = `${t.z}/${t.x}/${t.y}`
+      const n = attempts[key] ?? 0
+      attempts[key] = n + 1
+      const results = script[key] ?? [{ buffer: Buffer.from('tile') }]
+      return results[Math.min(n, results.length - 1)]!
+    }
+  })
+  afterEach(() => {
+    ChartDownloader.loadTile = original
+    ChartSeedingManager.retryPolicy = DEFAULT_RETRY_POLICY
+    ChartSeedingManager.cancelAll()
+    return ChartSeedingManager.whenSaved()
+  })
+
+  // A single-tile job: tile (0,0,3) with maxZoom 3.
+  const singleTileJob = () =>
+    ChartSeedingManager.createJob(
+      resourcesApi,
+      fs.mkdtempSync(path.join(os.tmpdir(), 'retry-')),
+      makeProvider({ minzoom: 3 }),
+      3,
+      undefined,
+      undefined,
+      { x: 0, y: 0, z: 3 }
+    )
+
+  it('retries a retryable failure until it succeeds', async () => {
+    script['3/0/0'] = [
+      { buffer: null, retryable: true },
+      { buffer: Buffer.from('tile') }
+    ]
+    const job = await singleTileJob()
+    await job.seedCache()
+    expect(attempts['3/0/0']).to.equal(2)
+    expect(job.info()).to.include({ downloadedTiles: 1, failedTiles: 0 })
+  })
+
+  it('gives up after maxAttempts', async () => {
+    script['3/0/0'] = [{ buffer: null, retryable: true }]
+    const job = await singleTileJob()
+    await job.seedCache()
+    expect(attempts['3/0/0']).to.equal(3)
+    expect(job.info()).to.include({ downloadedTiles: 0, failedTiles: 1 })
+  })
+
+  it('does not retry a permanent failure', async () => {
+    script['3/0/0'] = [{ buffer: null, retryable: false }]
+    const job = await singleTileJob()
+    await job.seedCache()
+    expect(attempts['3/0/0']).to.equal(1)
+    expect(job.info().failedTiles).to.equal(1)
+  })
+
+  it('retryFailedTiles re-queues only the failed tiles', async () => {
+    const job = await ChartSeedingManager.createJob(
+      resourcesApi,
+      fs.mkdtempSync(path.join(os.tmpdir(), 'retry-')),
+      makeProvider({ minzoom: 3 }),
+      4,
+      undefined,
+      undefined,
+      { x: 0, y: 0, z: 3 }
+    )
+    script['4/1/1'] = [{ buffer: null, retryable: false }]
+    await job.seedCache()
+    expect(job.info()).to.include({ downloadedTiles: 4, failedTiles: 1 })
+
+    attempts = {}
+    delete script['4/1/1']
+    expect(job.retryFailedTiles()).to.equal(true)
+    await waitForStatus(job, Status.Stopped)
+    expect(attempts).to.deep.equal({ '4/1/1': 1 })
+    expect(job.info()).to.include({
+      downloadedTiles: 5,
+      failedTiles: 0,
+      progress: 1
+    })
+    expect(job.retryFailedTiles()).to.equal(false)
+  })
+})
+
+describe('chartDownloader: download options', () => {
+  const original = ChartDownloader.loadTile
+  const resourcesApi = {} as Parameters<typeof ChartSeedingManager.createJob>[0]
+  let timeouts: number[]
+  let rateWaits: number[]
+
+  beforeEach(() => {
+    timeouts = []
+    rateWaits = []
+    ChartDownloader.loadTile = async (
+      _path,
+      _provider,
+      _tile,
+      timeoutMs,
+      maxRateWaitMs
+    ) => {
+      timeouts.push(timeoutMs!)
+      rateWaits.push(maxRateWaitMs!)
+      return { buffer: Buffer.from('tile') }
+    }
+  })
+  afterEach(() => {
+    ChartDownloader.loadTile = original
+    ChartSeedingManager.cancelAll()
+    return ChartSeedingManager.whenSaved()
+  })
+
+  const seedOneTile = async (
+    provider: ChartProvider,
+    options?: { concurrency?: number; timeoutMs?: number }
+  ) => {
+    const job = await ChartSeedingManager.createJob(
+      resourcesApi,
+      fs.mkdtempSync(path.join(os.tmpdir(), 'options-')),
+      provider,
+      3,
+      undefined,
+      undefined,
+      { x: 0, y: 0, z: 3 },
+      options
+    )
+    await job.seedCache()
+    return job
+  }
+
+  it('falls back to the default timeout', async () => {
+    await seedOneTile(makeProvider({ minzoom: 3 }))
+    expect(timeouts).to.deep.equal([DEFAULT_REQUEST_TIMEOUT_MS])
+  })
+
+  it('waits for rate-limit slots without a limit', async () => {
+    await seedOneTile(makeProvider({ minzoom: 3 }), { timeoutMs: 800 })
+    expect(rateWaits).to.deep.equal([Infinity])
+  })
+
+  it('uses the provider timeout when the job sets none', async () => {
+    await seedOneTile(makeProvider({ minzoom: 3, _requestTimeoutMs: 12000 }))
+    expect(timeouts).to.deep.equal([12000])
+  })
+
+  it('lets the job timeout override the provider', async () => {
+    await seedOneTile(makeProvider({ minzoom: 3, _requestTimeoutMs: 12000 }), {
+      timeoutMs: 800
+    })
+    expect(timeouts).to.deep.equal([800])
+  })
+
+  it('persists the job options in the saved state', async () => {
+    const job = await seedOneTile(makeProvider({ minzoom: 3 }), {
+      concurrency: 2,
+      timeoutMs: 800
+    })
+    expect(job.toState().options).to.deep.equal({
+      concurrency: 2,
+      timeoutMs: 800
+    })
+  })
+})
+
+describe('chartDownloader: cache expiry and revalidation', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000
+  let server: http.Server
+  let requests: http.IncomingMessage[]
+  let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void
+  let provider: ChartProvider
+  let cacheDir: string
+  let tilePath: string
+  const tile = { x: 0, y: 0, z: 1 }
+
+  // Puts a tile in the cache as if it had been fetched `ageMs` ago.
+  const seedCachedTile = (
+    content: string,
+    ageMs: number,
+    validators?: object
+  ) => {
+    fs.mkdirSync(path.dirname(tilePath), { recursive: true })
+    fs.writeFileSync(tilePath, content)
+    const then = new Date(Date.now() - ageMs)
+    fs.utimesSync(tilePath, then, then)
+    if (validators) {
+      fs.writeFileSync(tileMetaPath(tilePath), JSON.stringify(validators))
+    }
+  }
+
+  beforeEach((done) => {
+    requests = []
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'expiry-'))
+    server = http.createServer((req, res) => {
+      requests.push(req)
+      respond(req, res)
+    })
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number }
+      provider = makeProvider({
+        identifier: 'expiry',
+        name: 'expiry',
+        remoteUrl: `http://localhost:${port}/{z}/{x}/{y}.png`,
+        _cacheMaxAgeMs: DAY_MS
+      })
+      tilePath = path.join(cacheDir, 'expiry', '1', '0', '0.png')
+      done()
+    })
+  })
+  afterEach((done) => {
+    resetRateLimiters()
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+    server.close(() => done())
+  })
+
+  it('stores ETag and Last-Modified in a sidecar', async () => {
+    respond = (_req, res) => {
+      res.writeHead(200, {
+        ETag: '"v1"',
+        'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT'
+      })
+      res.end('fresh')
+    }
+    const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+      cacheDir,
+      provider,
+      tile
+    )
+    expect(buffer?.toString()).to.equal('fresh')
+    expect(
+      JSON.parse(fs.readFileSync(tileMetaPath(tilePath), 'utf8'))
+    ).to.deep.equal({
+      etag: '"v1"',
+      lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT'
+    })
+  })
+
+  it('serves a fresh tile without contacting the remote', async () => {
+    seedCachedTile('cached', DAY_MS / 2)
+    respond = (_req, res) => res.end('remote')
+    const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+      cacheDir,
+      provider,
+      tile
+    )
+    expect(buffer?.toString()).to.equal('cached')
+    expect(requests).to.have.length(0)
+  })
+
+  it('revalidates a stale tile and keeps it on 304', async () => {
+    seedCachedTile('cached', 2 * DAY_MS, { etag: '"v1"' })
+    respond = (_req, res) => {
+      res.writeHead(304)
+      res.end()
+    }
+    const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+      cacheDir,
+      provider,
+      tile
+    )
+    expect(buffer?.toString()).to.equal('cached')
+    expect(requests[0]?.headers['if-none-match']).to.equal('"v1"')
+    // The max-age window restarts, so the next read stays local.
+    expect(Date.now() - fs.statSync(tilePath).mtimeMs).to.be.below(DAY_MS)
+  })
+
+  it('replaces a stale tile the remote has changed', async () => {
+    seedCachedTile('cached', 2 * DAY_MS, {
+      lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT'
+    })
+    respond = (_req, res) => res.end('corrected')
+    const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+      cacheDir,
+      provider,
+      tile
+    )
+    expect(buffer?.toString()).to.equal('corrected')
+    expect(requests[0]?.headers['if-modified-since']).to.equal(
+      'Wed, 21 Oct 2015 07:28:00 GMT'
+    )
+    expect(fs.readFileSync(tilePath, 'utf8')).to.equal('corrected')
+    // The new response carried no validators, so the old ones are dropped.
+    expect(fs.existsSync(tileMetaPath(tilePath))).to.equal(false)
+  })
+
+  it('revalidates through the SQLite cache backend', async () => {
+    await setCacheBackend('sqlite')
+    try {
+      const storage = tileCacheFor(cacheDir, provider)
+      await storage.put(tile, Buffer.from('cached'), { etag: '"v1"' })
+      await storage.touch(tile, Date.now() - 2 * DAY_MS)
+      respond = (_req, res) => {
+        res.writeHead(304)
+        res.end()
+      }
+      const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+        cacheDir,
+        provider,
+        tile
+      )
+      expect(buffer?.toString()).to.equal('cached')
+      expect(requests[0]?.headers['if-none-match']).to.equal('"v1"')
+      const stat = await storage.stat(tile)
+      expect(Date.now() - stat!.fetchedAt).to.be.below(DAY_MS)
+      expect(fs.existsSync(tilePath)).to.equal(false)
+    } finally {
+      await closeTileCaches()
+      await setCacheBackend('files')
+    }
+  })
+
+  it('serves the stale tile when the remote fails', async () => {
+    seedCachedTile('cached', 2 * DAY_MS)
+    respond = (_req, res) => {
+      res.writeHead(500)
+      res.end()
+    }
+    const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+      cacheDir,
+      provider,
+      tile
+    )
+    expect(buffer?.toString()).to.equal('cached')
+    expect(requests).to.have.length(1)
+  })
+
+  it('never expires tiles when no max age is set', async () => {
+    seedCachedTile('cached', 365 * DAY_MS)
+    respond = (_req, res) => res.end('remote')
+    const buffer = await ChartDownloader.getTileFromCacheOrRemote(
+      cacheDir,
+      { ...provider, _cacheMaxAgeMs: undefined },
+      tile
+    )
+    expect(buffer?.toString()).to.equal('cached')
+    expect(requests).to.have.length(0)
+  })
+
+  it('queues stale tiles again when a seeding job is created', async () => {
+    seedCachedTile('cached', 2 * DAY_MS)
+    const job = await ChartSeedingManager.createJob(
+      {} as Parameters<typeof ChartSeedingManager.createJob>[0],
+      cacheDir,
+      { ...provider, minzoom: 1 },
+      1,
+      undefined,
+      undefined,
+      tile
+    )
+    expect(job.info()).to.include({ totalTiles: 1, cachedTiles: 0 })
+    ChartSeedingManager.removeJob(job.info().id)
+  })
+})
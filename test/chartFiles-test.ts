@@ -0,0 +1,177 @@
+/**
+ * Unit tests for chartFiles.ts: path checks, identifier validation, and
+ * deleting and moving chart files in a temp dir. The HTTP routes are
+ * covered in plugin-test.ts.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import {
+  chartFileMoves,
+  chartFiles,
+  isInsidePath,
+  isReadOnlyPath,
+  moveChartFiles,
+  removeChartFiles,
+  validateChartIdentifier
+} from '../src/chartFiles'
+import { ChartProvider } from '../src/types'
+
+const localChart = (
+  dir: string,
+  identifier: string,
+  fileFormat: 'mbtiles' | 'directory',
+  stylePath?: string
+): ChartProvider => ({
+  identifier,
+  name: identifier,
+  description: '',
+  type: 'tilelayer',
+  scale: 250000,
+  minzoom: 1,
+  maxzoom: 19,
+  format: 'png',
+  _fileFormat: fileFormat,
+  _filePath: path.join(
+    dir,
+    fileFormat === 'mbtiles' ? `${identifier}.mbtiles` : identifier
+  ),
+  ...(stylePath ? { _stylePath: stylePath } : {})
+})
+
+describe('isInsidePath', () => {
+  it('matches the dir itself and files below it', () => {
+    expect(isInsidePath('/charts', '/charts')).to.equal(true)
+    expect(isInsidePath('/charts', '/charts/noaa/harbour.mbtiles')).to.equal(
+      true
+    )
+  })
+
+  it('does not match siblings sharing a prefix or parents', () => {
+    expect(isInsidePath('/charts', '/charts-2/harbour.mbtiles')).to.equal(false)
+    expect(isInsidePath('/charts', '/')).to.equal(false)
+  })
+
+  it('checks a file against every read-only path', () => {
+    const readOnly = ['/ro-a', '/ro-b']
+    expect(isReadOnlyPath(readOnly, '/ro-b/x.mbtiles')).to.equal(true)
+    expect(isReadOnlyPath(readOnly, '/charts/x.mbtiles')).to.equal(false)
+    expect(isReadOnlyPath([], '/charts/x.mbtiles')).to.equal(false)
+  })
+})
+
+describe('validateChartIdentifier', () => {
+  it('accepts plain file names', () => {
+    for (const id of ['harbour', 'noaa_1234', 'bay-2.v3', '_x']) {
+      expect(validateChartIdentifier(id), id).to.equal(undefined)
+    }
+  })
+
+  it('refuses paths, hidden names and reserved extensions', () => {
+    for (const id of [
+      '',
+      '../escape',
+      'a/b',
+      '.hidden',
+      'harbour.mbtiles',
+      'upload.part',
+      'with space',
+      42
+    ]) {
+      expect(validateChartIdentifier(id), String(id)).to.be.a('string')
+    }
+  })
+})
+
+describe('chartFiles', () => {
+  it('includes the style of an MBTiles chart named after it', () => {
+    const chart = localChart(
+      '/charts',
+      'harbour',
+      'mbtiles',
+      '/charts/harbour.style.json'
+    )
+    expect(chartFiles(chart)).to.deep.equal([
+      '/charts/harbour.mbtiles',
+      '/charts/harbour.style.json'
+    ])
+  })
+
+  it('leaves shared styles and tile directories alone', () => {
+    expect(
+      chartFiles(
+        localChart('/charts', 'harbour', 'mbtiles', '/charts/style.json')
+      )
+    ).to.deep.equal(['/charts/harbour.mbtiles'])
+    expect(
+      chartFiles(
+        localChart('/charts', 'bay', 'directory', '/charts/bay/style.json')
+      )
+    ).to.deep.equal(['/charts/bay'])
+  })
+
+  it('moves every file to the new identifier and dir', () => {
+    const chart = localChart(
+      '/charts',
+      'harbour',
+      'mbtiles',
+      '/charts/harbour.style.json'
+    )
+    expect(chartFileMoves(chart, '/charts-2', 'bay')).to.deep.equal([
+      { from: '/charts/harbour.mbtiles', to: '/charts-2/bay.mbtiles' },
+      { from: '/charts/harbour.style.json', to: '/charts-2/bay.style.json' }
+    ])
+    expect(
+      chartFileMoves(localChart('/charts', 'tiles', 'directory'), '/c', 'x')
+    ).to.deep.equal([{ from: '/charts/tiles', to: '/c/x' }])
+  })
+})
+
+describe('removeChartFiles and moveChartFiles', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chart-files-'))
+  })
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('removes an MBTiles chart with its style', async () => {
+    fs.writeFileSync(path.join(dir, 'harbour.mbtiles'), 'tiles')
+    fs.writeFileSync(path.join(dir, 'harbour.style.json'), '{}')
+    fs.writeFileSync(path.join(dir, 'other.mbtiles'), 'tiles')
+    await removeChartFiles(
+      localChart(
+        dir,
+        'harbour',
+        'mbtiles',
+        path.join(dir, 'harbour.style.json')
+      )
+    )
+    expect(fs.readdirSync(dir)).to.deep.equal(['other.mbtiles'])
+  })
+
+  it('removes a tile directory', async () => {
+    fs.mkdirSync(path.join(dir, 'bay', '3', '4'), { recursive: true })
+    fs.writeFileSync(path.join(dir, 'bay', '3', '4', '2.png'), 'png')
+    await removeChartFiles(localChart(dir, 'bay', 'directory'))
+    expect(fs.readdirSync(dir)).to.deep.equal([])
+  })
+
+  it('moves chart files into another dir', async () => {
+    const target = path.join(dir, 'target')
+    fs.mkdirSync(target)
+    fs.mkdirSync(path.join(dir, 'bay', '3'), { recursive: true })
+    fs.writeFileSync(path.join(dir, 'bay', '3', 'tile.png'), 'png')
+    await moveChartFiles(
+      chartFileMoves(localChart(dir, 'bay', 'directory'), target, 'cove')
+    )
+    expect(fs.existsSync(path.join(dir, 'bay'))).to.equal(false)
+    expect(
+      fs.readFileSync(path.join(target, 'cove', '3', 'tile.png'), 'utf8')
+    ).to.equal('png')
+  })
+})
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for chartQuery.ts. The HTTP route and the v2 `position` filter
+ * are covered in plugin-test.ts.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import {
+  boundsContain,
+  boundsIntersect,
+  chartsAtPosition,
+  distanceToBounds,
+  parseBBox,
+  parseChartQuery,
+  parsePosition,
+  queryCharts,
+  validatePosition
+} from '../src/chartQuery'
+import { ChartProvider } from '../src/types'
+
+describe('chartQuery: positions', () => {
+  it('parses bracketed and bare positions', () => {
+    expect(parsePosition('[24.9,60.1]')).to.deep.equal([24.9, 60.1])
+    expect(parsePosition('24.9, 60.1')).to.deep.equal([24.9, 60.1])
+    expect(parsePosition([24.9, 60.1])).to.deep.equal([24.9, 60.1])
+  })
+
+  it('rejects anything that is not a position', () => {
+    expect(parsePosition('north')).to.equal(undefined)
+    expect(parsePosition('[1,2,3]')).to.equal(undefined)
+    expect(parsePosition(',60')).to.equal(undefined)
+    expect(parsePosition('[200,0]')).to.equal(undefined)
+    expect(validatePosition(0, 91)).to.be.a('string')
+  })
+
+  it('checks bounds, with swapped latitudes and across the antimeridian', () => {
+    expect(boundsContain([-10, 40, 10, 50], 0, 45)).to.equal(true)
+    expect(boundsContain([-10, 50, 10, 40], 0, 45)).to.equal(true)
+    expect(boundsContain([-10, 40, 10, 50], 0, 55)).to.equal(false)
+    expect(boundsContain([170, -20, -170, 0], 179, -10)).to.equal(true)
+    expect(boundsContain([170, -20, -170, 0], -175, -10)).to.equal(true)
+    expect(boundsContain([170, -20, -170, 0], 0, -10)).to.equal(false)
+    expect(boundsContain(undefined, 0, 0)).to.equal(true)
+  })
+})
+
+describe('chartQuery: chartsAtPosition', () => {
+  let dir: string
+  let charts: { [identifier: string]: ChartProvider }
+
+  beforeEach(() => {
+    // A local chart holding only the north-west tile at zoom 2.
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'query-'))
+    fs.mkdirSync(path.join(dir, '2', '0'), { recursive: true })
+    fs.writeFileSync(path.join(dir, '2', '0', '0.png'), 'tile')
+    charts = {
+      harbour: {
+        identifier: 'harbour',
+        scale: 20000,
+        minzoom: 2,
+        maxzoom: 2,
+        bounds: [-180, -85, 180, 85],
+        _fileFormat: 'directory',
+        _filePath: dir
+      } as ChartProvider,
+      world: {
+        identifier: 'world',
+        scale: 500000,
+        minzoom: 1,
+        maxzoom: 10
+      } as ChartProvider,
+      pacific: {
+        identifier: 'pacific',
+        scale: 100000,
+        bounds: [170, -30, -170, 30]
+      } as ChartProvider
+    }
+  })
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const ids = (matches: { provider: ChartProvider }[]) =>
+    matches.map((m) => m.provider.identifier)
+
+  it('ranks the most detailed chart first', async () => {
+    const matches = await chartsAtPosition(charts, -150, 70)
+    expect(ids(matches)).to.deep.equal(['harbour', 'world'])
+    expect(matches[0]).to.include({ zoomFits: true, coverage: 'tiles' })
+    expect(matches[1]).to.include({ coverage: 'bounds' })
+  })
+
+  it('puts charts served at the zoom first', async () => {
+    const matches = await chartsAtPosition(charts, -150, 70, 8)
+    expect(ids(matches)).to.deep.equal(['world', 'harbour'])
+    expect(matches[1]).to.include({ zoomFits: false })
+  })
+
+  it('leaves out local charts without a tile at the position', async () => {
+    expect(ids(await chartsAtPosition(charts, 175, 0))).to.deep.equal([
+      'pacific',
+      'world'
+    ])
+  })
+})
+
+describe('chartQuery: areas', () => {
+  it('parses bounding boxes', () => {
+    expect(parseBBox('[5.4,25.7,6.9,31.2]')).to.deep.equal([
+      5.4, 25.7, 6.9, 31.2
+    ])
+    expect(parseBBox('170,-20,-170,0')).to.deep.equal([170, -20, -170, 0])
+    expect(parseBBox('5.4,31.2,6.9,25.7')).to.equal(undefined)
+    expect(parseBBox('5.4,25.7,6.9')).to.equal(undefined)
+  })
+
+  it('intersects bounds and boxes across the antimeridian', () => {
+    const fiji = [177, -19, -178, -16]
+    expect(boundsIntersect(fiji, [179, -20, -179, -15])).to.equal(true)
+    expect(boundsIntersect(fiji, [-179, -20, -170, -15])).to.equal(true)
+    expect(boundsIntersect(fiji, [170, -20, 176, -15])).to.equal(false)
+    expect(boundsIntersect(fiji, [178, 0, 179, 10])).to.equal(false)
+    expect(boundsIntersect([0, 50, 10, 40], [5, 45, 20, 60])).to.equal(true)
+  })
+
+  it('measures the distance to chart bounds', () => {
+    expect(distanceToBounds([0, 0, 10, 10], 5, 5)).to.equal(0)
+    // One degree of latitude is about 111 km.
+    expect(distanceToBounds([0, 0, 10, 10], 5, 11)).to.be.closeTo(111195, 10)
+    // Two degrees of longitude at the equator, across the antimeridian.
+    expect(distanceToBounds([170, -10, 179, 10], -179, 0)).to.be.closeTo(
+      222390,
+      10
+    )
+  })
+})
+
+describe('chartQuery: parseChartQuery', () => {
+  it('reads the resources API parameters', () => {
+    expect(
+      parseChartQuery({
+        position: '[24.9,60.1]',
+        distance: '5000',
+        box: '[20,55,30,65]',
+        limit: '3'
+      })
+    ).to.deep.equal({
+      query: {
+        position: [24.9, 60.1],
+        distance: 5000,
+        bbox: [20, 55, 30, 65],
+        limit: 3
+      }
+    })
+  })
+
+  it('reports the first invalid parameter', () => {
+    for (const params of [
+      { position: 'here' },
+      { bbox: '1,2' },
+      { distance: '-1' },
+      { limit: '0' },
+      { zoom: '2.5' }
+    ]) {
+      expect(parseChartQuery(params)).to.have.property('error')
+    }
+  })
+})
+
+describe('chartQuery: queryCharts', () => {
+  const chart = (identifier: string, bounds: number[], scale = 50000) =>
+    ({ identifier, bounds, scale }) as ChartProvider
+  const charts = {
+    helsinki: chart('helsinki', [24.8, 60.1, 25.1, 60.2], 20000),
+    gulf: chart('gulf', [22, 59, 30, 61], 250000),
+    tallinn: chart('tallinn', [24.6, 59.4, 24.9, 59.5]),
+    fiji: chart('fiji', [177, -19, -178, -16])
+  }
+  const ids = (providers: ChartProvider[]) => providers.map((p) => p.identifier)
+
+  it('lists the charts within a distance, nearest first', async () => {
+    const found = await queryCharts(charts, {
+      position: [24.95, 60.15],
+      distance: 100000
+    })
+    expect(ids(found)).to.deep.equal(['helsinki', 'gulf', 'tallinn'])
+  })
+
+  it('keeps the charts in a box and applies the limit', async () => {
+    expect(
+      ids(await queryCharts(charts, { bbox: [179, -20, -179, -15] }))
+    ).to.deep.equal(['fiji'])
+    expect(
+      ids(await queryCharts(charts, { bbox: [20, 55, 30, 65], limit: 2 }))
+    ).to.deep.equal(['helsinki', 'gulf'])
+  })
+
+  it('returns every chart without filters', async () => {
+    expect(await queryCharts(charts, {})).to.have.length(4)
+  })
+})
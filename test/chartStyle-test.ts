@@ -0,0 +1,144 @@
+/**
+ * Unit tests for chartStyle.ts. The style, sprite and glyph routes are
+ * covered in plugin-test.ts.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import {
+  findChartStyle,
+  glyphFilePaths,
+  rewriteChartStyle,
+  spriteFilePath
+} from '../src/chartStyle'
+import { ChartProvider } from '../src/types'
+
+const CHART_URL = 'http://boat.local:3000/signalk/chart-tiles/harbour'
+
+describe('chartStyle: findChartStyle', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chartstyle-'))
+  })
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('prefers the chart-named style over the folder style', async () => {
+    fs.writeFileSync(path.join(dir, 'style.json'), '{}')
+    fs.writeFileSync(path.join(dir, 'harbour.style.json'), '{}')
+    const file = path.join(dir, 'harbour.mbtiles')
+    expect(await findChartStyle(file, 'mbtiles', 'harbour', 'pbf')).to.eql({
+      stylePath: path.join(dir, 'harbour.style.json'),
+      assetsDir: dir
+    })
+    expect(await findChartStyle(file, 'mbtiles', 'other', 'pbf')).to.eql({
+      stylePath: path.join(dir, 'style.json'),
+      assetsDir: dir
+    })
+  })
+
+  it('looks inside a directory chart', async () => {
+    fs.writeFileSync(path.join(dir, 'style.json'), '{}')
+    expect(await findChartStyle(dir, 'directory', 'harbour', 'mvt')).to.eql({
+      stylePath: path.join(dir, 'style.json'),
+      assetsDir: dir
+    })
+  })
+
+  it('ignores raster charts and folders without a style', async () => {
+    const file = path.join(dir, 'harbour.mbtiles')
+    expect(await findChartStyle(file, 'mbtiles', 'harbour', 'pbf')).to.equal(
+      undefined
+    )
+    fs.writeFileSync(path.join(dir, 'style.json'), '{}')
+    expect(await findChartStyle(file, 'mbtiles', 'harbour', 'png')).to.equal(
+      undefined
+    )
+  })
+})
+
+describe('chartStyle: rewriteChartStyle', () => {
+  it('points local sources, sprites and glyphs at the chart routes', () => {
+    const style = rewriteChartStyle(
+      {
+        version: 8,
+        sources: {
+          chart: { type: 'vector', tiles: ['tiles/{z}/{x}/{y}.pbf'] },
+          other: { type: 'vector', url: 'mbtiles://harbour' }
+        },
+        sprite: 'mbtiles://sprites/sprite/',
+        glyphs: './fonts/{fontstack}/{range}.pbf',
+        layers: [{ id: 'land' }]
+      },
+      CHART_URL
+    )
+    expect(style).to.eql({
+      version: 8,
+      sources: {
+        chart: { type: 'vector', url: `${CHART_URL}/tilejson.json` },
+        other: { type: 'vector', url: `${CHART_URL}/tilejson.json` }
+      },
+      sprite: `${CHART_URL}/sprites/sprite`,
+      glyphs: `${CHART_URL}/fonts/{fontstack}/{range}.pbf`,
+      layers: [{ id: 'land' }]
+    })
+  })
+
+  it('leaves remote and non-vector sources alone', () => {
+    const sources = {
+      online: { type: 'vector', url: 'https://tiles.example.com/v.json' },
+      hillshade: { type: 'raster', tiles: ['hill/{z}/{x}/{y}.png'] }
+    }
+    const style = rewriteChartStyle(
+      {
+        sources,
+        sprite: [
+          { id: 'default', url: 'sprites/sprite' },
+          { id: 'online', url: 'https://example.com/sprite' }
+        ],
+        glyphs: 'https://example.com/{fontstack}/{range}.pbf'
+      },
+      CHART_URL
+    )
+    expect(style.sources).to.eql(sources)
+    expect(style.sprite).to.eql([
+      { id: 'default', url: `${CHART_URL}/sprites/sprite` },
+      { id: 'online', url: 'https://example.com/sprite' }
+    ])
+    expect(style.glyphs).to.equal('https://example.com/{fontstack}/{range}.pbf')
+  })
+})
+
+describe('chartStyle: asset paths', () => {
+  const provider = { _styleAssetsDir: '/charts' } as ChartProvider
+
+  it('accepts sprite sheet names only', () => {
+    expect(spriteFilePath(provider, 'sprite@2x.png')).to.equal(
+      path.join('/charts', 'sprites', 'sprite@2x.png')
+    )
+    for (const bad of ['../style.json', 'sprite.svg', '.hidden.json']) {
+      expect(spriteFilePath(provider, bad)).to.equal(undefined)
+    }
+  })
+
+  it('lists each font of a stack and rejects path tricks', () => {
+    expect(
+      glyphFilePaths(provider, 'A Font, ..,B/C,D Font', '0-255.pbf')
+    ).to.eql([
+      path.join('/charts', 'fonts', 'A Font', '0-255.pbf'),
+      path.join('/charts', 'fonts', 'D Font', '0-255.pbf')
+    ])
+    expect(glyphFilePaths(provider, 'A Font', '../0-255.pbf')).to.eql([])
+  })
+
+  it('has no assets for charts without a style', () => {
+    expect(spriteFilePath({} as ChartProvider, 'sprite.json')).to.equal(
+      undefined
+    )
+    expect(glyphFilePaths({} as ChartProvider, 'A', '0-255.pbf')).to.eql([])
+  })
+})
@@ -0,0 +1,394 @@
+/**
+ * Unit tests for chartUpload.ts: file names, MBTiles and bounds checks, the
+ * multipart reader, and storing uploads into a temp chart path. The HTTP
+ * route is covered in plugin-test.ts.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { expect } from 'chai'
+import {
+  MultipartFileExtractor,
+  multipartBoundary,
+  normalizeUploadFilename,
+  storeChartUpload,
+  validateChartBounds,
+  validateMbtilesUpload
+} from '../src/chartUpload'
+import { loadSqlite } from '../src/sqlite'
+import { buildZip } from './zipFixture'
+
+// An MBTiles file with one tile and the given metadata.
+const mbtilesBuffer = async (
+  dir: string,
+  metadata: { [name: string]: string } = {
+    name: 'Harbour',
+    format: 'png',
+    bounds: '24.5,60,25,60.5'
+  }
+): Promise<Buffer> => {
+  const file = path.join(dir, `build-${Math.random()}.mbtiles`)
+  const { DatabaseSync } = await loadSqlite()
+  const db = new DatabaseSync(file)
+  db.exec(`
+    CREATE TABLE metadata (name TEXT, value TEXT);
+    CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER,
+      tile_row INTEGER, tile_data BLOB);
+  `)
+  for (const [name, value] of Object.entries(metadata)) {
+    db.prepare('INSERT INTO metadata VALUES (?, ?)').run(name, value)
+  }
+  db.prepare('INSERT INTO tiles VALUES (1, 0, 0, ?)').run(Buffer.from('png'))
+  db.close()
+  const data = fs.readFileSync(file)
+  fs.rmSync(file)
+  return data
+}
+
+// Feeds the buffer a few bytes at a time, so boundaries fall across chunks.
+const chunked = (data: Buffer, size = 7) =>
+  Readable.from(
+    Array.from({ length: Math.ceil(data.length / size) }, (_, i) =>
+      data.subarray(i * size, (i + 1) * size)
+    )
+  )
+
+const multipartBody = (boundary: string, filename: string, data: Buffer) =>
+  Buffer.concat([
+    Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="note"\r\n\r\n` +
+        `not the file\r\n--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="chart"; filename="${filename}"\r\n` +
+        `Content-Type: application/octet-stream\r\n\r\n`
+    ),
+    data,
+    Buffer.from(`\r\n--${boundary}--\r\n`)
+  ])
+
+describe('chartUpload: checks', () => {
+  it('accepts plain .mbtiles and .zip file names', () => {
+    expect(normalizeUploadFilename('harbour.mbtiles')).to.deep.equal({
+      filename: 'harbour.mbtiles',
+      kind: 'mbtiles'
+    })
+    expect(normalizeUploadFilename('Harbour_2024.ZIP')).to.deep.equal({
+      filename: 'Harbour_2024.ZIP',
+      kind: 'zip'
+    })
+    for (const name of [
+      'harbour.png',
+      '../x.mbtiles',
+      '.hidden.zip',
+      'a b.zip'
+    ]) {
+      expect(normalizeUploadFilename(name), name).to.have.property('error')
+    }
+  })
+
+  it('validates chart bounds', () => {
+    expect(validateChartBounds([24.5, 60, 25, 60.5])).to.equal(undefined)
+    expect(validateChartBounds([170, 60.5, -170, 60])).to.equal(undefined)
+    expect(validateChartBounds([24.5, 60, 25])).to.match(/Invalid bounds/)
+    expect(validateChartBounds([24.5, 60, 25, NaN])).to.match(/Invalid/)
+    expect(validateChartBounds([190, 60, 25, 61])).to.match(/longitude/)
+    expect(validateChartBounds([24, -95, 25, 61])).to.match(/latitude/)
+  })
+
+  it('reads the boundary of a form upload', () => {
+    expect(multipartBoundary('multipart/form-data; boundary=abc')).to.equal(
+      'abc'
+    )
+    expect(
+      multipartBoundary('multipart/form-data; boundary="a b"; charset=utf-8')
+    ).to.equal('a b')
+    expect(multipartBoundary('application/octet-stream')).to.equal(undefined)
+    expect(multipartBoundary(undefined)).to.equal(undefined)
+  })
+
+  describe('validateMbtilesUpload', () => {
+    let dir: string
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-'))
+    })
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+    const check = (data: Buffer) => {
+      const file = path.join(dir, 'x.mbtiles')
+      fs.writeFileSync(file, data)
+      return validateMbtilesUpload(file)
+    }
+
+    it('accepts a chart with format, bounds and tiles', async () => {
+      expect(await check(await mbtilesBuffer(dir))).to.equal(undefined)
+    })
+
+    it('names what is missing', async () => {
+      expect(await check(await mbtilesBuffer(dir, { format: 'png' }))).to.match(
+        /no bounds/
+      )
+      expect(
+        await check(
+          await mbtilesBuffer(dir, { format: 'tiff', bounds: '0,0,1,1' })
+        )
+      ).to.match(/Invalid format tiff/)
+      expect(
+        await check(
+          await mbtilesBuffer(dir, { format: 'png', bounds: '0,0,1' })
+        )
+      ).to.match(/Invalid bounds/)
+      expect(await check(Buffer.from('SQLite format 3? no.'))).to.match(
+        /Not an MBTiles file/
+      )
+    })
+  })
+})
+
+describe('chartUpload: MultipartFileExtractor', () => {
+  it('passes on the first file of a form, chunk boundaries anywhere', async () => {
+    // Content that looks like the start of a delimiter.
+    const data = Buffer.from('abc\r\n--xy\r\n-def\r\n--xyz\r')
+    const extractor = new MultipartFileExtractor('xyzzy')
+    const out: Buffer[] = []
+    for await (const chunk of chunked(
+      multipartBody('xyzzy', 'harbour.mbtiles', data),
+      3
+    ).pipe(extractor)) {
+      out.push(chunk)
+    }
+    expect(Buffer.concat(out).toString()).to.equal(data.toString())
+    expect(extractor.filename).to.equal('harbour.mbtiles')
+  })
+
+  it('fails when the form has no file', async () => {
+    const body = Buffer.from(
+      '--b\r\nContent-Disposition: form-data; name="note"\r\n\r\nhi\r\n--b--\r\n'
+    )
+    let error: Error | undefined
+    try {
+      for await (const _chunk of Readable.from([body]).pipe(
+        new MultipartFileExtractor('b')
+      )) {
+        // Nothing to read.
+      }
+    } catch (err) {
+      error = err as Error
+    }
+    expect(error?.message).to.match(/No file/)
+  })
+})
+
+describe('chartUpload: storeChartUpload', () => {
+  let chartDir: string
+  let scratch: string
+  const maxBytes = 10 * 1024 * 1024
+
+  beforeEach(() => {
+    chartDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-charts-'))
+    scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-scratch-'))
+  })
+  afterEach(() => {
+    fs.rmSync(chartDir, { recursive: true, force: true })
+    fs.rmSync(scratch, { recursive: true, force: true })
+    fs.rmSync(uploadsDir(), { recursive: true, force: true })
+  })
+  const listing = () => fs.readdirSync(chartDir).sort()
+  const uploadsDir = () =>
+    path.join(path.dirname(chartDir), `.${path.basename(chartDir)}.uploads`)
+
+  it('moves a valid MBTiles upload into the chart path', async () => {
+    const data = await mbtilesBuffer(scratch)
+    const result = await storeChartUpload(chunked(data, 4096), {
+      chartDir,
+      filename: 'harbour.mbtiles',
+      maxBytes
+    })
+    expect(result).to.deep.equal({
+      identifier: 'harbour',
+      path: path.join(chartDir, 'harbour.mbtiles')
+    })
+    expect(listing()).to.deep.equal(['harbour.mbtiles'])
+    expect(fs.readFileSync(path.join(chartDir, 'harbour.mbtiles'))).to.eql(data)
+  })
+
+  it('takes the file name from a multipart body', async () => {
+    const body = multipartBody(
+      'b0und',
+      'harbour.mbtiles',
+      await mbtilesBuffer(scratch)
+    )
+    const result = await storeChartUpload(chunked(body, 1000), {
+      chartDir,
+      contentType: 'multipart/form-data; boundary=b0und',
+      maxBytes
+    })
+    expect(result).to.include({ identifier: 'harbour' })
+    expect(listing()).to.deep.equal(['harbour.mbtiles'])
+  })
+
+  it('refuses invalid and existing charts, leaving nothing behind', async () => {
+    const invalid = await storeChartUpload(
+      Readable.from([await mbtilesBuffer(scratch, { format: 'png' })]),
+      { chartDir, filename: 'harbour.mbtiles', maxBytes }
+    )
+    expect(invalid).to.deep.include({ status: 400 })
+    expect(listing()).to.deep.equal([])
+
+    fs.writeFileSync(path.join(chartDir, 'harbour.mbtiles'), 'old')
+    const existing = await storeChartUpload(
+      Readable.from([await mbtilesBuffer(scratch)]),
+      { chartDir, filename: 'harbour.mbtiles', maxBytes }
+    )
+    expect(existing).to.deep.equal({
+      status: 409,
+      error: 'harbour.mbtiles already exists'
+    })
+    expect(listing()).to.deep.equal(['harbour.mbtiles'])
+  })
+
+  it('enforces the size limit', async () => {
+    const data = await mbtilesBuffer(scratch)
+    expect(
+      await storeChartUpload(Readable.from([data]), {
+        chartDir,
+        filename: 'harbour.mbtiles',
+        contentLength: data.length,
+        maxBytes: 100
+      })
+    ).to.include({ status: 413 })
+    // Without a Content-Length the limit applies while streaming.
+    expect(
+      await storeChartUpload(chunked(data, 64), {
+        chartDir,
+        filename: 'harbour.mbtiles',
+        maxBytes: 100
+      })
+    ).to.include({ status: 413 })
+    expect(listing()).to.deep.equal([])
+  })
+
+  it('refuses an upload the disk has no room for', async () => {
+    expect(
+      await storeChartUpload(Readable.from([]), {
+        chartDir,
+        filename: 'harbour.mbtiles',
+        contentLength: Number.MAX_SAFE_INTEGER,
+        maxBytes: Number.MAX_SAFE_INTEGER
+      })
+    ).to.include({ status: 507 })
+    // Without a Content-Length the upload may be as large as the limit.
+    expect(
+      await storeChartUpload(Readable.from([]), {
+        chartDir,
+        filename: 'harbour.mbtiles',
+        maxBytes: Number.MAX_SAFE_INTEGER
+      })
+    ).to.include({ status: 507 })
+  })
+
+  it('stages the upload outside the chart path', async () => {
+    const data = await mbtilesBuffer(scratch)
+    const seen: { charts: string[]; staged: string[] } = {
+      charts: [],
+      staged: []
+    }
+    const source = Readable.from(
+      (function* () {
+        yield data.subarray(0, 100)
+        seen.charts = listing()
+        seen.staged = fs.readdirSync(uploadsDir())
+        yield data.subarray(100)
+      })()
+    )
+    expect(
+      await storeChartUpload(source, {
+        chartDir,
+        filename: 'harbour.mbtiles',
+        maxBytes
+      })
+    ).to.include({ identifier: 'harbour' })
+    expect(seen.charts).to.deep.equal([])
+    expect(seen.staged).to.have.length(1)
+    expect(fs.readdirSync(uploadsDir())).to.deep.equal([])
+  })
+
+  it('unpacks a zipped tile directory under its folder name', async () => {
+    const zip = buildZip([
+      {
+        name: 'harbour/metadata.json',
+        data: JSON.stringify({
+          name: 'Harbour',
+          format: 'png',
+          bounds: '24.5,60,25,60.5',
+          minzoom: 1,
+          maxzoom: 1
+        })
+      },
+      { name: 'harbour/1/1/0.png', data: 'png', deflate: true }
+    ])
+    const result = await storeChartUpload(Readable.from([zip]), {
+      chartDir,
+      filename: 'upload.zip',
+      maxBytes
+    })
+    expect(result).to.deep.equal({
+      identifier: 'harbour',
+      path: path.join(chartDir, 'harbour')
+    })
+    expect(listing()).to.deep.equal(['harbour'])
+    expect(
+      fs.readFileSync(path.join(chartDir, 'harbour', '1', '1', '0.png'), 'utf8')
+    ).to.equal('png')
+  })
+
+  it('names a chart at the zip root after the zip', async () => {
+    const zip = buildZip([
+      {
+        name: 'tilemapresource.xml',
+        data:
+          '<TileMap><Title>Bay</Title><TileFormat extension="png"/>' +
+          '<BoundingBox minx="24" miny="60" maxx="25" maxy="61"/>' +
+          '<TileSets><TileSet href="4"/></TileSets></TileMap>'
+      },
+      { name: '4/8/10.png', data: 'png' }
+    ])
+    const result = await storeChartUpload(Readable.from([zip]), {
+      chartDir,
+      filename: 'bay.zip',
+      maxBytes
+    })
+    expect(result).to.include({ identifier: 'bay' })
+    expect(
+      fs.existsSync(path.join(chartDir, 'bay', '4', '8', '10.png'))
+    ).to.equal(true)
+  })
+
+  it('refuses zips without a chart or with unsafe paths', async () => {
+    const store = (zip: Buffer) =>
+      storeChartUpload(Readable.from([zip]), {
+        chartDir,
+        filename: 'x.zip',
+        maxBytes
+      })
+    expect(
+      await store(buildZip([{ name: 'readme.txt', data: 'hi' }]))
+    ).to.deep.equal({
+      status: 400,
+      error: 'No TMS or XYZ tile directory in zip'
+    })
+    expect(
+      await store(buildZip([{ name: '../../escape.txt', data: 'hi' }]))
+    ).to.deep.include({ status: 400 })
+    expect(
+      await store(buildZip([{ name: 'a.mbtiles', data: 'hi' }]))
+    ).to.deep.include({ status: 400 })
+    expect(await store(Buffer.from('no zip'))).to.deep.equal({
+      status: 400,
+      error: 'Not a zip archive'
+    })
+    expect(listing()).to.deep.equal([])
+    expect(fs.existsSync(path.join(os.tmpdir(), 'escape.txt'))).to.equal(false)
+  })
+})
@@ -7,7 +7,7 @@
 
 import path from 'path'
 import { expect } from 'chai'
-import { findCharts } from '../src/charts'
+import { findCharts, parseTileStats, parseVectorLayers } from '../src/charts'
 
 const CHARTS_DIR = path.resolve(__dirname, 'charts')
 
@@ -86,3 +86,53 @@ describe('charts: findCharts', () => {
     expect(result).to.deep.equal({})
   })
 })
+
+describe('charts: parseVectorLayers', () => {
+  it('keeps ids, descriptions, zoom ranges and field types', () => {
+    expect(
+      parseVectorLayers([
+        {
+          id: 'depare',
+          description: 'Depth areas',
+          minzoom: 6,
+          maxzoom: 14,
+          fields: { DRVAL1: 'Number', OBJNAM: 'String' }
+        }
+      ])
+    ).to.deep.equal([
+      {
+        id: 'depare',
+        description: 'Depth areas',
+        minzoom: 6,
+        maxzoom: 14,
+        fields: { DRVAL1: 'Number', OBJNAM: 'String' }
+      }
+    ])
+  })
+
+  it('drops malformed entries and keys', () => {
+    expect(
+      parseVectorLayers([
+        { description: 'no id' },
+        { id: 'lndare', minzoom: 'low', fields: { a: 'String', b: 3 } },
+        null
+      ])
+    ).to.deep.equal([{ id: 'lndare', fields: { a: 'String' } }])
+    expect(parseVectorLayers(undefined)).to.deep.equal([])
+  })
+})
+
+describe('charts: parseTileStats', () => {
+  const stats = { layerCount: 1, layers: [{ layer: 'depare', count: 12 }] }
+
+  it('accepts the parsed object or its JSON string', () => {
+    expect(parseTileStats(stats)).to.deep.equal(stats)
+    expect(parseTileStats(JSON.stringify(stats))).to.deep.equal(stats)
+  })
+
+  it('ignores anything without a layers list', () => {
+    expect(parseTileStats('not json')).to.equal(undefined)
+    expect(parseTileStats({ layerCount: 0 })).to.equal(undefined)
+    expect(parseTileStats(undefined)).to.equal(undefined)
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for compositeCharts.ts. Serving composite tiles is covered in
+ * plugin-test.ts.
+ */
+
+import { expect } from 'chai'
+import {
+  buildCompositeProvider,
+  compositeMembersFor
+} from '../src/compositeCharts'
+import { ChartProvider } from '../src/types'
+
+const chart = (
+  identifier: string,
+  overrides: Partial<ChartProvider> = {}
+): ChartProvider =>
+  ({
+    identifier,
+    name: identifier,
+    description: '',
+    type: 'tilelayer',
+    format: 'png',
+    scale: 250000,
+    minzoom: 4,
+    maxzoom: 12,
+    bounds: [0, 0, 10, 10],
+    _fileFormat: 'mbtiles',
+    _filePath: `/charts/${identifier}.mbtiles`,
+    ...overrides
+  }) as ChartProvider
+
+describe('compositeCharts: buildCompositeProvider', () => {
+  const charts = {
+    harbour: chart('harbour', {
+      scale: 20000,
+      minzoom: 12,
+      maxzoom: 16,
+      bounds: [2, 2, 3, 3],
+      _attribution: 'NOAA'
+    }),
+    coast: chart('coast', { _attribution: 'NOAA' }),
+    // Swapped latitudes, as some writers produce.
+    ocean: chart('ocean', {
+      scale: 1000000,
+      minzoom: 0,
+      maxzoom: 8,
+      bounds: [-20, 30, 40, -10],
+      _attribution: 'Other'
+    }),
+    vector: chart('vector', { format: 'pbf' }),
+    online: chart('online', { _fileFormat: undefined, proxy: true })
+  }
+
+  it('stacks the charts into one tile layer', () => {
+    const messages: string[] = []
+    const composite = buildCompositeProvider(
+      {
+        name: 'US Coast',
+        description: 'Stacked',
+        charts: ['harbour', 'vector', 'online', 'missing', 'coast', 'ocean']
+      },
+      charts,
+      (msg) => messages.push(msg)
+    )
+    expect(composite).to.deep.include({
+      identifier: 'us-coast',
+      name: 'US Coast',
+      description: 'Stacked',
+      type: 'tilelayer',
+      format: 'png',
+      scale: 20000,
+      minzoom: 0,
+      maxzoom: 16,
+      bounds: [-20, -10, 40, 30],
+      _compositeOf: ['harbour', 'coast', 'ocean'],
+      _attribution: 'NOAA, Other'
+    })
+    expect(composite?.v2?.url).to.equal('~tilePath~/us-coast/{z}/{x}/{y}')
+    expect(messages).to.have.length(3)
+    expect(messages[0]).to.match(/"vector" is pbf/)
+  })
+
+  it('returns undefined without any loaded chart', () => {
+    expect(
+      buildCompositeProvider(
+        { name: 'None', charts: ['missing'] },
+        charts,
+        () => undefined
+      )
+    ).to.equal(undefined)
+  })
+})
+
+describe('compositeCharts: compositeMembersFor', () => {
+  const charts = {
+    detail: chart('detail', { minzoom: 10, maxzoom: 16 }),
+    overview: chart('overview', {
+      minzoom: 0,
+      maxzoom: 12,
+      bounds: [-180, -85, 180, 85]
+    }),
+    elsewhere: chart('elsewhere', { bounds: [100, 0, 110, 10] })
+  }
+  const composite = chart('stack', {
+    _compositeOf: ['detail', 'gone', 'overview', 'elsewhere']
+  })
+
+  const ids = (z: number, x: number, y: number) =>
+    compositeMembersFor(composite, charts, z, x, y).map((c) => c.identifier)
+
+  it('keeps priority order and skips charts that cannot have the tile', () => {
+    // z=10 tile around (5E, 5N).
+    expect(ids(10, 526, 497)).to.deep.equal(['detail', 'overview'])
+    // Below the detail chart's zoom range.
+    expect(ids(6, 32, 31)).to.deep.equal(['overview'])
+    // Above the overview's.
+    expect(ids(14, 8419, 7964)).to.deep.equal(['detail'])
+  })
+
+  it('looks members up in the current chart set', () => {
+    expect(compositeMembersFor(composite, {}, 10, 526, 497)).to.deep.equal([])
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for imageScale.ts: JPEG and WebP tiles are cropped and scaled
+ * with sharp. The overzoom route is covered in plugin-test.ts.
+ */
+
+import { expect } from 'chai'
+import sharp from 'sharp'
+import { cropAndScaleImage, isScalableImageFormat } from '../src/imageScale'
+
+// A 16 px tile, red in its top-right quarter and blue elsewhere.
+const quarters = async (format: 'jpeg' | 'webp') => {
+  const pixels = Buffer.alloc(16 * 16 * 3)
+  for (let y = 0; y < 16; y++) {
+    for (let x = 0; x < 16; x++) {
+      const red = x >= 8 && y < 8
+      pixels.set(red ? [255, 0, 0] : [0, 0, 255], (y * 16 + x) * 3)
+    }
+  }
+  return sharp(pixels, { raw: { width: 16, height: 16, channels: 3 } })
+    .toFormat(format, { quality: 100 })
+    .toBuffer()
+}
+
+describe('imageScale: cropAndScaleImage', () => {
+  it('scales JPEG and WebP only', () => {
+    expect(isScalableImageFormat('jpg')).to.equal(true)
+    expect(isScalableImageFormat('jpeg')).to.equal(true)
+    expect(isScalableImageFormat('webp')).to.equal(true)
+    expect(isScalableImageFormat('png')).to.equal(false)
+  })
+
+  for (const [format, output] of [
+    ['jpg', 'jpeg'],
+    ['webp', 'webp']
+  ] as const) {
+    it(`crops a ${format} tile and keeps its size and format`, async () => {
+      const tile = await cropAndScaleImage(
+        await quarters(output),
+        format,
+        1,
+        1,
+        0
+      )
+      const { info, data } = await sharp(tile)
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+      expect(info).to.include({ width: 16, height: 16, format: 'raw' })
+      expect((await sharp(tile).metadata()).format).to.equal(output)
+      // The top-right quarter is all red, scaled up to the whole tile.
+      const [r, g, b] = data.subarray((8 * 16 + 8) * info.channels)
+      expect(r).to.be.above(200)
+      expect(g! + b!).to.be.below(60)
+    })
+  }
+
+  it('returns undefined for data it cannot decode', async () => {
+    expect(
+      await cropAndScaleImage(Buffer.from('not an image'), 'jpg', 1, 0, 0)
+    ).to.equal(undefined)
+  })
+})
@@ -7,6 +7,7 @@
 import fs from 'fs'
 import path from 'path'
 import http from 'http'
+import { gunzipSync, gzipSync } from 'zlib'
 import * as _ from 'lodash'
 import express from 'express'
 import { expect } from 'chai'
@@ -18,6 +19,12 @@ import { request } from 'chai-http'
 process.env.SK_CHARTS_RELOAD_DEBOUNCE_MS = '150'
 
 import Plugin = require('../src/index')
+import { ChartDownloader, ChartSeedingManager } from '../src/chartDownloader'
+import { tileCacheFor } from '../src/tileCache'
+import { setRendererModule } from '../src/rasterRenderer'
+import { decodePng } from '../src/png'
+import { rateLimiterFor, resetRateLimiters } from '../src/rateLimiter'
+import { loadSqlite } from '../src/sqlite'
 import expectedCharts from './expected-charts.json'
 
 // The Plugin interface from @signalk/server-api types `start` as
@@ -242,6 +249,171 @@ describe('GET /resources/charts', () => {
   })
 })
 
+describe('writable v2 chart resources', () => {
+  let plugin: PluginInstance
+  let testServer: http.Server
+  let testApp: TestApp
+  const osm = {
+    name: 'Open Street Map',
+    minzoom: 1,
+    maxzoom: 18,
+    format: 'png',
+    url: 'https://tile.example.com/{z}/{x}/{y}.png'
+  }
+  const methods = () => testApp.resourceProvider!.methods
+  const listIds = async () => Object.keys(await methods().listResources({}))
+  const failure = (promise: Promise<unknown>) =>
+    promise.then(
+      () => undefined,
+      (err: Error) => err.message
+    )
+
+  beforeEach(() =>
+    createDefaultApp().then(({ app, server }) => {
+      app.config.version = '2.0.0'
+      testApp = app
+      plugin = asPluginApp(app)
+      testServer = server
+    })
+  )
+  afterEach((done) => {
+    if (plugin && plugin.stop) plugin.stop()
+    testServer.close(() => done())
+  })
+
+  it('adds an online provider and saves it to the plugin config', async () => {
+    await plugin.start({ chartPaths: ['charts'] })
+    await methods().setResource('open-street-map', {
+      ...osm,
+      identifier: 'ignored',
+      bounds: [-180, -90, 180, 90]
+    })
+    expect(testApp.savedOptions).to.deep.include({
+      chartPaths: ['charts'],
+      onlineChartProviders: [osm]
+    })
+    expect(await methods().getResource('open-street-map')).to.deep.include({
+      name: 'Open Street Map',
+      url: osm.url,
+      maxzoom: 18
+    })
+    const res = await get(testServer, '/signalk/v1/api/resources/charts')
+    expect(res.body).to.have.keys([
+      'test',
+      'tms-tiles',
+      'unpacked-tiles',
+      'open-street-map'
+    ])
+  })
+
+  it('keeps a server-generated id the name does not give', async () => {
+    await plugin.start({})
+    await methods().setResource('fleet-1', osm)
+    expect(testApp.savedOptions?.onlineChartProviders).to.deep.equal([
+      { identifier: 'fleet-1', ...osm }
+    ])
+    expect(await methods().getResource('fleet-1')).to.include({
+      identifier: 'fleet-1'
+    })
+  })
+
+  it('replaces a provider in place and deletes it', async () => {
+    const sea = { ...osm, name: 'Sea', url: 'https://sea.example.com' }
+    await plugin.start({ onlineChartProviders: [osm, sea] })
+    await methods().setResource('open-street-map', { ...osm, maxzoom: 12 })
+    expect(testApp.savedOptions?.onlineChartProviders).to.deep.equal([
+      { ...osm, maxzoom: 12 },
+      sea
+    ])
+    expect(await methods().getResource('open-street-map')).to.include({
+      maxzoom: 12
+    })
+
+    await methods().deleteResource('open-street-map')
+    expect(testApp.savedOptions?.onlineChartProviders).to.deep.equal([sea])
+    expect(await listIds())
+      .to.include('sea')
+      .and.not.include('open-street-map')
+  })
+
+  it('serves the local chart a deleted provider shadowed', async () => {
+    const shadow = { ...osm, name: 'Test' }
+    await plugin.start({ onlineChartProviders: [shadow] })
+    expect(await methods().getResource('test')).to.include({ name: 'Test' })
+    await methods().deleteResource('test')
+    const local = await methods().getResource('test')
+    expect(local).to.not.include({ name: 'Test' })
+    expect(await listIds()).to.include('test')
+  })
+
+  it('cancels the seeding jobs of a deleted provider', async () => {
+    fs.mkdirSync(TMP_BASE, { recursive: true })
+    const cacheDir = fs.mkdtempSync(path.join(TMP_BASE, 'cache-'))
+    try {
+      await plugin.start({
+        cachePath: cacheDir,
+        onlineChartProviders: [{ ...osm, proxy: true }]
+      })
+      const created = await request
+        .execute(`http://localhost:${serverPort(testServer)}`)
+        .post('/signalk/chart-tiles/cache/open-street-map')
+        .send({
+          maxZoom: '4',
+          bbox: { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 }
+        })
+      expect(created.status).to.equal(202)
+      await methods().deleteResource('open-street-map')
+      const jobs = await get(testServer, '/signalk/chart-tiles/cache/jobs')
+      expect(jobs.body).to.deep.equal([])
+    } finally {
+      plugin.stop()
+      await ChartSeedingManager.whenSaved()
+      fs.rmSync(cacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('rejects providers that fail the config schema', async () => {
+    await plugin.start({})
+    for (const [value, message] of [
+      [{ ...osm, url: undefined }, /url/],
+      [{ ...osm, name: '' }, /name/],
+      [{ ...osm, maxzoom: 30 }, /maxzoom/],
+      [{ ...osm, minzoom: 10, maxzoom: 5 }, /above maxzoom/],
+      [{ ...osm, format: 'gif' }, /format/],
+      [{ ...osm, serverType: 'XYZ' }, /serverType/],
+      [{ ...osm, headers: 'Referer: x' }, /headers/],
+      [{ ...osm, concurrentDownloads: 0 }, /concurrency/]
+    ] as [object, RegExp][]) {
+      expect(await failure(methods().setResource('osm', value))).to.match(
+        message
+      )
+    }
+    expect(testApp.savedOptions).to.equal(undefined)
+  })
+
+  it('refuses to write local charts and unknown deletes', async () => {
+    await plugin.start({})
+    expect(await failure(methods().setResource('test', osm))).to.match(
+      /not an online chart provider/
+    )
+    expect(await failure(methods().deleteResource('test'))).to.match(
+      /not an online chart provider/
+    )
+    expect(await failure(methods().deleteResource('nope'))).to.match(
+      /not found/
+    )
+  })
+
+  it('leaves the providers unchanged when the config cannot be saved', async () => {
+    await plugin.start({})
+    testApp.saveError = new Error('read-only config')
+    expect(await failure(methods().setResource('osm', osm))).to.equal(
+      'read-only config'
+    )
+    expect(await listIds()).to.not.include('open-street-map')
+  })
+})
+
 describe('GET /signalk/chart-tiles/:identifier/:z/:x/:y', () => {
   let plugin: PluginInstance
   let testServer: http.Server
@@ -298,6 +470,217 @@ describe('GET /signalk/chart-tiles/:identifier/:z/:x/:y', () => {
       })
   })
 
+  for (const [backend, location] of [
+    ['MBTiles file', '/signalk/chart-tiles/test/4/5/6'],
+    ['directory', '/signalk/chart-tiles/unpacked-tiles/4/4/6']
+  ]) {
+    it(`answers If-None-Match with 304 for a ${backend}`, async () => {
+      await plugin.start({})
+      const first = await rawGet(testServer, location!)
+      const etag = first.headers['etag']
+      expect(etag).to.match(/^"[\w-]+"$/)
+      const second = await rawGet(testServer, location!, {
+        'If-None-Match': etag
+      })
+      expect(second.status).to.equal(304)
+      expect(second.headers['etag']).to.equal(etag)
+      expect(second.body).to.have.length(0)
+    })
+  }
+
+  it('overzooms a png chart past its maxzoom when configured', async () => {
+    await plugin.start({
+      overzoom: [{ chart: 'unpacked-tiles', levels: 2 }]
+    })
+    // 5/8/12 is the top-left quarter of 4/4/6, the chart's maxzoom.
+    const res = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/unpacked-tiles/5/8/12'
+    )
+    expect(res.status).to.equal(200)
+    expect(res.headers['content-type']).to.equal('image/png')
+    const tile = decodePng(res.body)
+    expect(tile).to.include({ width: 256, height: 256 })
+    const parent = decodePng(
+      fs.readFileSync(
+        path.resolve(__dirname, 'charts/unpacked-tiles/4/4/6.png')
+      )
+    )!
+    expect([...tile!.pixels.subarray(0, 4)]).to.deep.equal([
+      ...parent.pixels.subarray(0, 4)
+    ])
+    expect(
+      (await rawGet(testServer, '/signalk/chart-tiles/unpacked-tiles/7/64/96'))
+        .status
+    ).to.equal(404)
+  })
+
+  it('sends a local chart with its configured max-age', async () => {
+    await plugin.start({
+      tileMaxAge: [{ chart: 'unpacked-tiles', hours: 2 }]
+    })
+    const res = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/unpacked-tiles/4/4/6'
+    )
+    expect(res.status).to.equal(200)
+    expect(res.headers['cache-control']).to.equal('public, max-age=7200')
+  })
+
+  it('leaves tiles past maxzoom missing without overzoom', async () => {
+    await plugin.start({})
+    const res = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/unpacked-tiles/5/8/12'
+    )
+    expect(res.status).to.equal(404)
+  })
+
+  it('returns the coverage of a chart as GeoJSON', async () => {
+    await plugin.start({})
+    const res = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/tms-tiles/coverage.geojson?zoom=5'
+    )
+    expect(res.status).to.equal(200)
+    expect(res.headers['content-type']).to.match(/^application\/geo\+json/)
+    const { features } = JSON.parse(res.body.toString())
+    expect(features[0].properties).to.include({ zoom: 5, tiles: 9 })
+    // The 3x3 block of tiles is one rectangle.
+    expect(features[0].geometry.coordinates).to.have.length(1)
+    expect(features[0].geometry.coordinates[0][0]).to.have.length(5)
+    const ring: number[][] = features[0].geometry.coordinates[0][0]
+    expect(Math.min(...ring.map(([lon]) => lon!))).to.equal(0)
+    expect(Math.max(...ring.map(([lon]) => lon!))).to.equal(33.75)
+    expect(Math.max(...ring.map(([, lat]) => lat!))).to.be.closeTo(66.51, 0.01)
+
+    const badZoom = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/tms-tiles/coverage.geojson?zoom=9'
+    )
+    expect(badZoom.status).to.equal(400)
+    const missing = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/foo/coverage.geojson'
+    )
+    expect(missing.status).to.equal(404)
+  })
+
+  it('finds the charts covering a position', async () => {
+    await plugin.start({})
+    const res = await get(
+      testServer,
+      '/signalk/chart-tiles/query?lat=34&lon=-75&zoom=4'
+    )
+    const ids = res.body.map((c: { identifier: string }) => c.identifier)
+    expect(ids).to.have.members(['test', 'unpacked-tiles'])
+    expect(res.body[0]).to.include({ zoomFits: true, coverage: 'tiles' })
+
+    const empty = await get(
+      testServer,
+      '/signalk/chart-tiles/query?lat=0&lon=0'
+    )
+    expect(empty.body).to.deep.equal([])
+    for (const query of ['lat=34', 'lat=100&lon=0', 'lat=0&lon=0&zoom=30']) {
+      const bad = await rawGet(
+        testServer,
+        `/signalk/chart-tiles/query?${query}`
+      )
+      expect(bad.status).to.equal(400)
+    }
+  })
+
+  describe('underzoom', () => {
+    let cacheDir: string
+    beforeEach(() => {
+      fs.mkdirSync(TMP_BASE, { recursive: true })
+      cacheDir = fs.mkdtempSync(path.join(TMP_BASE, 'underzoom-'))
+    })
+    afterEach(() => fs.rmSync(cacheDir, { recursive: true, force: true }))
+
+    const startWithUnderzoom = () =>
+      plugin.start({
+        cachePath: cacheDir,
+        underzoom: [{ chart: 'unpacked-tiles', levels: 2 }]
+      })
+
+    it('lists the lowered minzoom and builds overview tiles', async () => {
+      await startWithUnderzoom()
+      const chart = await get(
+        testServer,
+        '/signalk/v1/api/resources/charts/unpacked-tiles'
+      )
+      expect(chart.body).to.include({ minzoom: 1 })
+      // 2/1/1 covers 3/2/3, the chart's only zoom 3 tile.
+      const res = await rawGet(
+        testServer,
+        '/signalk/chart-tiles/unpacked-tiles/2/1/1'
+      )
+      expect(res.status).to.equal(200)
+      expect(res.headers['content-type']).to.equal('image/png')
+      expect(decodePng(res.body)).to.include({ width: 256, height: 256 })
+      expect(
+        fs.existsSync(
+          path.join(cacheDir, 'unpacked-tiles.underzoom', '2', '1', '1.png')
+        )
+      ).to.equal(true)
+      const below = await rawGet(
+        testServer,
+        '/signalk/chart-tiles/unpacked-tiles/0/0/0'
+      )
+      expect(below.status).to.equal(404)
+    })
+
+    it('builds all overviews in a job', async () => {
+      await startWithUnderzoom()
+      const base = `http://localhost:${serverPort(testServer)}`
+      const res = await request
+        .execute(base)
+        .post('/signalk/chart-tiles/cache/unpacked-tiles/overviews')
+      expect(res.status).to.equal(202)
+      expect(res.body).to.include({ minZoom: 1, maxZoom: 2 })
+
+      let status = res.body.status
+      for (let i = 0; i < 100 && status === 'running'; i++) {
+        await wait(10)
+        const list = await get(
+          testServer,
+          '/signalk/chart-tiles/cache/overviews'
+        )
+        status = list.body[0].status
+      }
+      expect(status).to.equal('completed')
+      expect(
+        fs.existsSync(
+          path.join(cacheDir, 'unpacked-tiles.underzoom', '1', '0', '0.png')
+        )
+      ).to.equal(true)
+    })
+
+    it('refuses an overview job for a chart without underzoom', async () => {
+      await plugin.start({ cachePath: cacheDir })
+      const res = await request
+        .execute(`http://localhost:${serverPort(testServer)}`)
+        .post('/signalk/chart-tiles/cache/unpacked-tiles/overviews')
+      expect(res.status).to.equal(400)
+    })
+  })
+
+  it('returns TileJSON for a raster chart and 404 for an unknown one', async () => {
+    await plugin.start({})
+    const res = await get(testServer, '/signalk/chart-tiles/test/tilejson.json')
+    expect(res.body).to.include({ name: 'MBTILES_19', format: 'png' })
+    expect(res.body.tiles[0]).to.match(
+      /^http:\/\/localhost:\d+\/signalk\/chart-tiles\/test\/\{z\}/
+    )
+    expect(res.body).to.not.have.property('vector_layers')
+    const missing = await get(
+      testServer,
+      '/signalk/chart-tiles/foo/tilejson.json'
+    ).catch((e) => e.response)
+    expect(missing.status).to.equal(404)
+  })
+
   it('returns 404 for missing tile', () => {
     // Valid in-grid coordinates (2^5 = 32) but no file on disk: the TMS
     // fixture only ships a small band in x/y.
@@ -367,6 +750,423 @@ describe('GET /signalk/chart-tiles/:identifier/:z/:x/:y', () => {
   })
 })
 
+describe('vector tile content negotiation', () => {
+  let plugin: PluginInstance
+  let testApp: TestApp
+  let testServer: http.Server
+  let chartDir: string
+  // A minimal vector tile: one empty layer (field 3, length 0).
+  const pbf = Buffer.from([0x1a, 0x00])
+  const tilestats = {
+    layerCount: 1,
+    layers: [{ layer: 'depare', count: 1, geometry: 'Polygon' }]
+  }
+
+  // Writes a vector MBTiles holding `data` at 1/0/0 (TMS row 1).
+  const writeVectorMbtiles = async (file: string, data: Buffer) => {
+    const { DatabaseSync } = await loadSqlite()
+    const db = new DatabaseSync(file)
+    db.exec(`
+      CREATE TABLE metadata (name TEXT, value TEXT);
+      CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER,
+        tile_row INTEGER, tile_data BLOB);
+    `)
+    const meta = db.prepare('INSERT INTO metadata VALUES (?, ?)')
+    for (const [name, value] of Object.entries({
+      name: 'Vector',
+      format: 'pbf',
+      minzoom: '1',
+      maxzoom: '1',
+      bounds: '-180,-85,180,85',
+      attribution: 'Test Office',
+      json: JSON.stringify({
+        vector_layers: [{ id: 'depare', fields: { DRVAL1: 'Number' } }],
+        tilestats
+      })
+    })) {
+      meta.run(name, value)
+    }
+    db.prepare('INSERT INTO tiles VALUES (1, 0, 1, ?)').run(data)
+    db.close()
+  }
+
+  beforeEach(async () => {
+    fs.mkdirSync(TMP_BASE, { recursive: true })
+    chartDir = fs.mkdtempSync(path.join(TMP_BASE, 'vector-'))
+    await writeVectorMbtiles(
+      path.join(chartDir, 'vector.mbtiles'),
+      gzipSync(pbf)
+    )
+    return createDefaultApp().then(({ app, server }) => {
+      app.config.version = '2.0.0'
+      testApp = app
+      plugin = asPluginApp(app)
+      testServer = server
+    })
+  })
+  afterEach((done) => {
+    if (plugin && plugin.stop) plugin.stop()
+    testServer.close(() => {
+      fs.rmSync(chartDir, { recursive: true, force: true })
+      done()
+    })
+  })
+
+  it('sends the maxzoom tile with its location when overzoomed', async () => {
+    await plugin.start({
+      chartPaths: [chartDir],
+      overzoom: [{ chart: 'vector', levels: 1 }]
+    })
+    const res = await rawGet(testServer, '/signalk/chart-tiles/vector/2/1/1', {
+      'Accept-Encoding': 'gzip'
+    })
+    expect(res.status).to.equal(200)
+    expect(res.headers['content-location']).to.equal(
+      '/signalk/chart-tiles/vector/1/0/0'
+    )
+    expect(gunzipSync(res.body)).to.eql(pbf)
+  })
+
+  it('filters v2 resources by position', async () => {
+    await plugin.start({ chartPaths: [chartDir] })
+    const { listResources } = testApp.resourceProvider!.methods
+    // The chart only has the north-west tile at zoom 1.
+    expect(await listResources({ position: '[-90,45]' })).to.have.keys([
+      'vector'
+    ])
+    expect(await listResources({ position: '[90,-45]' })).to.deep.equal({})
+    expect(await listResources({})).to.have.keys(['vector'])
+    let error: Error | undefined
+    await Promise.resolve()
+      .then(() => listResources({ position: 'north' }))
+      .catch((err) => (error = err))
+    expect(error?.message).to.match(/Invalid position/)
+  })
+
+  it('filters v2 resources by distance, bbox and limit', async () => {
+    await writeVectorMbtiles(
+      path.join(chartDir, 'second.mbtiles'),
+      gzipSync(pbf)
+    )
+    await plugin.start({ chartPaths: [chartDir] })
+    const { listResources } = testApp.resourceProvider!.methods
+    expect(await listResources({ bbox: '[170,-10,-170,10]' })).to.have.keys([
+      'vector',
+      'second'
+    ])
+    expect(
+      Object.keys(
+        await listResources({ bbox: '[170,-10,-170,10]', limit: '1' })
+      )
+    ).to.have.length(1)
+    expect(
+      await listResources({ position: '[0,89]', distance: '1000' })
+    ).to.deep.equal({})
+
+    // Without a position, distance is measured from the vessel.
+    testApp.selfPosition = { latitude: 0, longitude: 0 }
+    expect(await listResources({ distance: '1000' })).to.have.keys([
+      'vector',
+      'second'
+    ])
+    testApp.selfPosition = undefined
+    let error: Error | undefined
+    await Promise.resolve()
+      .then(() => listResources({ distance: '1000' }))
+      .catch((err) => (error = err))
+    expect(error?.message).to.match(/vessel position/)
+  })
+
+  it('forwards a gzipped tile to a client that accepts gzip', async () => {
+    await plugin.start({ chartPaths: [chartDir] })
+    const res = await rawGet(testServer, '/signalk/chart-tiles/vector/1/0/0', {
+      'Accept-Encoding': 'gzip, deflate'
+    })
+    expect(res.status).to.equal(200)
+    expect(res.headers['content-type']).to.equal('application/x-protobuf')
+    expect(res.headers['content-encoding']).to.equal('gzip')
+    expect(res.headers['vary']).to.equal('Accept-Encoding')
+    expect(gunzipSync(res.body)).to.deep.equal(pbf)
+  })
+
+  it('GET tilejson.json describes the vector chart', async () => {
+    await plugin.start({ chartPaths: [chartDir] })
+    const res = await get(
+      testServer,
+      '/signalk/chart-tiles/vector/tilejson.json'
+    )
+    expect(res.status).to.equal(200)
+    const { port } = testServer.address() as { port: number }
+    expect(res.body).to.deep.include({
+      tilejson: '3.0.0',
+      name: 'Vector',
+      attribution: 'Test Office',
+      scheme: 'xyz',
+      format: 'pbf',
+      tiles: [
+        `http://localhost:${port}/signalk/chart-tiles/vector/{z}/{x}/{y}`
+      ],
+      minzoom: 1,
+      maxzoom: 1,
+      vector_layers: [{ id: 'depare', fields: { DRVAL1: 'Number' } }]
+    })
+    expect(res.body.center).to.have.length(3)
+  })
+
+  it('exposes vector_layers and tilestats on the v2 resource and metadata route', async () => {
+    await plugin.start({ chartPaths: [chartDir] })
+    const v2 = await testApp.resourceProvider!.methods.getResource('vector')
+    expect(v2).to.deep.include({
+      layers: ['depare'],
+      vectorLayers: [{ id: 'depare', fields: { DRVAL1: 'Number' } }],
+      tilestats
+    })
+    const v1 = await get(testServer, '/signalk/v1/api/resources/charts/vector')
+    expect(v1.body.chartLayers).to.deep.equal(['depare'])
+    expect(v1.body).to.not.have.property('vectorLayers')
+
+    const meta = await get(
+      testServer,
+      '/signalk/chart-tiles/vector/metadata.json'
+    )
+    expect(meta.body).to.deep.include({
+      identifier: 'vector',
+      format: 'pbf',
+      attribution: 'Test Office',
+      vector_layers: [{ id: 'depare', fields: { DRVAL1: 'Number' } }],
+      tilestats
+    })
+  })
+
+  it('serves a style.json placed next to the chart with local URLs', async () => {
+    fs.writeFileSync(
+      path.join(chartDir, 'vector.style.json'),
+      JSON.stringify({
+        version: 8,
+        sources: { chart: { type: 'vector', url: 'mbtiles://vector' } },
+        sprite: './sprites/sprite',
+        glyphs: 'fonts/{fontstack}/{range}.pbf',
+        layers: []
+      })
+    )
+    fs.mkdirSync(path.join(chartDir, 'sprites'))
+    fs.writeFileSync(path.join(chartDir, 'sprites', 'sprite.json'), '{}')
+    fs.mkdirSync(path.join(chartDir, 'fonts', 'Noto Sans Regular'), {
+      recursive: true
+    })
+    fs.writeFileSync(
+      path.join(chartDir, 'fonts', 'Noto Sans Regular', '0-255.pbf'),
+      'glyphs'
+    )
+    await plugin.start({ chartPaths: [chartDir] })
+    const { port } = testServer.address() as { port: number }
+    const chartUrl = `http://localhost:${port}/signalk/chart-tiles/vector`
+
+    const v2 = await testApp.resourceProvider!.methods.getResource('vector')
+    expect(v2.style).to.equal('/signalk/chart-tiles/vector/style.json')
+
+    const style = await get(
+      testServer,
+      '/signalk/chart-tiles/vector/style.json'
+    )
+    expect(style.body).to.deep.include({
+      sources: { chart: { type: 'vector', url: `${chartUrl}/tilejson.json` } },
+      sprite: `${chartUrl}/sprites/sprite`,
+      glyphs: `${chartUrl}/fonts/{fontstack}/{range}.pbf`
+    })
+
+    const sprite = await get(
+      testServer,
+      '/signalk/chart-tiles/vector/sprites/sprite.json'
+    )
+    expect(sprite.status).to.equal(200)
+    expect(sprite.headers['content-type']).to.match(/^application\/json/)
+
+    // The first font of the stack that exists is served.
+    const glyphs = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/vector/fonts/Missing%20Font,Noto%20Sans%20Regular/0-255.pbf'
+    )
+    expect(glyphs.status).to.equal(200)
+    expect(glyphs.headers['content-type']).to.equal('application/x-protobuf')
+    expect(glyphs.body.toString()).to.equal('glyphs')
+
+    const missing = await get(
+      testServer,
+      '/signalk/chart-tiles/vector/fonts/Missing%20Font/0-255.pbf'
+    ).catch((e) => e.response)
+    expect(missing.status).to.equal(404)
+  })
+
+  it('has no style without a style.json', async () => {
+    await plugin.start({ chartPaths: [chartDir] })
+    const v2 = await testApp.resourceProvider!.methods.getResource('vector')
+    expect(v2.style).to.equal(undefined)
+    const res = await get(
+      testServer,
+      '/signalk/chart-tiles/vector/style.json'
+    ).catch((e) => e.response)
+    expect(res.status).to.equal(404)
+  })
+
+  describe('raster rendering', () => {
+    const rasterPath = '/signalk/chart-tiles/vector/raster/1/0/0.png'
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        path.join(chartDir, 'style.json'),
+        JSON.stringify({ version: 8, sources: {}, layers: [] })
+      )
+    })
+    afterEach(() => setRendererModule(null))
+
+    it('is off unless enabled', async () => {
+      await plugin.start({ chartPaths: [chartDir] })
+      const res = await rawGet(testServer, rasterPath)
+      expect(res.status).to.equal(404)
+    })
+
+    it('answers 501 without MapLibre Native', async () => {
+      setRendererModule(null)
+      await plugin.start({ chartPaths: [chartDir], rasterTiles: true })
+      const res = await rawGet(testServer, rasterPath)
+      expect(res.status).to.equal(501)
+    })
+
+    it('serves rendered png tiles', async () => {
+      setRendererModule({
+        Map: class {
+          load() {}
+          render(
+            options: { width: number },
+            callback: (err: undefined, pixels: Uint8Array) => void
+          ) {
+            callback(undefined, new Uint8Array(options.width ** 2 * 4))
+          }
+          release() {}
+        }
+      })
+      await plugin.start({
+        chartPaths: [chartDir],
+        cachePath: path.join(chartDir, 'cache'),
+        rasterTiles: true
+      })
+      const res = await rawGet(testServer, rasterPath)
+      expect(res.status).to.equal(200)
+      expect(res.headers['content-type']).to.equal('image/png')
+      expect(res.headers['etag']).to.be.a('string')
+      expect(
+        fs.existsSync(
+          path.join(chartDir, 'cache', 'vector.raster', '1', '0', '0.png')
+        )
+      ).to.equal(true)
+    })
+  })
+
+  it('decompresses for a client without Accept-Encoding', async () => {
+    await plugin.start({ chartPaths: [chartDir] })
+    const res = await rawGet(testServer, '/signalk/chart-tiles/vector/1/0/0')
+    expect(res.status).to.equal(200)
+    expect(res.headers['content-type']).to.equal('application/x-protobuf')
+    expect(res.headers).to.not.have.property('content-encoding')
+    expect(res.body).to.deep.equal(pbf)
+  })
+})
+
+describe('composite charts', () => {
+  let plugin: PluginInstance
+  let testServer: http.Server
+  let chartDir: string
+  const detailTile = Buffer.from('detail 4/4/6')
+  const carolinas = {
+    name: 'US Coast',
+    charts: ['detail', 'missing', 'test']
+  }
+
+  beforeEach(() => {
+    fs.mkdirSync(TMP_BASE, { recursive: true })
+    chartDir = fs.mkdtempSync(path.join(TMP_BASE, 'composite-'))
+    fs.copyFileSync(
+      path.resolve(__dirname, 'charts/test.mbtiles'),
+      path.join(chartDir, 'test.mbtiles')
+    )
+    // A more detailed chart holding only 4/4/6.
+    const detail = path.join(chartDir, 'detail')
+    fs.mkdirSync(path.join(detail, '4', '4'), { recursive: true })
+    fs.copyFileSync(
+      path.resolve(__dirname, 'charts/unpacked-tiles/metadata.json'),
+      path.join(detail, 'metadata.json')
+    )
+    fs.writeFileSync(path.join(detail, '4', '4', '6.png'), detailTile)
+    return createDefaultApp().then(({ app, server }) => {
+      plugin = asPluginApp(app)
+      testServer = server
+    })
+  })
+  afterEach((done) => {
+    if (plugin && plugin.stop) plugin.stop()
+    testServer.close(() => {
+      fs.rmSync(chartDir, { recursive: true, force: true })
+      done()
+    })
+  })
+
+  it('lists the composite as one tile layer', async () => {
+    await plugin.start({
+      chartPaths: [chartDir],
+      compositeCharts: [carolinas]
+    })
+    const res = await get(
+      testServer,
+      '/signalk/v1/api/resources/charts/us-coast'
+    )
+    expect(res.body).to.deep.include({
+      identifier: 'us-coast',
+      name: 'US Coast',
+      type: 'tilelayer',
+      format: 'png',
+      minzoom: 3,
+      maxzoom: 5,
+      tilemapUrl: '/signalk/chart-tiles/us-coast/{z}/{x}/{y}'
+    })
+  })
+
+  it('serves each tile from the first chart that has it', async () => {
+    await plugin.start({
+      chartPaths: [chartDir],
+      compositeCharts: [carolinas]
+    })
+    const detail = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/us-coast/4/4/6'
+    )
+    expect(detail.status).to.equal(200)
+    expect(detail.body).to.deep.equal(detailTile)
+
+    // Missing from the detail chart: falls back to the MBTiles.
+    const fallback = await rawGet(
+      testServer,
+      '/signalk/chart-tiles/us-coast/4/5/6'
+    )
+    const direct = await rawGet(testServer, '/signalk/chart-tiles/test/4/5/6')
+    expect(fallback.status).to.equal(200)
+    expect(fallback.body).to.deep.equal(direct.body)
+    expect(fallback.headers['content-type']).to.equal('image/png')
+
+    const none = await rawGet(testServer, '/signalk/chart-tiles/us-coast/4/0/0')
+    expect(none.status).to.equal(404)
+  })
+
+  it('skips a composite without any loaded chart', async () => {
+    await plugin.start({
+      chartPaths: [chartDir],
+      compositeCharts: [{ name: 'Nothing', charts: ['missing'] }]
+    })
+    const res = await get(testServer, '/signalk/v1/api/resources/charts')
+    expect(res.body).to.not.have.property('nothing')
+  })
+})
+
 describe('chart folder watcher', function () {
   this.timeout(10000)
   let plugin: PluginInstance
@@ -474,6 +1274,176 @@ describe('chart folder watcher', function () {
   })
 })
 
+describe('POST /signalk/chart-tiles/upload', () => {
+  let plugin: PluginInstance
+  let testServer: http.Server
+  let tmpDir: string
+  const fixture = fs.readFileSync(
+    path.resolve(__dirname, 'charts/test.mbtiles')
+  )
+  const upload = (query: string, body: Buffer) =>
+    request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post(`/signalk/chart-tiles/upload${query}`)
+      .set('Content-Type', 'application/octet-stream')
+      .send(body)
+
+  beforeEach(() => {
+    fs.mkdirSync(TMP_BASE, { recursive: true })
+    return createDefaultApp().then(({ app, server }) => {
+      plugin = asPluginApp(app)
+      testServer = server
+      tmpDir = fs.mkdtempSync(path.join(TMP_BASE, 'upload-'))
+    })
+  })
+  afterEach((done) => {
+    if (plugin && plugin.stop) plugin.stop()
+    testServer.close(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+      fs.rmSync(path.join(TMP_BASE, `.${path.basename(tmpDir)}.uploads`), {
+        recursive: true,
+        force: true
+      })
+      done()
+    })
+  })
+
+  it('stores an MBTiles upload and serves it right away', async () => {
+    await plugin.start({ chartPaths: [tmpDir] })
+    const res = await upload('?filename=uploaded.mbtiles', fixture)
+    expect(res.status).to.equal(201)
+    expect(res.body).to.deep.equal({
+      identifier: 'uploaded',
+      chartPath: tmpDir
+    })
+    expect(fs.readdirSync(tmpDir)).to.deep.equal(['uploaded.mbtiles'])
+    const charts = await get(testServer, '/signalk/v1/api/resources/charts')
+    expect(charts.body).to.have.keys(['uploaded'])
+  })
+
+  it('refuses uploads it cannot place', async () => {
+    await plugin.start({ chartPaths: [tmpDir], uploadLimitMB: 0.01 })
+    expect(
+      (await upload('?filename=x.mbtiles&chartPath=/elsewhere', fixture)).status
+    ).to.equal(400)
+    expect((await upload('?filename=x.exe', fixture)).status).to.equal(400)
+    expect((await upload('?filename=x.mbtiles', fixture)).status).to.equal(413)
+    expect(fs.readdirSync(tmpDir)).to.deep.equal([])
+  })
+})
+
+describe('deleting and moving local charts', function () {
+  // Every change waits for the delayed MBTiles handle close.
+  this.timeout(10000)
+  let plugin: PluginInstance
+  let testServer: http.Server
+  let tmpDir: string
+  let otherDir: string
+  const api = () =>
+    request.execute(`http://localhost:${serverPort(testServer)}`)
+  const move = (identifier: string, body: object) =>
+    api().post(`/signalk/chart-tiles/charts/${identifier}/move`).send(body)
+  const chartIds = async () =>
+    Object.keys(
+      (await get(testServer, '/signalk/v1/api/resources/charts')).body
+    ).sort()
+
+  beforeEach(() => {
+    fs.mkdirSync(TMP_BASE, { recursive: true })
+    return createDefaultApp().then(({ app, server }) => {
+      plugin = asPluginApp(app)
+      testServer = server
+      tmpDir = fs.mkdtempSync(path.join(TMP_BASE, 'charts-'))
+      otherDir = fs.mkdtempSync(path.join(TMP_BASE, 'charts-'))
+      fs.copyFileSync(
+        path.resolve(__dirname, 'charts/test.mbtiles'),
+        path.join(tmpDir, 'test.mbtiles')
+      )
+    })
+  })
+  afterEach((done) => {
+    if (plugin && plugin.stop) plugin.stop()
+    testServer.close(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+      fs.rmSync(otherDir, { recursive: true, force: true })
+      done()
+    })
+  })
+
+  it('deletes a local chart and stops serving it', async () => {
+    await plugin.start({ chartPaths: [tmpDir] })
+    expect(await chartIds()).to.deep.equal(['test'])
+    const res = await api().delete('/signalk/chart-tiles/charts/test')
+    expect(res.status).to.equal(204)
+    expect(fs.readdirSync(tmpDir)).to.deep.equal([])
+    expect(await chartIds()).to.deep.equal([])
+  })
+
+  it('renames a chart and moves it to another chart path', async () => {
+    await plugin.start({ chartPaths: [tmpDir, otherDir] })
+    const renamed = await move('test', { identifier: 'renamed' })
+    expect(renamed.status).to.equal(200)
+    expect(renamed.body).to.deep.equal({
+      identifier: 'renamed',
+      chartPath: tmpDir
+    })
+    expect(fs.readdirSync(tmpDir)).to.deep.equal(['renamed.mbtiles'])
+    expect(await chartIds()).to.deep.equal(['renamed'])
+    const tile = await get(testServer, '/signalk/chart-tiles/renamed/4/5/6')
+    expect(tile.status).to.equal(200)
+
+    const moved = await move('renamed', { chartPath: otherDir })
+    expect(moved.status).to.equal(200)
+    expect(fs.readdirSync(tmpDir)).to.deep.equal([])
+    expect(fs.readdirSync(otherDir)).to.deep.equal(['renamed.mbtiles'])
+    expect(await chartIds()).to.deep.equal(['renamed'])
+  })
+
+  it('refuses changes it cannot make', async () => {
+    fs.copyFileSync(
+      path.resolve(__dirname, 'charts/test.mbtiles'),
+      path.join(tmpDir, 'taken.mbtiles')
+    )
+    await plugin.start({ chartPaths: [tmpDir] })
+    expect(
+      (await api().delete('/signalk/chart-tiles/charts/nope')).status
+    ).to.equal(404)
+    expect((await move('test', {})).status).to.equal(400)
+    expect((await move('test', { identifier: '../x' })).status).to.equal(400)
+    expect((await move('test', { chartPath: '/etc' })).status).to.equal(400)
+    expect((await move('test', { identifier: 'test' })).status).to.equal(400)
+    expect((await move('test', { identifier: 'taken' })).status).to.equal(409)
+    expect(fs.readdirSync(tmpDir).sort()).to.deep.equal([
+      'taken.mbtiles',
+      'test.mbtiles'
+    ])
+  })
+
+  it('leaves read-only chart paths alone', async () => {
+    fs.copyFileSync(
+      path.resolve(__dirname, 'charts/test.mbtiles'),
+      path.join(otherDir, 'other.mbtiles')
+    )
+    await plugin.start({
+      chartPaths: [tmpDir, otherDir],
+      readOnlyChartPaths: [tmpDir]
+    })
+    expect(
+      (await api().delete('/signalk/chart-tiles/charts/test')).status
+    ).to.equal(403)
+    expect((await move('test', { chartPath: otherDir })).status).to.equal(403)
+    expect((await move('other', { chartPath: tmpDir })).status).to.equal(403)
+    const upload = await api()
+      .post(
+        '/signalk/chart-tiles/upload?filename=x.mbtiles&chartPath=' + tmpDir
+      )
+      .set('Content-Type', 'application/octet-stream')
+      .send(fs.readFileSync(path.join(tmpDir, 'test.mbtiles')))
+    expect(upload.status).to.equal(403)
+    expect(fs.readdirSync(tmpDir)).to.deep.equal(['test.mbtiles'])
+  })
+})
+
 describe('tile cache HTTP endpoints', () => {
   let plugin: PluginInstance
   let testServer: http.Server
@@ -486,19 +1456,207 @@ describe('tile cache HTTP endpoints', () => {
     proxy: true
   }
 
-  beforeEach(() =>
-    createDefaultApp().then(({ app, server }) => {
+  // Each test gets its own cache path: job creation writes the seeding state
+  // file there, and the default cache path is the checked-in fixture dir.
+  let cacheDir: string
+  const startPlugin = () =>
+    plugin.start({ cachePath: cacheDir, onlineChartProviders: [proxyProvider] })
+
+  beforeEach(() => {
+    fs.mkdirSync(TMP_BASE, { recursive: true })
+    cacheDir = fs.mkdtempSync(path.join(TMP_BASE, 'cache-'))
+    return createDefaultApp().then(({ app, server }) => {
       plugin = asPluginApp(app)
       testServer = server
     })
-  )
+  })
   afterEach((done) => {
     if (plugin && plugin.stop) plugin.stop()
-    testServer.close(() => done())
+    testServer.close(() => {
+      ChartSeedingManager.whenSaved().then(() => {
+        fs.rmSync(cacheDir, { recursive: true, force: true })
+        done()
+      })
+    })
+  })
+
+  it('tracks the cache only when a quota is configured', async () => {
+    await startPlugin()
+    expect(ChartDownloader.cacheQuota).to.equal(undefined)
+    plugin.stop()
+
+    const tileFile = path.join(cacheDir, 'Proxy Test', '3', '0', '0.png')
+    fs.mkdirSync(path.dirname(tileFile), { recursive: true })
+    fs.writeFileSync(tileFile, Buffer.alloc(10))
+    await plugin.start({
+      cachePath: cacheDir,
+      onlineChartProviders: [{ ...proxyProvider, cacheQuotaMB: 1 }]
+    })
+    const quota = ChartDownloader.cacheQuota
+    expect(quota).to.not.equal(undefined)
+    // The initial scan runs in the background.
+    for (let i = 0; i < 100 && quota!.usage().tiles === 0; i++) {
+      await new Promise((r) => setTimeout(r, 10))
+    }
+    expect(quota!.usage('Proxy Test')).to.deep.equal({ tiles: 1, bytes: 10 })
+
+    plugin.stop()
+    expect(ChartDownloader.cacheQuota).to.equal(undefined)
+  })
+
+  it('GET /cache/stats reports usage of each proxied provider', async () => {
+    const tileFile = path.join(cacheDir, 'Proxy Test', '3', '4', '2.png')
+    fs.mkdirSync(path.dirname(tileFile), { recursive: true })
+    fs.writeFileSync(tileFile, Buffer.alloc(42))
+    await startPlugin()
+    const res = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .get('/signalk/chart-tiles/cache/stats')
+    expect(res.status).to.equal(200)
+    expect(res.body).to.include({ tiles: 1, bytes: 42 })
+    expect(Object.keys(res.body.providers)).to.deep.equal(['proxy-test'])
+    expect(res.body.providers['proxy-test'].zooms).to.have.keys(['3'])
+  })
+
+  it('serves proxied tiles from the SQLite cache backend', async () => {
+    await plugin.start({
+      cachePath: cacheDir,
+      cacheBackend: 'sqlite',
+      onlineChartProviders: [proxyProvider]
+    })
+    await tileCacheFor(cacheDir, { name: 'Proxy Test', format: 'png' }).put(
+      { z: 3, x: 4, y: 2 },
+      Buffer.from('cached')
+    )
+    const base = `http://localhost:${serverPort(testServer)}`
+    const tile = await request
+      .execute(base)
+      .get('/signalk/chart-tiles/proxy-test/3/4/2')
+      .buffer(true)
+    expect(tile.status).to.equal(200)
+    expect(Buffer.from(tile.body).toString()).to.equal('cached')
+    const stats = await request
+      .execute(base)
+      .get('/signalk/chart-tiles/cache/stats')
+    expect(stats.body).to.include({ tiles: 1, bytes: 6 })
+    expect(
+      fs.existsSync(path.join(cacheDir, 'Proxy Test.cache.sqlite'))
+    ).to.equal(true)
+    expect(fs.existsSync(path.join(cacheDir, 'Proxy Test'))).to.equal(false)
+  })
+
+  it('sends proxied tiles with an ETag and the provider max-age', async () => {
+    const tileFile = path.join(cacheDir, 'Proxy Test', '3', '4', '2.png')
+    fs.mkdirSync(path.dirname(tileFile), { recursive: true })
+    fs.writeFileSync(tileFile, 'cached')
+    await plugin.start({
+      cachePath: cacheDir,
+      onlineChartProviders: [{ ...proxyProvider, tileMaxAgeHours: 1 }]
+    })
+    const location = '/signalk/chart-tiles/proxy-test/3/4/2'
+    const first = await rawGet(testServer, location)
+    expect(first.headers['cache-control']).to.equal('public, max-age=3600')
+    const second = await rawGet(testServer, location, {
+      'If-None-Match': `"other", ${first.headers['etag']}`
+    })
+    expect(second.status).to.equal(304)
+  })
+
+  it('answers 503 with Retry-After while the provider is throttled', async () => {
+    await startPlugin()
+    rateLimiterFor({ identifier: 'proxy-test' }).throttled(30_000)
+    try {
+      const res = await rawGet(
+        testServer,
+        '/signalk/chart-tiles/proxy-test/3/4/2'
+      )
+      expect(res.status).to.equal(503)
+      expect(Number(res.headers['retry-after'])).to.be.within(29, 30)
+    } finally {
+      resetRateLimiters()
+    }
+  })
+
+  it('GET /cache/stats/:identifier returns 404 for an unknown provider', async () => {
+    await startPlugin()
+    const res = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .get('/signalk/chart-tiles/cache/stats/does-not-exist')
+      .catch((e) => e.response)
+    expect(res.status).to.equal(404)
+  })
+
+  it('GET /cache/stats/:identifier returns the provider stats', async () => {
+    await startPlugin()
+    const res = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .get('/signalk/chart-tiles/cache/stats/proxy-test')
+    expect(res.status).to.equal(200)
+    expect(res.body).to.include({
+      identifier: 'proxy-test',
+      tiles: 0,
+      bytes: 0,
+      bounds: null
+    })
+  })
+
+  it('POST /cache/:identifier/export packs cached tiles into a chart path', async () => {
+    const chartDir = path.join(cacheDir, 'charts')
+    fs.mkdirSync(chartDir)
+    const tileFile = path.join(cacheDir, 'Proxy Test', '3', '4', '2.png')
+    fs.mkdirSync(path.dirname(tileFile), { recursive: true })
+    fs.writeFileSync(tileFile, 'tile')
+    await plugin.start({
+      cachePath: cacheDir,
+      chartPaths: [chartDir],
+      onlineChartProviders: [proxyProvider]
+    })
+    const base = `http://localhost:${serverPort(testServer)}`
+    const res = await request
+      .execute(base)
+      .post('/signalk/chart-tiles/cache/proxy-test/export')
+      .send({ filename: 'passage', maxZoom: '5' })
+    expect(res.status).to.equal(202)
+    expect(res.body.file).to.equal(path.join(chartDir, 'passage.mbtiles'))
+
+    let status = res.body.status
+    for (let i = 0; i < 100 && status === 'running'; i++) {
+      await wait(10)
+      const list = await request
+        .execute(base)
+        .get('/signalk/chart-tiles/cache/exports')
+      status = list.body[0].status
+    }
+    expect(status).to.equal('completed')
+    expect(fs.existsSync(path.join(chartDir, 'passage.mbtiles'))).to.equal(true)
+
+    const again = await request
+      .execute(base)
+      .post('/signalk/chart-tiles/cache/proxy-test/export')
+      .send({ filename: 'passage.mbtiles' })
+      .catch((e) => e.response)
+    expect(again.status).to.equal(409)
+  })
+
+  it('POST /cache/:identifier/export rejects a bad filename or chart path', async () => {
+    await startPlugin()
+    const base = `http://localhost:${serverPort(testServer)}`
+    const badName = await request
+      .execute(base)
+      .post('/signalk/chart-tiles/cache/proxy-test/export')
+      .send({ filename: '../escape' })
+      .catch((e) => e.response)
+    expect(badName.status).to.equal(400)
+    const badPath = await request
+      .execute(base)
+      .post('/signalk/chart-tiles/cache/proxy-test/export')
+      .send({ chartPath: '/etc' })
+      .catch((e) => e.response)
+    expect(badPath.status).to.equal(400)
   })
 
   it('POST /cache/:identifier returns 404 when the provider is unknown', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/does-not-exist')
@@ -511,7 +1669,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/:identifier returns 400 when maxZoom is missing', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -524,7 +1682,7 @@ describe('tile cache HTTP endpoints', () => {
   // the most-specific rejection instead of a generic 500 from a downstream
   // NaN-in-tile-math failure.
   it('POST /cache/:identifier returns 400 for non-numeric maxZoom', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -537,7 +1695,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/:identifier returns 400 for maxZoom above 24', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -550,7 +1708,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/:identifier returns 400 for inverted bbox (minLat > maxLat)', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -563,7 +1721,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/:identifier returns 400 for out-of-range latitude', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -576,7 +1734,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/:identifier returns 400 for out-of-range longitude', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -589,7 +1747,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/:identifier returns 400 for non-finite bbox value', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -602,7 +1760,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/:identifier returns 400 when no region/bbox/tile is given', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -611,8 +1769,52 @@ describe('tile cache HTTP endpoints', () => {
     expect(res.status).to.equal(400)
   })
 
+  it('POST /cache/:identifier returns 400 for concurrency out of range', async () => {
+    await startPlugin()
+    const res = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post('/signalk/chart-tiles/cache/proxy-test')
+      .send({
+        maxZoom: '5',
+        bbox: { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 },
+        concurrency: '0'
+      })
+      .catch((e) => e.response)
+    expect(res.status).to.equal(400)
+    expect(res.text).to.match(/concurrency/)
+  })
+
+  it('POST /cache/:identifier returns 400 for a non-numeric timeoutMs', async () => {
+    await startPlugin()
+    const res = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post('/signalk/chart-tiles/cache/proxy-test')
+      .send({
+        maxZoom: '5',
+        bbox: { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 },
+        timeoutMs: 'soon'
+      })
+      .catch((e) => e.response)
+    expect(res.status).to.equal(400)
+    expect(res.text).to.match(/timeoutMs/)
+  })
+
+  it('POST /cache/:identifier accepts concurrency and timeoutMs overrides', async () => {
+    await startPlugin()
+    const res = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post('/signalk/chart-tiles/cache/proxy-test')
+      .send({
+        maxZoom: '5',
+        bbox: { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 },
+        concurrency: '4',
+        timeoutMs: '15000'
+      })
+    expect(res.status).to.equal(202)
+  })
+
   it('POST /cache/:identifier returns 202 with the fully-initialised job info', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -634,7 +1836,7 @@ describe('tile cache HTTP endpoints', () => {
     // at z=0 regardless of minzoom, so totalTiles would include the three
     // low-zoom tiles we'd never actually seed. With the fix in place we
     // should only see tiles from the provider's declared zoom range.
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const maxZoom = '5'
     const bbox = { minLon: 5, minLat: 5, maxLon: 6, maxLat: 6 }
     const withMinzoom = await request
@@ -649,7 +1851,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/jobs/:id returns 400 on a non-numeric job id', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/jobs/not-a-number')
@@ -659,7 +1861,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/jobs/:id returns 404 for an unknown job', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const res = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/jobs/99999')
@@ -669,7 +1871,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/jobs/:id returns 400 for a missing action', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const createRes = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -689,7 +1891,7 @@ describe('tile cache HTTP endpoints', () => {
   })
 
   it('POST /cache/jobs/:id returns 400 for an unknown action', async () => {
-    await plugin.start({ onlineChartProviders: [proxyProvider] })
+    await startPlugin()
     const createRes = await request
       .execute(`http://localhost:${serverPort(testServer)}`)
       .post('/signalk/chart-tiles/cache/proxy-test')
@@ -706,6 +1908,65 @@ describe('tile cache HTTP endpoints', () => {
       .catch((e) => e.response)
     expect(res.status).to.equal(400)
   })
+
+  it('POST /cache/jobs/:id returns 409 when pausing a job that is not running', async () => {
+    await startPlugin()
+    const createRes = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post('/signalk/chart-tiles/cache/proxy-test')
+      .send({
+        maxZoom: '4',
+        bbox: { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 }
+      })
+    const res = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post(`/signalk/chart-tiles/cache/jobs/${createRes.body.id}`)
+      .send({ action: 'pause' })
+      .catch((e) => e.response)
+    expect(res.status).to.equal(409)
+  })
+
+  it('restores seeding jobs with their id and area after a restart', async () => {
+    await startPlugin()
+    const createRes = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post('/signalk/chart-tiles/cache/proxy-test')
+      .send({
+        maxZoom: '4',
+        bbox: { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 }
+      })
+    expect(createRes.status).to.equal(202)
+
+    plugin.stop()
+    await startPlugin()
+    const res = await get(testServer, '/signalk/chart-tiles/cache/jobs')
+    expect(res.body).to.have.length(1)
+    expect(res.body[0]).to.include({
+      id: createRes.body.id,
+      regionName: createRes.body.regionName,
+      totalTiles: createRes.body.totalTiles
+    })
+  })
+
+  it('POST /cache/jobs/:id remove drops the job from the state file', async () => {
+    await startPlugin()
+    const createRes = await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post('/signalk/chart-tiles/cache/proxy-test')
+      .send({
+        maxZoom: '4',
+        bbox: { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 }
+      })
+    await request
+      .execute(`http://localhost:${serverPort(testServer)}`)
+      .post(`/signalk/chart-tiles/cache/jobs/${createRes.body.id}`)
+      .send({ action: 'remove' })
+
+    plugin.stop()
+    await startPlugin()
+    const res = await get(testServer, '/signalk/chart-tiles/cache/jobs')
+    expect(res.body).to.deep.equal([])
+  })
 })
 
 const expectTileResponse = (
@@ -727,11 +1988,35 @@ const expectTileResponse = (
 interface TestApp extends express.Express {
   debug: (...msg: unknown[]) => void
   error: (msg: string) => void
-  config: { configPath: string }
+  config: { configPath: string; version?: string }
   statusMessage: () => string
   setPluginStatus: (pluginId: string, status: string) => void
   setPluginError: (pluginId: string, status: string) => void
   lastPluginStatus?: string
+  // Captured v2 resource provider; the plugin registers one when
+  // config.version is 2.x.
+  registerResourceProvider: (provider: TestResourceProvider) => void
+  resourceProvider?: TestResourceProvider
+  // What getSelfPath('navigation.position') answers.
+  getSelfPath: (path: string) => unknown
+  selfPosition?: { latitude: number; longitude: number }
+  // Options written with savePluginOptions; saveError makes the save fail.
+  savePluginOptions: (
+    options: object,
+    cb: (err: NodeJS.ErrnoException | null) => void
+  ) => void
+  savedOptions?: { onlineChartProviders?: object[] }
+  saveError?: Error
+}
+
+interface TestResourceProvider {
+  type: string
+  methods: {
+    listResources: (params: object) => Promise<{ [id: string]: object }>
+    getResource: (id: string) => Promise<{ [key: string]: unknown }>
+    setResource: (id: string, value: object) => Promise<void>
+    deleteResource: (id: string) => Promise<void>
+  }
 }
 
 const createDefaultApp = (): Promise<{ app: TestApp; server: http.Server }> => {
@@ -747,6 +2032,17 @@ const createDefaultApp = (): Promise<{ app: TestApp; server: http.Server }> => {
     app.lastPluginStatus = status
   }) as unknown as TestApp['setPluginStatus']
   app.setPluginError = () => undefined
+  app.registerResourceProvider = (provider) => {
+    app.resourceProvider = provider
+  }
+  app.savePluginOptions = (options, cb) => {
+    if (!app.saveError) app.savedOptions = options
+    setImmediate(() => cb(app.saveError ?? null))
+  }
+  app.getSelfPath = (path) =>
+    path === 'navigation.position' && app.selfPosition
+      ? { value: app.selfPosition }
+      : undefined
 
   return new Promise((resolve) => {
     const server = http.createServer(app)
@@ -761,6 +2057,34 @@ const createDefaultApp = (): Promise<{ app: TestApp; server: http.Server }> => {
   })
 }
 
+// Plain http.get: superagent would decompress the body and hide the
+// Content-Encoding under test.
+const rawGet = (
+  server: http.Server,
+  location: string,
+  headers: http.OutgoingHttpHeaders = {}
+) =>
+  new Promise<{
+    status: number
+    headers: http.IncomingHttpHeaders
+    body: Buffer
+  }>((resolve, reject) => {
+    const { port } = server.address() as { port: number }
+    http
+      .get(`http://localhost:${port}${location}`, { headers }, (res) => {
+        const chunks: Buffer[] = []
+        res.on('data', (chunk: Buffer) => chunks.push(chunk))
+        res.on('end', () =>
+          resolve({
+            status: res.statusCode ?? 0,
+            headers: res.headers,
+            body: Buffer.concat(chunks)
+          })
+        )
+      })
+      .on('error', reject)
+  })
+
 const get = (server: http.Server, location: string) => {
   const address = server.address()
   if (!address || typeof address === 'string') {
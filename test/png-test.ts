@@ -0,0 +1,193 @@
+/**
+ * Unit tests for png.ts. Decoding is checked against the chart fixtures,
+ * which are palette PNGs written by a tile tool, and against images built
+ * here with each scanline filter.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import zlib from 'zlib'
+import { expect } from 'chai'
+import { cropAndScale, decodePng, encodePng, mosaicQuadrants } from '../src/png'
+
+// A PNG with the given header fields and already filtered scanlines.
+const buildPng = (
+  width: number,
+  height: number,
+  depth: number,
+  colourType: number,
+  raw: number[],
+  extra: { type: string; data: number[] }[] = []
+) => {
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+    const head = Buffer.alloc(4)
+    head.writeUInt32BE(data.length)
+    const crc = Buffer.alloc(4)
+    crc.writeUInt32BE(zlib.crc32(body))
+    return Buffer.concat([head, body, crc])
+  }
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = depth
+  header[9] = colourType
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    ...extra.map((c) => chunk(c.type, Buffer.from(c.data))),
+    chunk('IDAT', zlib.deflateSync(Buffer.from(raw))),
+    chunk('IEND', Buffer.alloc(0))
+  ])
+}
+
+describe('png: encodePng / decodePng', () => {
+  it('round-trips RGBA pixels', () => {
+    const pixels = new Uint8Array([255, 0, 0, 255, 64, 32, 0, 128])
+    expect(decodePng(encodePng({ width: 2, height: 1, pixels }))).to.deep.equal(
+      { width: 2, height: 1, pixels }
+    )
+  })
+
+  it('decodes the palette PNGs of the chart fixtures', () => {
+    const image = decodePng(
+      fs.readFileSync(
+        path.resolve(__dirname, 'charts/unpacked-tiles/4/4/6.png')
+      )
+    )
+    expect(image).to.include({ width: 256, height: 256 })
+    expect(image!.pixels).to.have.length(256 * 256 * 4)
+  })
+
+  it('undoes each scanline filter', () => {
+    // Grey 2x1 lines of 10, 20: filter 1 (sub) stores 10, 10; filter 2 (up)
+    // stores the difference to the line above; 3 (average) and 4 (Paeth)
+    // predict from the left and above.
+    const png = buildPng(2, 4, 8, 0, [
+      ...[1, 10, 10],
+      ...[2, 0, 0],
+      ...[3, 5, 5],
+      ...[4, 0, 0]
+    ])
+    expect([...decodePng(png)!.pixels]).to.deep.equal(
+      Array(4).fill([10, 10, 10, 255, 20, 20, 20, 255]).flat()
+    )
+  })
+
+  it('reads low bit depths and palette transparency', () => {
+    // 1-bit palette: index 0 transparent red, index 1 opaque blue.
+    const png = buildPng(
+      3,
+      1,
+      1,
+      3,
+      [0, 0b01000000],
+      [
+        { type: 'PLTE', data: [255, 0, 0, 0, 0, 255] },
+        { type: 'tRNS', data: [0] }
+      ]
+    )
+    expect([...decodePng(png)!.pixels]).to.deep.equal([
+      255, 0, 0, 0, 0, 0, 255, 255, 255, 0, 0, 0
+    ])
+  })
+
+  it('turns the tRNS colour of an RGB image transparent', () => {
+    const png = buildPng(
+      2,
+      1,
+      8,
+      2,
+      [0, 1, 2, 3, 4, 5, 6],
+      [{ type: 'tRNS', data: [0, 4, 0, 5, 0, 6] }]
+    )
+    expect([...decodePng(png)!.pixels]).to.deep.equal([
+      1, 2, 3, 255, 4, 5, 6, 0
+    ])
+  })
+
+  it('returns undefined for data that is not a PNG', () => {
+    expect(decodePng(Buffer.from('not a png'))).to.equal(undefined)
+    expect(decodePng(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).to.equal(undefined)
+  })
+})
+
+describe('png: cropAndScale', () => {
+  // 4x4 image whose pixel (x, y) has red x and green y.
+  const image = {
+    width: 4,
+    height: 4,
+    pixels: new Uint8Array(
+      Array.from({ length: 16 }, (_, i) => [
+        i % 4,
+        Math.floor(i / 4),
+        0,
+        255
+      ]).flat()
+    )
+  }
+  const pixelAt = (pixels: Uint8Array, x: number, y: number) => [
+    ...pixels.subarray((y * 4 + x) * 4, (y * 4 + x) * 4 + 2)
+  ]
+
+  it('doubles the quarter of a child tile', () => {
+    const { width, height, pixels } = cropAndScale(image, 1, 1, 0)
+    expect({ width, height }).to.deep.equal({ width: 4, height: 4 })
+    expect(pixelAt(pixels, 0, 0)).to.deep.equal([2, 0])
+    expect(pixelAt(pixels, 1, 1)).to.deep.equal([2, 0])
+    expect(pixelAt(pixels, 3, 3)).to.deep.equal([3, 1])
+  })
+
+  it('fills the tile from one pixel two levels down', () => {
+    const { pixels } = cropAndScale(image, 2, 3, 2)
+    for (let i = 0; i < 16; i++) {
+      expect(pixelAt(pixels, i % 4, Math.floor(i / 4))).to.deep.equal([3, 2])
+    }
+  })
+})
+
+describe('png: mosaicQuadrants', () => {
+  const solid = (rgba: number[]) => ({
+    width: 2,
+    height: 2,
+    pixels: new Uint8Array(Array(4).fill(rgba).flat())
+  })
+
+  it('halves each child into its quadrant', () => {
+    const image = mosaicQuadrants([
+      solid([255, 0, 0, 255]),
+      undefined,
+      undefined,
+      solid([0, 0, 255, 255])
+    ])!
+    expect(image).to.include({ width: 2, height: 2 })
+    expect([...image.pixels]).to.deep.equal([
+      ...[255, 0, 0, 255],
+      ...[0, 0, 0, 0],
+      ...[0, 0, 0, 0],
+      ...[0, 0, 255, 255]
+    ])
+  })
+
+  it('weights colours by alpha', () => {
+    // Half red, half transparent black: red at half opacity, not dark red.
+    const child = {
+      width: 2,
+      height: 2,
+      pixels: new Uint8Array([
+        ...[255, 0, 0, 255],
+        ...[0, 0, 0, 0],
+        ...[255, 0, 0, 255],
+        ...[0, 0, 0, 0]
+      ])
+    }
+    const image = mosaicQuadrants([child, undefined, undefined, undefined])!
+    expect([...image.pixels.subarray(0, 4)]).to.deep.equal([255, 0, 0, 128])
+  })
+
+  it('returns undefined without children', () => {
+    expect(
+      mosaicQuadrants([undefined, undefined, undefined, undefined])
+    ).to.equal(undefined)
+  })
+})
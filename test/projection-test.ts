@@ -4,7 +4,9 @@ import {
   WEB_MERCATOR_MAX_LAT,
   tileToBBox,
   lonLatToMercator,
-  lonLatToTile
+  lonLatToTile,
+  tileCenter,
+  tileTouchesBounds
 } from '../src/projection'
 
 const approx = (actual: number, expected: number, tolerance = 1e-6) => {
@@ -76,6 +78,22 @@ describe('projection: tileToBBox', () => {
   })
 })
 
+describe('projection: tileCenter', () => {
+  it('is the middle of the world tile', () => {
+    const [lon, lat] = tileCenter(0, 0, 0)
+    approx(lon, 0)
+    approx(lat, 0)
+  })
+
+  it('lies in projected rather than geographic middle of the tile', () => {
+    const [lon, lat] = tileCenter(0, 0, 1)
+    approx(lon, -90)
+    // The tile spans 0..85.05 degrees of latitude; its middle in Mercator
+    // y is well north of 42.5.
+    approx(lat, 66.51326044311186)
+  })
+})
+
 describe('projection: lonLatToMercator', () => {
   it('maps the origin to (0, 0)', () => {
     const [x, y] = lonLatToMercator(0, 0)
@@ -152,3 +170,21 @@ describe('projection: lonLatToTile', () => {
     expect(y).to.equal(0)
   })
 })
+
+describe('projection: tileTouchesBounds', () => {
+  it('matches tiles overlapping the bounds', () => {
+    const bounds = [-82.27, 31.95, -61.88, 36.6]
+    expect(tileTouchesBounds(4, 6, 4, bounds)).to.equal(true)
+    expect(tileTouchesBounds(0, 0, 4, bounds)).to.equal(false)
+  })
+
+  it('accepts swapped latitudes', () => {
+    expect(tileTouchesBounds(4, 6, 4, [-82.27, 36.6, -61.88, 31.95])).to.equal(
+      true
+    )
+  })
+
+  it('takes antimeridian bounds to cover every tile', () => {
+    expect(tileTouchesBounds(0, 0, 4, [170, -10, -170, 10])).to.equal(true)
+  })
+})
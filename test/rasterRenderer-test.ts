@@ -0,0 +1,264 @@
+/**
+ * Unit tests for rasterRenderer.ts. MapLibre Native isn't installed in the
+ * test environment, so rendering runs against a fake renderer module that
+ * records what it was asked for. The HTTP route is covered in
+ * plugin-test.ts.
+ */
+
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import zlib from 'zlib'
+import { expect } from 'chai'
+import {
+  RendererMap,
+  RendererModule,
+  chartResource,
+  downsampleRgba,
+  loadRasterTile,
+  releaseRasterRenderers,
+  releaseStaleRasterRenderers,
+  setRendererModule,
+  unpremultiply
+} from '../src/rasterRenderer'
+import { decodePng } from '../src/png'
+import { ChartProvider } from '../src/types'
+
+describe('rasterRenderer: unpremultiply', () => {
+  it('divides colour by alpha and keeps transparent pixels', () => {
+    const pixels = new Uint8Array([255, 0, 0, 255, 64, 32, 0, 128, 0, 0, 0, 0])
+    expect([...unpremultiply(pixels)]).to.deep.equal([
+      255, 0, 0, 255, 128, 64, 0, 128, 0, 0, 0, 0
+    ])
+  })
+})
+
+describe('rasterRenderer: downsampleRgba', () => {
+  it('averages each 2x2 block', () => {
+    const pixels = new Uint8Array(2 * 2 * 4)
+    pixels.set([0, 0, 0, 0, 100, 100, 100, 100], 0)
+    pixels.set([200, 200, 200, 200, 100, 100, 100, 100], 8)
+    expect([...downsampleRgba(pixels, 2)]).to.deep.equal([100, 100, 100, 100])
+  })
+})
+
+describe('rasterRenderer: chartResource', () => {
+  let dir: string
+  let provider: ChartProvider
+  const pbf = Buffer.from([0x1a, 0x00])
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raster-'))
+    fs.mkdirSync(path.join(dir, '1', '0'), { recursive: true })
+    fs.writeFileSync(path.join(dir, '1', '0', '0.pbf'), zlib.gzipSync(pbf))
+    fs.mkdirSync(path.join(dir, 'fonts', 'Noto Sans'), { recursive: true })
+    fs.writeFileSync(path.join(dir, 'fonts', 'Noto Sans', '0-255.pbf'), 'g')
+    provider = {
+      identifier: 'harbour',
+      name: 'Harbour',
+      format: 'pbf',
+      minzoom: 1,
+      maxzoom: 1,
+      _fileFormat: 'directory',
+      _filePath: dir,
+      _styleAssetsDir: dir
+    } as ChartProvider
+  })
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('answers with decompressed tiles of the chart', async () => {
+    expect(await chartResource(provider, 'chart://harbour/1/0/0')).to.eql(pbf)
+    expect(await chartResource(provider, 'chart://harbour/1/1/0')).to.equal(
+      undefined
+    )
+  })
+
+  it('answers with a TileJSON pointing at chart:// tiles', async () => {
+    const data = await chartResource(provider, 'chart://harbour/tilejson.json')
+    expect(JSON.parse(data!.toString())).to.deep.include({
+      tiles: ['chart://harbour/{z}/{x}/{y}'],
+      minzoom: 1,
+      maxzoom: 1
+    })
+  })
+
+  it('answers with glyphs by URL-encoded font stack', async () => {
+    const data = await chartResource(
+      provider,
+      'chart://harbour/fonts/Missing,Noto%20Sans/0-255.pbf'
+    )
+    expect(data?.toString()).to.equal('g')
+  })
+
+  it('refuses URLs it cannot resolve', async () => {
+    let error: Error | undefined
+    await chartResource(provider, 'file:///etc/passwd').catch(
+      (err) => (error = err)
+    )
+    expect(error?.message).to.match(/Unsupported/)
+  })
+
+  it('gives up on a remote resource that does not answer', async () => {
+    const server = http.createServer(() => {})
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    const { port } = server.address() as { port: number }
+    let error: Error | undefined
+    try {
+      await chartResource(
+        provider,
+        `http://localhost:${port}/sprite.png`,
+        100
+      ).catch((err) => (error = err))
+    } finally {
+      server.closeAllConnections()
+      server.close()
+    }
+    expect(error?.name).to.equal('TimeoutError')
+  })
+})
+
+describe('rasterRenderer: loadRasterTile', () => {
+  let dir: string
+  let cacheDir: string
+  let provider: ChartProvider
+  let renders: { zoom: number; width: number; center: number[] }[]
+  let loaded: object[]
+  let released: number
+  // Makes the renderer answer without pixels.
+  let blank: boolean
+
+  // Paints every pixel opaque grey.
+  const fakeModule: RendererModule = {
+    Map: class implements RendererMap {
+      load(style: object) {
+        loaded.push(style)
+      }
+      render(
+        options: { zoom: number; width: number; center: [number, number] },
+        callback: (err: Error | undefined, pixels?: Uint8Array) => void
+      ) {
+        renders.push(options)
+        const pixels = new Uint8Array(options.width * options.width * 4)
+        pixels.fill(128)
+        for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255
+        setImmediate(() => callback(undefined, blank ? undefined : pixels))
+      }
+      release() {
+        released++
+      }
+    }
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raster-'))
+    cacheDir = path.join(dir, 'cache')
+    fs.writeFileSync(
+      path.join(dir, 'style.json'),
+      JSON.stringify({
+        version: 8,
+        sources: { chart: { type: 'vector', url: 'mbtiles://harbour' } },
+        layers: []
+      })
+    )
+    provider = {
+      identifier: 'harbour',
+      name: 'Harbour',
+      format: 'pbf',
+      _fileFormat: 'directory',
+      _filePath: dir,
+      _stylePath: path.join(dir, 'style.json'),
+      _styleAssetsDir: dir
+    } as ChartProvider
+    renders = []
+    loaded = []
+    released = 0
+    blank = false
+    setRendererModule(fakeModule)
+  })
+  afterEach(() => {
+    releaseRasterRenderers()
+    setRendererModule(null)
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('renders a 256 px tile one MapLibre zoom level up', async () => {
+    const png = await loadRasterTile(cacheDir, provider, { z: 3, x: 4, y: 2 })
+    expect(decodePng(png)).to.include({ width: 256, height: 256 })
+    expect(renders).to.have.length(1)
+    expect(renders[0]).to.include({ zoom: 2, width: 256 })
+    expect(renders[0]!.center[0]).to.equal(22.5)
+    expect(loaded[0]).to.deep.include({
+      sources: {
+        chart: { type: 'vector', url: 'chart://harbour/tilejson.json' }
+      }
+    })
+  })
+
+  it('renders the world tile at 512 px and halves it', async () => {
+    const png = await loadRasterTile(cacheDir, provider, { z: 0, x: 0, y: 0 })
+    expect(decodePng(png)).to.include({ width: 256, height: 256 })
+    expect(renders[0]).to.include({ zoom: 0, width: 512 })
+  })
+
+  it('serves a cached tile until the style changes', async () => {
+    const tile = { z: 2, x: 1, y: 1 }
+    const first = await loadRasterTile(cacheDir, provider, tile)
+    expect(await loadRasterTile(cacheDir, provider, tile)).to.eql(first)
+    expect(renders).to.have.length(1)
+    expect(loaded).to.have.length(1)
+
+    const later = new Date(Date.now() + 60_000)
+    fs.utimesSync(provider._stylePath!, later, later)
+    await loadRasterTile(cacheDir, provider, tile)
+    expect(renders).to.have.length(2)
+  })
+
+  it('loads a new map for a reloaded chart and releases the old one', async () => {
+    await loadRasterTile(cacheDir, provider, { z: 2, x: 1, y: 1 })
+    const reloaded = { ...provider }
+    await loadRasterTile(cacheDir, reloaded, { z: 2, x: 2, y: 1 })
+    expect(loaded).to.have.length(2)
+    expect(released).to.equal(1)
+  })
+
+  it('loads one map for concurrent first requests', async () => {
+    await Promise.all([
+      loadRasterTile(cacheDir, provider, { z: 2, x: 1, y: 1 }),
+      loadRasterTile(cacheDir, provider, { z: 2, x: 2, y: 1 })
+    ])
+    expect(loaded).to.have.length(1)
+    expect(renders).to.have.length(2)
+  })
+
+  it('releases the maps of charts a reload dropped', async () => {
+    await loadRasterTile(cacheDir, provider, { z: 2, x: 1, y: 1 })
+    releaseStaleRasterRenderers({ harbour: provider })
+    await new Promise((r) => setImmediate(r))
+    expect(released).to.equal(0)
+    releaseStaleRasterRenderers({})
+    await new Promise((r) => setImmediate(r))
+    expect(released).to.equal(1)
+  })
+
+  it('fails with an error when the renderer returns no pixels', async () => {
+    blank = true
+    let error: Error | undefined
+    await loadRasterTile(cacheDir, provider, { z: 1, x: 0, y: 0 }).catch(
+      (err) => (error = err)
+    )
+    expect(error).to.be.instanceOf(Error)
+    expect(error?.message).to.match(/no pixels/)
+  })
+
+  it('fails when no renderer is installed', async () => {
+    setRendererModule(null)
+    let error: Error | undefined
+    await loadRasterTile(cacheDir, provider, { z: 1, x: 0, y: 0 }).catch(
+      (err) => (error = err)
+    )
+    expect(error?.message).to.match(/not installed/)
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for rateLimiter.ts. The limiter takes an injectable clock, so
+ * slot reservation and throttle windows are checked against a fake `now`
+ * without sleeping. The fetch-level behaviour (429 handling, fail-fast while
+ * blocked) is covered in chartDownloader-test.ts.
+ */
+
+import { expect } from 'chai'
+import {
+  RateLimiter,
+  parseRetryAfter,
+  rateLimiterFor,
+  resetRateLimiters
+} from '../src/rateLimiter'
+
+const fakeClock = (start = 1_000_000) => {
+  const clock = { t: start, now: () => clock.t }
+  return clock
+}
+
+describe('rateLimiter: RateLimiter.reserve', () => {
+  it('lets requests through immediately without a ceiling', () => {
+    const limiter = new RateLimiter(undefined, fakeClock().now)
+    expect(limiter.reserve()).to.equal(0)
+    expect(limiter.reserve()).to.equal(0)
+  })
+
+  it('spaces requests evenly under a requests-per-second ceiling', () => {
+    const limiter = new RateLimiter(4, fakeClock().now)
+    expect(limiter.reserve()).to.equal(0)
+    expect(limiter.reserve()).to.equal(250)
+    expect(limiter.reserve()).to.equal(500)
+  })
+
+  it('frees slots as time passes', () => {
+    const clock = fakeClock()
+    const limiter = new RateLimiter(2, clock.now)
+    limiter.reserve()
+    clock.t += 1000
+    expect(limiter.reserve()).to.equal(0)
+  })
+
+  it('refuses without reserving when the wait exceeds maxWaitMs', () => {
+    const limiter = new RateLimiter(1, fakeClock().now)
+    limiter.reserve()
+    expect(limiter.reserve(500)).to.equal(undefined)
+    // The refused call must not have pushed the next slot further out.
+    expect(limiter.reserve()).to.equal(1000)
+  })
+})
+
+describe('rateLimiter: RateLimiter.throttled', () => {
+  it('blocks for the Retry-After delay when the server sends one', () => {
+    const limiter = new RateLimiter(undefined, fakeClock().now)
+    limiter.throttled(30_000)
+    expect(limiter.blockedForMs()).to.equal(30_000)
+    expect(limiter.reserve(5000)).to.equal(undefined)
+  })
+
+  it('doubles its own penalty on consecutive throttles without Retry-After', () => {
+    const clock = fakeClock()
+    const limiter = new RateLimiter(undefined, clock.now)
+    limiter.throttled()
+    expect(limiter.blockedForMs()).to.equal(1000)
+    clock.t += 1000
+    limiter.throttled()
+    expect(limiter.blockedForMs()).to.equal(2000)
+  })
+
+  it('resets the penalty after a success', () => {
+    const clock = fakeClock()
+    const limiter = new RateLimiter(undefined, clock.now)
+    limiter.throttled()
+    clock.t += 1000
+    limiter.succeeded()
+    limiter.throttled()
+    expect(limiter.blockedForMs()).to.equal(1000)
+  })
+})
+
+describe('rateLimiter: parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('120')).to.equal(120_000)
+  })
+
+  it('parses an HTTP-date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT')
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).to.equal(
+      30_000
+    )
+  })
+
+  it('returns undefined for a missing or malformed header', () => {
+    expect(parseRetryAfter(null)).to.equal(undefined)
+    expect(parseRetryAfter('soon')).to.equal(undefined)
+  })
+})
+
+describe('rateLimiter: rateLimiterFor', () => {
+  afterEach(() => resetRateLimiters())
+
+  it('shares one limiter per provider identifier', () => {
+    const a = rateLimiterFor({ identifier: 'osm' })
+    expect(rateLimiterFor({ identifier: 'osm' })).to.equal(a)
+    expect(rateLimiterFor({ identifier: 'noaa' })).to.not.equal(a)
+  })
+
+  it('applies the latest configured ceiling', () => {
+    rateLimiterFor({ identifier: 'osm', _maxRequestsPerSecond: 2 })
+    const limiter = rateLimiterFor({
+      identifier: 'osm',
+      _maxRequestsPerSecond: 5
+    })
+    expect(limiter.maxRequestsPerSecond).to.equal(5)
+  })
+})
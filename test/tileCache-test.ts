@@ -0,0 +1,254 @@
+/**
+ * Unit tests for tileCache.ts. Both backends run the same storage contract
+ * against a temp dir; the SQLite-specific tests cover write batching and
+ * the on-disk layout.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import {
+  CachedTileInfo,
+  FileTileCache,
+  SqliteTileCache,
+  TileCacheStorage,
+  closeTileCaches,
+  setCacheBackend,
+  sqliteCachePath,
+  tileCacheFor,
+  tileMetaPath
+} from '../src/tileCache'
+import { Sqlite, loadSqlite } from '../src/sqlite'
+
+const provider = { name: 'Cache', format: 'png' }
+
+const listAll = async (storage: TileCacheStorage) => {
+  const found: CachedTileInfo[] = []
+  await storage.list((info) => found.push(info))
+  return found.sort((a, b) => a.tile.y - b.tile.y)
+}
+
+const backends: {
+  name: string
+  open: (cacheDir: string, now: () => number) => Promise<TileCacheStorage>
+}[] = [
+  {
+    name: 'files',
+    open: async (cacheDir) => new FileTileCache(cacheDir, provider)
+  },
+  {
+    name: 'sqlite',
+    open: async (cacheDir, now) =>
+      new SqliteTileCache(
+        await loadSqlite(),
+        sqliteCachePath(cacheDir, 'Cache'),
+        provider,
+        now
+      )
+  }
+]
+
+for (const backend of backends) {
+  describe(`tileCache: ${backend.name} storage`, () => {
+    let cacheDir: string
+    let clock: number
+    let storage: TileCacheStorage
+    const tile = { z: 3, x: 2, y: 1 }
+
+    beforeEach(async () => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tilecache-'))
+      clock = Date.now()
+      storage = await backend.open(cacheDir, () => clock)
+    })
+    afterEach(async () => {
+      await storage.close()
+      fs.rmSync(cacheDir, { recursive: true, force: true })
+    })
+
+    it('misses an uncached tile', async () => {
+      expect(await storage.get(tile)).to.equal(undefined)
+      expect(await storage.stat(tile)).to.equal(undefined)
+      expect(await storage.validators(tile)).to.equal(undefined)
+      expect(await storage.delete(tile)).to.equal(false)
+    })
+
+    it('returns a stored tile with its validators', async () => {
+      await storage.put(tile, Buffer.from('tile'), { etag: '"v1"' })
+      const cached = await storage.get(tile)
+      expect(cached?.data.toString()).to.equal('tile')
+      expect(cached?.fetchedAt).to.be.closeTo(clock, 1000)
+      expect(await storage.validators(tile)).to.deep.equal({ etag: '"v1"' })
+    })
+
+    it('drops old validators when a tile is stored without any', async () => {
+      await storage.put(tile, Buffer.from('v1'), { etag: '"v1"' })
+      await storage.put(tile, Buffer.from('v2'))
+      expect(await storage.validators(tile)).to.equal(undefined)
+      expect((await storage.get(tile))?.data.toString()).to.equal('v2')
+    })
+
+    it('touch moves the fetch time', async () => {
+      await storage.put(tile, Buffer.from('tile'))
+      const at = Date.parse('2030-01-01T00:00:00Z')
+      await storage.touch(tile, at)
+      expect(await storage.stat(tile)).to.deep.equal({ fetchedAt: at })
+    })
+
+    it('markAccessed keeps the fetch time', async () => {
+      await storage.put(tile, Buffer.from('tile'))
+      const fetchedAt = (await storage.stat(tile))!.fetchedAt
+      const at = Date.parse('2030-01-01T00:00:00Z')
+      await storage.markAccessed(tile, at, fetchedAt)
+      const [info] = await listAll(storage)
+      expect(info?.lastAccess).to.equal(at)
+      // File times round-trip through whole milliseconds.
+      expect(info?.fetchedAt).to.be.closeTo(fetchedAt, 1)
+    })
+
+    it('lists every tile with its size', async () => {
+      await storage.put({ z: 3, x: 2, y: 1 }, Buffer.alloc(10))
+      await storage.put({ z: 3, x: 2, y: 5 }, Buffer.alloc(20))
+      const found = await listAll(storage)
+      expect(found.map(({ tile, size }) => ({ tile, size }))).to.deep.equal([
+        { tile: { z: 3, x: 2, y: 1 }, size: 10 },
+        { tile: { z: 3, x: 2, y: 5 }, size: 20 }
+      ])
+    })
+
+    it('deletes a tile', async () => {
+      await storage.put(tile, Buffer.from('tile'), { etag: '"v1"' })
+      expect(await storage.delete(tile)).to.equal(true)
+      expect(await storage.get(tile)).to.equal(undefined)
+      expect(await storage.validators(tile)).to.equal(undefined)
+      expect(await listAll(storage)).to.deep.equal([])
+    })
+  })
+}
+
+describe('tileCache: files layout', () => {
+  let cacheDir: string
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tilecache-'))
+  })
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('keeps tiles at z/x/y with a validator sidecar', async () => {
+    const storage = new FileTileCache(cacheDir, provider)
+    await storage.put({ z: 3, x: 2, y: 1 }, Buffer.from('tile'), {
+      etag: '"v1"'
+    })
+    const tilePath = path.join(cacheDir, 'Cache', '3', '2', '1.png')
+    expect(fs.readFileSync(tilePath, 'utf8')).to.equal('tile')
+    expect(JSON.parse(fs.readFileSync(tileMetaPath(tilePath), 'utf8'))).to.eql({
+      etag: '"v1"'
+    })
+  })
+})
+
+describe('tileCache: sqlite layout and batching', () => {
+  let sqlite: Sqlite
+  let cacheDir: string
+  let file: string
+
+  before(async () => {
+    sqlite = await loadSqlite()
+  })
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tilecache-'))
+    file = sqliteCachePath(cacheDir, 'Cache')
+  })
+  afterEach(async () => {
+    await closeTileCaches()
+    await setCacheBackend('files')
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  const countRows = () => {
+    const db = new sqlite.DatabaseSync(file, { readOnly: true })
+    try {
+      return (
+        db.prepare('SELECT count(*) AS n FROM tiles').get() as { n: number }
+      ).n
+    } finally {
+      db.close()
+    }
+  }
+
+  it('serves queued writes before they are flushed', async () => {
+    const storage = new SqliteTileCache(sqlite, file, provider)
+    await storage.put({ z: 1, x: 0, y: 0 }, Buffer.from('tile'))
+    expect(countRows()).to.equal(0)
+    expect((await storage.get({ z: 1, x: 0, y: 0 }))?.data.toString()).to.equal(
+      'tile'
+    )
+    storage.flush()
+    expect(countRows()).to.equal(1)
+    await storage.close()
+  })
+
+  it('commits a full batch at once', async () => {
+    const storage = new SqliteTileCache(sqlite, file, provider)
+    for (let x = 0; x < 200; x++) {
+      await storage.put({ z: 8, x, y: 0 }, Buffer.from('tile'))
+    }
+    expect(countRows()).to.equal(200)
+    await storage.close()
+  })
+
+  it('stores rows in MBTiles (TMS) order and keeps them across reopen', async () => {
+    let storage = new SqliteTileCache(sqlite, file, provider)
+    await storage.put({ z: 2, x: 1, y: 0 }, Buffer.from('north'))
+    await storage.close()
+
+    const db = new sqlite.DatabaseSync(file, { readOnly: true })
+    const row = db
+      .prepare('SELECT tile_column, tile_row FROM tiles WHERE zoom_level = 2')
+      .get()
+    db.close()
+    expect(row).to.deep.equal({ tile_column: 1, tile_row: 3 })
+
+    storage = new SqliteTileCache(sqlite, file, provider)
+    expect((await storage.get({ z: 2, x: 1, y: 0 }))?.data.toString()).to.equal(
+      'north'
+    )
+    await storage.close()
+  })
+
+  it('lists the same tiles in overlapping listings', async () => {
+    const storage = new SqliteTileCache(sqlite, file, provider)
+    for (let x = 0; x < 3000; x++) {
+      await storage.put({ z: 12, x, y: 0 }, Buffer.from('tile'))
+    }
+    const count = async () => {
+      let n = 0
+      await storage.list(() => n++)
+      return n
+    }
+    expect(await Promise.all([count(), count()])).to.deep.equal([3000, 3000])
+    await storage.close()
+  })
+
+  it('refuses writes after close', async () => {
+    const storage = new SqliteTileCache(sqlite, file, provider)
+    await storage.close()
+    let error: Error | undefined
+    await storage
+      .put({ z: 1, x: 0, y: 0 }, Buffer.from('tile'))
+      .catch((err) => (error = err))
+    expect(error?.message).to.match(/closed/)
+  })
+
+  it('tileCacheFor opens the configured backend once per provider', async () => {
+    await setCacheBackend('sqlite')
+    const storage = tileCacheFor(cacheDir, provider)
+    expect(storage).to.be.instanceOf(SqliteTileCache)
+    expect(tileCacheFor(cacheDir, provider)).to.equal(storage)
+    await closeTileCaches()
+    expect(fs.existsSync(file)).to.equal(true)
+    expect(tileCacheFor(cacheDir, provider)).to.not.equal(storage)
+  })
+})
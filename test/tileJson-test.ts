@@ -0,0 +1,108 @@
+/**
+ * Unit tests for tileJson.ts. The HTTP route is covered in plugin-test.ts.
+ */
+
+import { expect } from 'chai'
+import { buildTileJson, defaultCenter, tileUrlTemplate } from '../src/tileJson'
+import { ChartProvider } from '../src/types'
+
+const BASE = 'http://boat.local:3000'
+const TILES_PATH = '/signalk/chart-tiles'
+
+const makeProvider = (overrides: Partial<ChartProvider> = {}): ChartProvider =>
+  ({
+    identifier: 'chart',
+    name: 'Chart',
+    description: 'A chart',
+    type: 'tilelayer',
+    scale: 250000,
+    format: 'png',
+    minzoom: 4,
+    maxzoom: 12,
+    bounds: [0, 0, 10, 20],
+    v2: { url: '~tilePath~/chart/{z}/{x}/{y}' },
+    ...overrides
+  }) as ChartProvider
+
+describe('tileJson: tileUrlTemplate', () => {
+  it('makes plugin-served tile URLs absolute', () => {
+    expect(tileUrlTemplate(makeProvider(), BASE, TILES_PATH)).to.equal(
+      'http://boat.local:3000/signalk/chart-tiles/chart/{z}/{x}/{y}'
+    )
+  })
+
+  it('keeps the URL of a non-proxied online tile layer', () => {
+    const url = 'https://tiles.example.com/{z}/{x}/{y}.png'
+    expect(
+      tileUrlTemplate(makeProvider({ v2: { url } }), BASE, TILES_PATH)
+    ).to.equal(url)
+  })
+
+  it('has no template for WMS and other non-XYZ sources', () => {
+    const provider = makeProvider({
+      type: 'WMS',
+      v2: { url: 'https://wms.example.com/wms' }
+    })
+    expect(tileUrlTemplate(provider, BASE, TILES_PATH)).to.equal(undefined)
+  })
+})
+
+describe('tileJson: defaultCenter', () => {
+  it('centres the bounds a quarter into the zoom range', () => {
+    expect(defaultCenter([0, 0, 10, 20], 4, 12)).to.deep.equal([5, 10, 6])
+  })
+
+  it('handles bounds crossing the antimeridian', () => {
+    expect(defaultCenter([170, -10, -160, 10], 2, 2)).to.deep.equal([
+      -175, 0, 2
+    ])
+  })
+
+  it('needs four bounds values', () => {
+    expect(defaultCenter(undefined)).to.equal(undefined)
+    expect(defaultCenter([1, 2, 3])).to.equal(undefined)
+  })
+})
+
+describe('tileJson: buildTileJson', () => {
+  it('describes a raster chart without vector_layers', () => {
+    const doc = buildTileJson(
+      makeProvider({ _attribution: '© Hydrographic Office' }),
+      'http://x/{z}/{x}/{y}'
+    )
+    expect(doc).to.deep.include({
+      tilejson: '3.0.0',
+      name: 'Chart',
+      attribution: '© Hydrographic Office',
+      scheme: 'xyz',
+      tiles: ['http://x/{z}/{x}/{y}'],
+      minzoom: 4,
+      maxzoom: 12,
+      bounds: [0, 0, 10, 20],
+      center: [5, 10, 6]
+    })
+    expect(doc).to.not.have.property('vector_layers')
+  })
+
+  it('lists vector layers with their fields', () => {
+    const doc = buildTileJson(
+      makeProvider({
+        format: 'pbf',
+        _center: [1, 2, 5],
+        v2: {
+          url: '~tilePath~/chart/{z}/{x}/{y}',
+          vectorLayers: [
+            { id: 'depare', fields: { DRVAL1: 'Number' }, minzoom: 8 },
+            { id: 'lndare' }
+          ]
+        }
+      }),
+      'http://x/{z}/{x}/{y}'
+    )
+    expect(doc.center).to.deep.equal([1, 2, 5])
+    expect(doc.vector_layers).to.deep.equal([
+      { id: 'depare', fields: { DRVAL1: 'Number' }, minzoom: 8 },
+      { id: 'lndare', fields: {} }
+    ])
+  })
+})
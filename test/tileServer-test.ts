@@ -5,17 +5,37 @@
  * regressions surface with a clear assertion rather than via a 500 downstream.
  */
 
+import { brotliCompressSync, deflateSync, gzipSync } from 'zlib'
 import { expect } from 'chai'
 import {
+  MAX_CONCURRENT_DOWNLOADS,
+  MAX_OVERZOOM_LEVELS,
+  MAX_REQUEST_TIMEOUT_MS,
   MAX_ZOOM,
+  MIN_CONCURRENT_DOWNLOADS,
+  MIN_REQUEST_TIMEOUT_MS,
   MIN_TILE_Z,
   MIN_ZOOM,
+  acceptsEncoding,
+  detectTileEncoding,
+  enableOverzoom,
   isAllowedTileFormat,
   isMbtilesTileMissing,
+  isOverzoomTile,
+  matchesIfNoneMatch,
+  setTileMaxAge,
+  sniffImageType,
+  tileCacheControl,
+  tileContentType,
+  tileETag,
   validateBBox,
+  validateConcurrency,
   validateMaxZoom,
+  validateOverzoomLevels,
+  validateRequestTimeout,
   validateTileCoords
 } from '../src/tileServer'
+import { ChartProvider } from '../src/types'
 
 describe('tileServer: validateTileCoords', () => {
   it('accepts a valid coordinate', () => {
@@ -92,6 +112,72 @@ describe('tileServer: validateMaxZoom', () => {
   })
 })
 
+describe('tileServer: validateConcurrency', () => {
+  it('accepts the inclusive bounds', () => {
+    expect(validateConcurrency(MIN_CONCURRENT_DOWNLOADS)).to.equal(undefined)
+    expect(validateConcurrency(MAX_CONCURRENT_DOWNLOADS)).to.equal(undefined)
+  })
+
+  it('rejects zero and values above the cap', () => {
+    expect(validateConcurrency(0)).to.be.a('string')
+    expect(validateConcurrency(MAX_CONCURRENT_DOWNLOADS + 1)).to.be.a('string')
+  })
+
+  it('rejects fractions and NaN', () => {
+    expect(validateConcurrency(2.5)).to.be.a('string')
+    expect(validateConcurrency(NaN)).to.be.a('string')
+  })
+})
+
+describe('tileServer: validateRequestTimeout', () => {
+  it('accepts the inclusive bounds', () => {
+    expect(validateRequestTimeout(MIN_REQUEST_TIMEOUT_MS)).to.equal(undefined)
+    expect(validateRequestTimeout(MAX_REQUEST_TIMEOUT_MS)).to.equal(undefined)
+  })
+
+  it('rejects values outside the range', () => {
+    expect(validateRequestTimeout(MIN_REQUEST_TIMEOUT_MS - 1)).to.be.a('string')
+    expect(validateRequestTimeout(MAX_REQUEST_TIMEOUT_MS + 1)).to.be.a('string')
+  })
+
+  it('rejects NaN', () => {
+    expect(validateRequestTimeout(NaN)).to.be.a('string')
+  })
+})
+
+describe('tileServer: overzoom', () => {
+  it('accepts 1 to MAX_OVERZOOM_LEVELS whole levels', () => {
+    expect(validateOverzoomLevels(1)).to.equal(undefined)
+    expect(validateOverzoomLevels(MAX_OVERZOOM_LEVELS)).to.equal(undefined)
+    expect(validateOverzoomLevels(0)).to.be.a('string')
+    expect(validateOverzoomLevels(MAX_OVERZOOM_LEVELS + 1)).to.be.a('string')
+    expect(validateOverzoomLevels(1.5)).to.be.a('string')
+  })
+
+  it('enables overzoom for raster and vector charts', () => {
+    for (const format of ['png', 'jpg', 'jpeg', 'webp', 'pbf']) {
+      const chart = { format } as ChartProvider
+      expect(enableOverzoom(chart, 2), format).to.equal(undefined)
+      expect(chart._overzoomLevels).to.equal(2)
+    }
+    const tiff = { format: 'tiff' } as ChartProvider
+    expect(enableOverzoom(tiff, 2)).to.match(/can't be overzoomed/)
+    expect(tiff._overzoomLevels).to.equal(undefined)
+    expect(enableOverzoom({ format: 'png' } as ChartProvider, 0)).to.match(
+      /Invalid overzoom levels/
+    )
+  })
+
+  it('matches only the configured levels past maxzoom', () => {
+    const provider = { maxzoom: 14, _overzoomLevels: 2 } as ChartProvider
+    expect(isOverzoomTile(provider, 14)).to.equal(false)
+    expect(isOverzoomTile(provider, 15)).to.equal(true)
+    expect(isOverzoomTile(provider, 16)).to.equal(true)
+    expect(isOverzoomTile(provider, 17)).to.equal(false)
+    expect(isOverzoomTile({ maxzoom: 14 } as ChartProvider, 15)).to.equal(false)
+  })
+})
+
 describe('tileServer: validateBBox', () => {
   const valid = { minLon: 0, minLat: 0, maxLon: 1, maxLat: 1 }
 
@@ -172,3 +258,93 @@ describe('tileServer: isMbtilesTileMissing', () => {
     expect(isMbtilesTileMissing(new Error('SQLITE_CORRUPT'))).to.equal(false)
   })
 })
+
+describe('tileServer: content negotiation', () => {
+  const pbf = Buffer.from([0x1a, 0x02, 0x78, 0x01])
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])
+
+  it('detects gzip and zlib by their magic bytes', async () => {
+    expect(await detectTileEncoding(gzipSync(pbf), 'pbf')).to.deep.equal({
+      encoding: 'gzip'
+    })
+    expect(await detectTileEncoding(deflateSync(pbf), 'pbf')).to.deep.equal({
+      encoding: 'deflate'
+    })
+  })
+
+  it('probes vector payloads for brotli', async () => {
+    const result = await detectTileEncoding(brotliCompressSync(pbf), 'pbf')
+    expect(result.encoding).to.equal('br')
+    expect(result.decoded).to.deep.equal(pbf)
+  })
+
+  it('leaves plain protobuf and images alone', async () => {
+    expect(await detectTileEncoding(pbf, 'pbf')).to.deep.equal({})
+    expect(await detectTileEncoding(png, 'png')).to.deep.equal({})
+    // Not probed for brotli: raster formats are never compressed.
+    expect(
+      await detectTileEncoding(brotliCompressSync(pbf), 'png')
+    ).to.deep.equal({})
+  })
+
+  it('picks the content type from the payload, then the format', () => {
+    expect(sniffImageType(png)).to.equal('image/png')
+    expect(tileContentType(png, 'jpg')).to.equal('image/png')
+    expect(tileContentType(pbf, 'pbf')).to.equal('application/x-protobuf')
+    expect(tileContentType(gzipSync(pbf), 'png', 'gzip')).to.equal(
+      'application/x-protobuf'
+    )
+    expect(tileContentType(Buffer.from('x'), 'jpeg')).to.equal('image/jpeg')
+    expect(tileContentType(Buffer.from('x'), 'tiff')).to.equal(
+      'application/octet-stream'
+    )
+  })
+
+  it('parses Accept-Encoding with q-values and wildcards', () => {
+    expect(acceptsEncoding('gzip, deflate, br', 'br')).to.equal(true)
+    expect(acceptsEncoding('deflate', 'gzip')).to.equal(false)
+    expect(acceptsEncoding('gzip;q=0, *', 'gzip')).to.equal(false)
+    expect(acceptsEncoding('*;q=0.5', 'gzip')).to.equal(true)
+    expect(acceptsEncoding('GZIP', 'gzip')).to.equal(true)
+    expect(acceptsEncoding(undefined, 'gzip')).to.equal(false)
+  })
+})
+
+describe('tileServer: conditional requests', () => {
+  it('derives a strong ETag from the body', () => {
+    const etag = tileETag(Buffer.from('tile'))
+    expect(etag).to.match(/^"[\w-]+"$/)
+    expect(tileETag(Buffer.from('tile'))).to.equal(etag)
+    expect(tileETag(Buffer.from('other'))).to.not.equal(etag)
+  })
+
+  it('matches If-None-Match lists, weak tags and the wildcard', () => {
+    expect(matchesIfNoneMatch('"a", "b"', '"b"')).to.equal(true)
+    expect(matchesIfNoneMatch('W/"b"', '"b"')).to.equal(true)
+    expect(matchesIfNoneMatch('*', '"b"')).to.equal(true)
+    expect(matchesIfNoneMatch('"a"', '"b"')).to.equal(false)
+    expect(matchesIfNoneMatch(undefined, '"b"')).to.equal(false)
+  })
+
+  it('uses the provider max-age or the 90-day default', () => {
+    expect(tileCacheControl({} as ChartProvider)).to.equal(
+      'public, max-age=7776000'
+    )
+    expect(
+      tileCacheControl({ _tileMaxAgeSeconds: 0 } as ChartProvider)
+    ).to.equal('public, max-age=0')
+  })
+
+  it('sets the max-age of local and composite charts only', () => {
+    const local = { _fileFormat: 'mbtiles' } as ChartProvider
+    expect(setTileMaxAge(local, 1.5)).to.equal(undefined)
+    expect(tileCacheControl(local)).to.equal('public, max-age=5400')
+    const composite = { _compositeOf: ['a'] } as ChartProvider
+    expect(setTileMaxAge(composite, 0)).to.equal(undefined)
+    expect(composite._tileMaxAgeSeconds).to.equal(0)
+    const online = { proxy: true } as ChartProvider
+    expect(setTileMaxAge(online, 1)).to.be.a('string')
+    expect(online._tileMaxAgeSeconds).to.equal(undefined)
+    expect(setTileMaxAge(local, -1)).to.match(/Invalid max age/)
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for underzoom.ts. Chart tiles come from a fake reader serving
+ * solid png tiles; the HTTP route and overview job endpoints are covered
+ * in plugin-test.ts.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import { CacheQuota } from '../src/cacheQuota'
+import { ChartDownloader } from '../src/chartDownloader'
+import { decodePng, encodePng } from '../src/png'
+import {
+  MAX_UNDERZOOM_LEVELS,
+  OverviewJob,
+  enableUnderzoom,
+  isUnderzoomTile,
+  loadUnderzoomTile,
+  validateUnderzoomLevels
+} from '../src/underzoom'
+import { ChartProvider } from '../src/types'
+
+const harbour = (overrides: Partial<ChartProvider> = {}): ChartProvider =>
+  ({
+    identifier: 'harbour',
+    name: 'Harbour',
+    format: 'png',
+    minzoom: 13,
+    maxzoom: 17,
+    _fileFormat: 'mbtiles',
+    _filePath: '',
+    ...overrides
+  }) as ChartProvider
+
+describe('underzoom: enableUnderzoom', () => {
+  it('lowers minzoom and keeps the chart its own', () => {
+    const chart = harbour()
+    expect(enableUnderzoom(chart, 4)).to.equal(undefined)
+    expect(chart).to.include({ minzoom: 9, _nativeMinzoom: 13 })
+    // A second pass, as on a reload, starts from the chart's own minzoom.
+    enableUnderzoom(chart, 2)
+    expect(chart).to.include({ minzoom: 11, _nativeMinzoom: 13 })
+  })
+
+  it('refuses charts it cannot build overviews for', () => {
+    expect(enableUnderzoom(harbour({ format: 'jpg' }), 2)).to.match(/png/)
+    expect(
+      enableUnderzoom(harbour({ _fileFormat: undefined, proxy: true }), 2)
+    ).to.be.a('string')
+    expect(enableUnderzoom(harbour({ minzoom: 0 }), 2)).to.be.a('string')
+    expect(validateUnderzoomLevels(MAX_UNDERZOOM_LEVELS + 1)).to.be.a('string')
+    expect(validateUnderzoomLevels(0)).to.be.a('string')
+  })
+
+  it('marks only the levels between the two minzooms as overviews', () => {
+    const chart = harbour()
+    expect(isUnderzoomTile(chart, 12)).to.equal(false)
+    enableUnderzoom(chart, 2)
+    expect(isUnderzoomTile(chart, 10)).to.equal(false)
+    expect(isUnderzoomTile(chart, 11)).to.equal(true)
+    expect(isUnderzoomTile(chart, 12)).to.equal(true)
+    expect(isUnderzoomTile(chart, 13)).to.equal(false)
+  })
+})
+
+describe('underzoom: loadUnderzoomTile', () => {
+  let cacheDir: string
+  let reads: string[]
+  // Solid red 4 px tiles, for chart tiles in the west half at zoom 2.
+  const red = encodePng({
+    width: 4,
+    height: 4,
+    pixels: new Uint8Array(Array(16).fill([255, 0, 0, 255]).flat())
+  })
+  const readTile = async (z: number, x: number, y: number) => {
+    reads.push(`${z}/${x}/${y}`)
+    return x < 2 ? red : undefined
+  }
+  const chart = () => {
+    const c = harbour({ minzoom: 2, maxzoom: 2 })
+    enableUnderzoom(c, 2)
+    return c
+  }
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'underzoom-'))
+    reads = []
+  })
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('stitches the four children into their parent', async () => {
+    const png = await loadUnderzoomTile(cacheDir, chart(), readTile, [], {
+      z: 1,
+      x: 0,
+      y: 0
+    })
+    const image = decodePng(png!)!
+    expect(image).to.include({ width: 4, height: 4 })
+    expect([...image.pixels.subarray(0, 4)]).to.deep.equal([255, 0, 0, 255])
+    expect(reads).to.deep.equal(['2/0/0', '2/1/0', '2/0/1', '2/1/1'])
+  })
+
+  it('leaves missing children transparent', async () => {
+    const png = await loadUnderzoomTile(cacheDir, chart(), readTile, [], {
+      z: 0,
+      x: 0,
+      y: 0
+    })
+    const { pixels } = decodePng(png!)!
+    // Left column from the west half, right column from the empty east.
+    expect(pixels[3]).to.equal(255)
+    expect(pixels[3 * 4 + 3]).to.equal(0)
+  })
+
+  it('reuses cached overviews', async () => {
+    const provider = chart()
+    await loadUnderzoomTile(cacheDir, provider, readTile, [], {
+      z: 1,
+      x: 0,
+      y: 0
+    })
+    reads = []
+    await loadUnderzoomTile(cacheDir, provider, readTile, [], {
+      z: 0,
+      x: 0,
+      y: 0
+    })
+    // 1/0/0 came from the cache; the other three were built.
+    expect(reads).to.have.length(12)
+  })
+
+  it('returns undefined where the chart has no tiles', async () => {
+    const png = await loadUnderzoomTile(cacheDir, chart(), readTile, [], {
+      z: 1,
+      x: 1,
+      y: 1
+    })
+    expect(png).to.equal(undefined)
+  })
+
+  it('skips tiles outside the chart bounds without reading', async () => {
+    const provider = chart()
+    provider.bounds = [-170, 10, -100, 60]
+    await loadUnderzoomTile(cacheDir, provider, readTile, [], {
+      z: 1,
+      x: 1,
+      y: 0
+    })
+    expect(reads).to.deep.equal([])
+  })
+
+  it('caches empty overviews instead of searching again', async () => {
+    const provider = chart()
+    const tile = { z: 1, x: 1, y: 1 }
+    await loadUnderzoomTile(cacheDir, provider, readTile, [], tile)
+    reads = []
+    expect(
+      await loadUnderzoomTile(cacheDir, provider, readTile, [], tile)
+    ).to.equal(undefined)
+    expect(reads).to.deep.equal([])
+  })
+
+  it('shares a build between concurrent requests', async () => {
+    const provider = chart()
+    const tile = { z: 0, x: 0, y: 0 }
+    const [a, b] = await Promise.all([
+      loadUnderzoomTile(cacheDir, provider, readTile, [], tile),
+      loadUnderzoomTile(cacheDir, provider, readTile, [], tile)
+    ])
+    expect(a).to.equal(b)
+    expect(reads).to.have.length(16)
+  })
+
+  it('gives up past its reads, keeping the finished children', async () => {
+    const provider = chart()
+    const tile = { z: 0, x: 0, y: 0 }
+    expect(
+      await loadUnderzoomTile(cacheDir, provider, readTile, [], tile, {
+        maxReads: 6
+      })
+    ).to.equal(undefined)
+    expect(
+      fs.existsSync(path.join(cacheDir, 'harbour.underzoom', '0'))
+    ).to.equal(false)
+    reads = []
+    await loadUnderzoomTile(cacheDir, provider, readTile, [], tile)
+    // 1/0/0 was finished by the first request.
+    expect(reads).to.have.length(12)
+  })
+
+  it('counts built overviews toward the cache quota', async () => {
+    const quota = new CacheQuota(cacheDir, () => false)
+    ChartDownloader.cacheQuota = quota
+    try {
+      await loadUnderzoomTile(cacheDir, chart(), readTile, [], {
+        z: 0,
+        x: 0,
+        y: 0
+      })
+    } finally {
+      ChartDownloader.cacheQuota = undefined
+      quota.close()
+    }
+    // 0/0/0, two tiles in the west and two empty ones in the east.
+    expect(quota.usage('harbour.underzoom').tiles).to.equal(5)
+  })
+
+  it('refuses a job for a chart without bounds', async () => {
+    const job = new OverviewJob(1, cacheDir, chart(), readTile, [])
+    await job.run()
+    expect(job.info()).to.include({ status: 'failed', totalTiles: 0 })
+    expect(reads).to.deep.equal([])
+  })
+
+  it('builds every overview level in a job', async () => {
+    const provider = chart()
+    provider.bounds = [-180, -85, 180, 85]
+    const job = new OverviewJob(1, cacheDir, provider, readTile, [])
+    await job.run()
+    expect(job.info()).to.include({
+      status: 'completed',
+      minZoom: 0,
+      maxZoom: 1,
+      totalTiles: 5,
+      builtTiles: 5
+    })
+    expect(
+      fs.existsSync(path.join(cacheDir, 'harbour.underzoom', '0', '0', '0.png'))
+    ).to.equal(true)
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for zip.ts, against archives built by zipFixture.ts.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { expect } from 'chai'
+import { extractZip, readZipEntries, zipEntryPath } from '../src/zip'
+import { buildZip } from './zipFixture'
+
+describe('zip: zipEntryPath', () => {
+  it('keeps entries inside the target directory', () => {
+    expect(zipEntryPath('/charts', 'harbour/3/4/2.png')).to.equal(
+      path.join('/charts', 'harbour', '3', '4', '2.png')
+    )
+    expect(zipEntryPath('/charts', 'a/../b.png')).to.equal(
+      path.join('/charts', 'b.png')
+    )
+  })
+
+  it('refuses entries that would escape it', () => {
+    for (const name of ['../x', 'a/../../x', '/etc/passwd', 'C:/x', '..\\x']) {
+      expect(zipEntryPath('/charts', name), name).to.equal(undefined)
+    }
+  })
+})
+
+describe('zip: readZipEntries and extractZip', () => {
+  let dir: string
+  const write = (name: string, data: Buffer) => {
+    const file = path.join(dir, name)
+    fs.writeFileSync(file, data)
+    return file
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-'))
+  })
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('lists entries with their sizes', async () => {
+    const file = write(
+      'a.zip',
+      buildZip([
+        { name: 'harbour/' },
+        { name: 'harbour/metadata.json', data: '{"format":"png"}' },
+        { name: 'harbour/1/0/0.png', data: 'x'.repeat(500), deflate: true }
+      ])
+    )
+    const entries = await readZipEntries(file)
+    expect(entries.map((e) => [e.name, e.method, e.size])).to.deep.equal([
+      ['harbour/', 0, 0],
+      ['harbour/metadata.json', 0, 16],
+      ['harbour/1/0/0.png', 8, 500]
+    ])
+    expect(entries[2]!.compressedSize).to.be.below(500)
+  })
+
+  it('unpacks stored and deflated entries', async () => {
+    const file = write(
+      'a.zip',
+      buildZip([
+        { name: 'harbour/metadata.json', data: '{}' },
+        { name: 'harbour/1/0/0.png', data: 'x'.repeat(500), deflate: true },
+        { name: 'harbour/empty' }
+      ])
+    )
+    const out = path.join(dir, 'out')
+    await extractZip(file, await readZipEntries(file), out)
+    expect(
+      fs.readFileSync(path.join(out, 'harbour', '1', '0', '0.png'), 'utf8')
+    ).to.equal('x'.repeat(500))
+    expect(
+      fs.readFileSync(path.join(out, 'harbour', 'metadata.json'), 'utf8')
+    ).to.equal('{}')
+    expect(fs.statSync(path.join(out, 'harbour', 'empty')).size).to.equal(0)
+  })
+
+  it('refuses entries outside the target directory', async () => {
+    const file = write('a.zip', buildZip([{ name: '../evil', data: 'x' }]))
+    let error: Error | undefined
+    await extractZip(
+      file,
+      await readZipEntries(file),
+      path.join(dir, 'out')
+    ).catch((err) => (error = err))
+    expect(error?.message).to.match(/Unsafe path/)
+    expect(fs.existsSync(path.join(dir, 'evil'))).to.equal(false)
+  })
+
+  it('refuses entries larger than recorded', async () => {
+    const file = write(
+      'a.zip',
+      buildZip([{ name: 'big', data: 'x'.repeat(1000), deflate: true }])
+    )
+    const entries = await readZipEntries(file)
+    entries[0]!.size = 10
+    let error: Error | undefined
+    await extractZip(file, entries, path.join(dir, 'out')).catch(
+      (err) => (error = err)
+    )
+    expect(error?.message).to.match(/larger than recorded/)
+  })
+
+  it('fails on files that are not zip archives', async () => {
+    const file = write('a.zip', Buffer.from('not a zip at all, not even close'))
+    let error: Error | undefined
+    await readZipEntries(file).catch((err) => (error = err))
+    expect(error?.message).to.match(/Not a zip archive/)
+  })
+})
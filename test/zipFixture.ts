@@ -0,0 +1,53 @@
+/**
+ * Builds small zip archives for the zip and upload tests. Only what
+ * src/zip.ts reads: local headers, the central directory and its end record.
+ */
+
+import zlib from 'zlib'
+
+export interface FixtureEntry {
+  name: string
+  data?: Buffer | string
+  deflate?: boolean
+}
+
+export const buildZip = (entries: FixtureEntry[]): Buffer => {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data ?? '')
+    const stored = entry.deflate ? zlib.deflateRawSync(data) : data
+    const name = Buffer.from(entry.name)
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8)
+    local.writeUInt32LE(zlib.crc32(data), 14)
+    local.writeUInt32LE(stored.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, stored)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10)
+    central.writeUInt32LE(zlib.crc32(data), 16)
+    central.writeUInt32LE(stored.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+    offset += local.length + name.length + stored.length
+  }
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}